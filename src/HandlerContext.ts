@@ -23,6 +23,38 @@ export interface HandlerContext extends Contextual {
      */
     lifecycle?: HandlerLifecycle;
 
+    /**
+     * Identity of the user that invoked the handler over HTTP; undefined for invocations
+     * received from Atomist
+     */
+    identity?: Identity;
+
+}
+
+/**
+ * Authenticated user of an HTTP invocation
+ */
+export interface Identity {
+
+    /**
+     * Name of the user, the login of the GitHub user or the name of the API key
+     */
+    name: string;
+
+    /**
+     * How the user authenticated
+     */
+    via: "basic" | "github" | "jwt" | "apikey";
+
+    /**
+     * Scopes granted to the user
+     */
+    scopes: string[];
+
+    /**
+     * Claims of the verified JWT
+     */
+    claims?: { [claim: string]: any };
 }
 
 /**
@@ -51,4 +83,26 @@ export interface HandlerLifecycle {
      * @returns {Promise<any>}
      */
     dispose(): Promise<void>;
+
+    /**
+     * Register a callback that should be invoked when the invocation gets cancelled,
+     * e.g. because it exceeded its timeout
+     * @param {(reason: string) => void} callback
+     * @param {string} description
+     */
+    registerCancellation?(callback: (reason: string) => void, description?: string): void;
+
+    /**
+     * Has the invocation been cancelled? Long running handlers should check this and stop their work
+     * @returns {boolean}
+     */
+    cancelled?(): boolean;
+
+    /**
+     * Cancels the invocation.
+     * This will invoke all registered cancellation callbacks before disposing the context
+     * @param {string} reason
+     * @returns {Promise<void>}
+     */
+    cancel?(reason: string): Promise<void>;
 }
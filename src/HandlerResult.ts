@@ -35,6 +35,21 @@ export interface HandlerError extends HandlerResult {
     stack?: any;
 }
 
+/**
+ * Error of an invocation that got cancelled because it didn't complete within its timeout
+ */
+export interface HandlerTimeoutError extends HandlerError {
+
+    /**
+     * The timeout in milliseconds that expired
+     */
+    timeout: number;
+}
+
+export function isHandlerTimeoutError(result: any): result is HandlerTimeoutError {
+    return !!result && typeof result.timeout === "number";
+}
+
 export const Success: HandlerResult = {
     code: 0,
 };
@@ -48,6 +63,9 @@ export const Failure: HandlerResult = {
 export const FailurePromise = Promise.resolve(Failure);
 
 export function failure(err: Error): HandlerError {
+    if (isHandlerTimeoutError(err)) {
+        return { code: 1, message: err.message, stack: err.stack, timeout: err.timeout } as HandlerTimeoutError;
+    }
     return { code: 1, message: err.message, stack: err.stack };
 }
 
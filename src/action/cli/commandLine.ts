@@ -1,6 +1,10 @@
 import { exec } from "child-process-promise";
 
-import { ExecOptions } from "child_process";
+import {
+    ExecOptions,
+    execSync,
+} from "child_process";
+import { onCancel } from "../../internal/invoker/cancellation";
 import { logger } from "../../internal/util/logger";
 import { ActionResult } from "../ActionResult";
 
@@ -24,9 +28,58 @@ export interface CommandResult<T = undefined> extends ActionResult<T> {
  */
 export function runCommand(cmd: string, opts: ExecOptions): Promise<CommandResult> {
     logger.debug((opts.cwd ? opts.cwd : "") + " ==> " + cmd);
-    return exec(cmd, opts)
-        .then(r => ({
-            ...r,
-            success: true,
-        }));
+    const result = exec(cmd, opts);
+    // Kill the child process if the invocation running this command gets cancelled
+    const unregister = onCancel(() => {
+        if (result.childProcess) {
+            logger.warn("Killing child process '%s' running '%s'", result.childProcess.pid, cmd);
+            killProcessTree(result.childProcess.pid);
+        }
+    });
+    return result
+        .then(r => {
+            unregister();
+            return {
+                ...r,
+                success: true,
+            };
+        }, err => {
+            unregister();
+            throw err;
+        });
+}
+
+/**
+ * Kill the process with the given pid and all its descendants. Commands are run through
+ * a shell which doesn't pass signals on to the processes it started.
+ * @param {number} pid
+ */
+export function killProcessTree(pid: number) {
+    if (process.platform === "win32") {
+        try {
+            execSync(`taskkill /pid ${pid} /T /F`);
+        } catch (err) {
+            logger.warn("Failed to kill process tree of '%s': %s", pid, err.message);
+        }
+        return;
+    }
+
+    const pids = [pid];
+    // Child pids are appended while iterating to also collect their descendants
+    for (const parent of pids) {
+        try {
+            execSync(`pgrep -P ${parent}`).toString().split("\n")
+                .filter(p => p.trim().length > 0)
+                .forEach(p => pids.push(+p));
+        } catch (err) {
+            // pgrep exits with 1 if there are no child processes
+        }
+    }
+    pids.forEach(p => {
+        try {
+            process.kill(p, "SIGTERM");
+        } catch (err) {
+            // process might have exited already
+        }
+    });
 }
@@ -1,6 +1,15 @@
 import * as cluster from "cluster";
 import * as _ from "lodash";
 import { Configuration } from "./configuration";
+import {
+    destinationRegistry,
+    invocationTracker,
+    setDeadLetterStore,
+    setEventDeduplicator,
+    setEventStore,
+    setInvocationLimiter,
+    setSpanExporter,
+} from "./globals";
 import {
     HandleCommand,
     HandleEvent,
@@ -10,24 +19,47 @@ import {
     IngesterBuilder,
 } from "./ingesters";
 import { registerApplicationEvents } from "./internal/env/applicationEvent";
+import { FileDeduplicationStore } from "./internal/event/FileDeduplicationStore";
+import { FileEventStore } from "./internal/event/FileEventStore";
+import { InMemoryDeadLetterStore } from "./internal/event/InMemoryDeadLetterStore";
+import { InMemoryDeduplicationStore } from "./internal/event/InMemoryDeduplicationStore";
+import { EmailSender } from "./internal/message/EmailSender";
+import { MattermostSender } from "./internal/message/MattermostSender";
+import { MicrosoftTeamsSender } from "./internal/message/MicrosoftTeamsSender";
+import { FileSpanExporter } from "./internal/trace/FileSpanExporter";
 import {
     ClusterMasterRequestProcessor,
 } from "./internal/transport/cluster/ClusterMasterRequestProcessor";
 import { startWorker } from "./internal/transport/cluster/ClusterWorkerRequestProcessor";
+import { resolveScheduler } from "./internal/transport/cluster/scheduling";
+import { EventDeduplicator } from "./internal/transport/EventDeduplicator";
 import { EventStoringAutomationEventListener } from "./internal/transport/EventStoringAutomationEventListener";
 import {
     ExpressServer,
     ExpressServerOptions,
 } from "./internal/transport/express/ExpressServer";
+import { InvocationLimiter } from "./internal/transport/InvocationLimiter";
+import { drainAndReport } from "./internal/transport/InvocationTracker";
 import { MetricEnabledAutomationEventListener } from "./internal/transport/MetricEnabledAutomationEventListener";
+import { StreamingAutomationEventListener } from "./internal/transport/StreamingAutomationEventListener";
 import { DefaultWebSocketRequestProcessor } from "./internal/transport/websocket/DefaultWebSocketRequestProcessor";
 import { prepareRegistration } from "./internal/transport/websocket/payloads";
 import {
+    drainTimeout,
     WebSocketClient,
     WebSocketClientOptions,
 } from "./internal/transport/websocket/WebSocketClient";
 import { WebSocketRequestProcessor } from "./internal/transport/websocket/WebSocketRequestProcessor";
-import { logger } from "./internal/util/logger";
+import {
+    HealthStatus,
+    registerHealthIndicator,
+} from "./internal/util/health";
+import {
+    logger,
+    LoggingConfig,
+    setLogLevels,
+} from "./internal/util/logger";
+import { registerShutdownHook } from "./internal/util/shutdown";
 import { toStringArray } from "./internal/util/string";
 import { AutomationServer } from "./server/AutomationServer";
 import { BuildableAutomationServer } from "./server/BuildableAutomationServer";
@@ -42,6 +74,7 @@ export const DefaultGraphQLServer =
 const DefaultListeners = [
     new MetricEnabledAutomationEventListener(),
     new EventStoringAutomationEventListener(),
+    new StreamingAutomationEventListener(),
 ];
 
 export class AutomationClient {
@@ -69,6 +102,8 @@ export class AutomationClient {
                 groups: this.groups,
                 keywords: [],
                 token: configuration.token,
+                retry: configuration.retry,
+                timeout: configuration.timeout,
                 endpoints: {
                     graphql: _.get(this.configuration, "endpoints.graphql", DefaultGraphQLServer),
                     api: _.get(this.configuration, "endpoints.api", DefaultApiServer),
@@ -102,12 +137,28 @@ export class AutomationClient {
             token: this.configuration.token,
             termination: _.get(this.configuration, "ws.termination"),
             compress: _.get(this.configuration, "ws.compress") || false,
+            reconnect: _.get(this.configuration, "ws.reconnect"),
+            bufferSize: _.get(this.configuration, "ws.bufferSize"),
         };
 
-        if (this.configuration.logging && this.configuration.logging.level) {
-            (logger as any).level = this.configuration.logging.level;
+        if (this.configuration.logging) {
+            if (this.configuration.logging.format && LoggingConfig.format !== "cli") {
+                LoggingConfig.format = this.configuration.logging.format;
+            }
+            setLogLevels({
+                level: this.configuration.logging.level,
+                modules: this.configuration.logging.modules,
+            });
         }
 
+        this.setupEventStore();
+        this.setupDeadLetterStore();
+        this.setupEventDeduplicator();
+        this.setupInvocationLimiter();
+        this.setupDestinations();
+        this.setupTracing();
+        this.setupDrain(webSocketOptions);
+
         if (!(this.configuration.cluster && this.configuration.cluster.enabled)) {
             logger.info(`Starting Atomist automation client ${this.configuration.name}@${this.configuration.version}`);
             if ((this.configuration.ws && this.configuration.ws.enabled) || !this.configuration.ws) {
@@ -147,10 +198,12 @@ export class AutomationClient {
         if (this.configuration.listeners) {
             return new ClusterMasterRequestProcessor(this.automations, webSocketOptions,
                 [...DefaultListeners, ...this.configuration.listeners],
-                this.configuration.cluster.workers);
+                this.configuration.cluster.workers, this.configuration.cluster.supervision,
+                resolveScheduler(this.configuration.cluster.scheduler));
         } else {
             return new ClusterMasterRequestProcessor(this.automations, webSocketOptions,
-                DefaultListeners, this.configuration.cluster.workers);
+                DefaultListeners, this.configuration.cluster.workers, this.configuration.cluster.supervision,
+                resolveScheduler(this.configuration.cluster.scheduler));
         }
     }
 
@@ -164,6 +217,81 @@ export class AutomationClient {
         }
     }
 
+    private setupEventStore() {
+        // Events are only recorded in the master; workers must not write to the same log
+        if (cluster.isMaster
+            && this.configuration.eventStore
+            && this.configuration.eventStore.type === "file") {
+            setEventStore(new FileEventStore(this.configuration.eventStore.file));
+        }
+    }
+
+    private setupDeadLetterStore() {
+        if (this.configuration.deadLetter) {
+            if (this.configuration.deadLetter.enabled === false) {
+                setDeadLetterStore(null);
+            } else if (this.configuration.deadLetter.maxEntries !== undefined) {
+                setDeadLetterStore(new InMemoryDeadLetterStore(this.configuration.deadLetter.maxEntries));
+            }
+        }
+    }
+
+    private setupEventDeduplicator() {
+        // Events are deduplicated in the master before they get dispatched to workers
+        if (cluster.isMaster
+            && this.configuration.deduplication
+            && this.configuration.deduplication.enabled) {
+            const store = this.configuration.deduplication.type === "file"
+                ? new FileDeduplicationStore(this.configuration.deduplication.file)
+                : new InMemoryDeduplicationStore();
+            setEventDeduplicator(new EventDeduplicator(store, this.configuration.deduplication));
+        }
+    }
+
+    private setupInvocationLimiter() {
+        // Invocations are queued in the master so that limits apply across all workers
+        if (cluster.isMaster) {
+            setInvocationLimiter(new InvocationLimiter(this.configuration.concurrency));
+        }
+    }
+
+    private setupDestinations() {
+        // Messages are sent directly from the master and all workers
+        const destinations = this.configuration.destinations;
+        if (destinations && destinations.commandUrl) {
+            destinationRegistry()
+                .register(new MicrosoftTeamsSender(destinations.commandUrl))
+                .register(new MattermostSender(destinations.commandUrl));
+        }
+        if (destinations && destinations.email) {
+            destinationRegistry().register(new EmailSender(destinations.email, destinations.commandUrl));
+        }
+    }
+
+    private setupTracing() {
+        // Spans are recorded in the master and all workers
+        if (this.configuration.tracing && this.configuration.tracing.enabled) {
+            setSpanExporter(this.configuration.tracing.exporter
+                || new FileSpanExporter(this.configuration.tracing.file));
+        }
+    }
+
+    private setupDrain(webSocketOptions: WebSocketClientOptions) {
+        // Workers drain their own invocations; see ClusterWorkerRequestProcessor
+        if (cluster.isMaster) {
+            registerHealthIndicator(() => {
+                if (invocationTracker().draining) {
+                    return { status: HealthStatus.OutOfService, detail: "Draining in-flight invocations" };
+                } else {
+                    return { status: HealthStatus.Up, detail: "Accepting invocations" };
+                }
+            });
+            // Drain before any other shutdown hook closes connections or cleans up resources
+            registerShutdownHook(() => drainAndReport(invocationTracker(), drainTimeout(webSocketOptions))
+                .then(() => 0), 0);
+        }
+    }
+
     private setupApplicationEvents(): Promise<any> {
         if (this.configuration.applicationEvents
             && this.configuration.applicationEvents.enabled
@@ -186,7 +314,8 @@ export class AutomationClient {
         this.webSocketClient = new WebSocketClient(
             () => prepareRegistration(this.automations.automations, payloadOptions),
             options,
-            handler);
+            handler,
+            this.configuration.listeners ? [...DefaultListeners, ...this.configuration.listeners] : DefaultListeners);
         return this.webSocketClient.start();
     }
 
@@ -211,6 +340,11 @@ export class AutomationClient {
                 graphql: _.get(this.configuration, "endpoints.graphql")
                     ? _.get(this.configuration, "endpoints.graphql") : DefaultGraphQLServer,
             },
+            webhook: http && http.webhook,
+            jobs: http && http.jobs,
+            dashboard: http && http.dashboard,
+            rateLimit: http && http.rateLimit,
+            requestProcessor: this.wsHandler,
         };
 
         if (http && http.enabled) {
@@ -229,10 +363,15 @@ export class AutomationClient {
                 } else if (http.auth.bearer) {
                     expressOptions.auth.bearer.enabled = http.auth.bearer.enabled;
                 }
+                expressOptions.auth.jwt = http.auth.jwt;
+                expressOptions.auth.apiKey = http.auth.apiKey;
+                expressOptions.auth.scopes = http.auth.scopes;
             }
         }
         if (!http || http.enabled) {
-            this.httpServer = new ExpressServer(this.automations, this.configuration.listeners, expressOptions);
+            this.httpServer = new ExpressServer(this.automations,
+                this.configuration.listeners ? [...DefaultListeners, ...this.configuration.listeners] : DefaultListeners,
+                expressOptions);
         }
     }
 }
@@ -8,6 +8,7 @@ import { Arg, CommandInvocation } from "../internal/invoker/Payload";
 import { logger } from "../internal/util/logger";
 import { cliAtomistConfig } from "./config";
 import { cliGitInfo } from "./gitInfo";
+import { cliReplay } from "./replay";
 
 /**
  * Parse positional parameters into parameter name/value pairs.  The
@@ -89,6 +90,10 @@ export function gitInfo(argv: any): Promise<number> {
     return cliGitInfo(argv["change-dir"]);
 }
 
+export function replay(argv: any): Promise<number> {
+    return cliReplay(argv);
+}
+
 function execNode(
     cmd: string,
     args: string,
@@ -0,0 +1,42 @@
+import axios, { AxiosRequestConfig } from "axios";
+import * as stringify from "json-stringify-safe";
+
+/**
+ * Replay a recorded command or event via the REST API of a running automation client.
+ * @param argv parsed command-line arguments
+ * @returns {Promise<number>} exit status
+ */
+export function cliReplay(argv: any): Promise<number> {
+    const type: string = argv.type;
+    const id: string = argv.id;
+    const url: string = argv.url;
+
+    if (type !== "command" && type !== "event") {
+        console.error(`Type of replay must be either 'command' or 'event' but was '${type}'`);
+        return Promise.resolve(1);
+    }
+
+    const config: AxiosRequestConfig = {};
+    if (argv.token) {
+        config.headers = { Authorization: `Bearer ${argv.token}` };
+    } else if (argv.user && argv.password) {
+        config.auth = { username: argv.user, password: argv.password };
+    }
+
+    const replayUrl = `${url.replace(/\/$/, "")}/replay/${type}s/${encodeURIComponent(id)}`;
+    return axios.post(replayUrl, { dry_run: argv["dry-run"] === true }, config)
+        .then(result => {
+            console.log(`Replayed ${type} '${id}' as '${result.data.correlation_id}':`);
+            console.log(stringify(result.data, null, 2));
+            return result.data.result && [].concat(result.data.result).some(r => r.code !== 0) ? 1 : 0;
+        }, err => {
+            if (err.response && err.response.status === 404) {
+                console.error(`No ${type} with id '${id}' recorded at '${url}'`);
+            } else {
+                const reason = err.response && err.response.data && err.response.data.message
+                    ? err.response.data.message : err.message;
+                console.error(`Failed to replay ${type} '${id}': ${reason}`);
+            }
+            return 1;
+        });
+}
@@ -7,10 +7,21 @@ import {
     HandleEvent,
 } from "./index";
 import { Ingester, IngesterBuilder } from "./ingesters";
+import { FileDeduplicationStoreOptions } from "./internal/event/FileDeduplicationStore";
+import { FileEventStoreOptions } from "./internal/event/FileEventStore";
+import { EmailOptions } from "./internal/message/EmailSender";
+import { WorkerSupervisionOptions } from "./internal/transport/cluster/ClusterMasterRequestProcessor";
+import {
+    WorkerScheduler,
+    WorkerSchedulerName,
+} from "./internal/transport/cluster/scheduling";
+import { DeduplicationOptions } from "./internal/transport/EventDeduplicator";
+import { ConcurrencyOptions } from "./internal/transport/InvocationLimiter";
 import { logger } from "./internal/util/logger";
 import { obfuscateJson } from "./internal/util/string";
 import { AutomationEventListener } from "./server/AutomationEventListener";
 import { AutomationServerOptions, RunOptions } from "./server/options";
+import { SpanExporter } from "./spi/trace/SpanExporter";
 import { Maker } from "./util/constructionUtils";
 
 export interface Configuration extends AutomationServerOptions {
@@ -28,10 +39,68 @@ export interface Configuration extends AutomationServerOptions {
     cluster?: {
         enabled: boolean,
         workers?: number,
+        supervision?: WorkerSupervisionOptions,
+        /**
+         * Strategy to assign invocations to workers; defaults to random
+         */
+        scheduler?: WorkerSchedulerName | WorkerScheduler,
     };
 
     logging?: {
         level: "debug" | "info" | "warn" | "error",
+        /**
+         * Human-readable log lines or one JSON object per line
+         */
+        format?: "logger" | "json",
+        /**
+         * Log levels of individual modules keyed by module path, eg. 'src/commands'
+         */
+        modules?: { [module: string]: "debug" | "info" | "warn" | "error" },
+    };
+
+    eventStore?: {
+        type: "memory" | "file",
+        file?: FileEventStoreOptions,
+    };
+
+    deadLetter?: {
+        enabled: boolean,
+        maxEntries?: number,
+    };
+
+    deduplication?: DeduplicationOptions & {
+        enabled: boolean,
+        /**
+         * Where to keep the keys of processed events; defaults to memory
+         */
+        type?: "memory" | "file",
+        file?: FileDeduplicationStoreOptions,
+    };
+
+    destinations?: {
+        /**
+         * Public base url of the HTTP API; buttons invoking commands in messages to Microsoft Teams
+         * and Mattermost link to the command routes below this url
+         */
+        commandUrl?: string,
+        /**
+         * SMTP server and sender address to deliver messages to email destinations
+         */
+        email?: EmailOptions,
+    };
+
+    concurrency?: ConcurrencyOptions;
+
+    tracing?: {
+        enabled: boolean,
+        /**
+         * File to append spans to; defaults to 'log/traces.log' in the project root
+         */
+        file?: string,
+        /**
+         * Exporter to use instead of writing spans to a file
+         */
+        exporter?: SpanExporter,
     };
 }
 
@@ -1,12 +1,14 @@
 import {
     BaseParameter,
     declareCommandHandler,
+    declareConcurrency,
     declareEventHandler,
     declareMappedParameter,
     declareParameter,
     declareParameters,
     declareSecret,
     declareTags,
+    declareTimeout,
 } from "./internal/metadata/decoratorSupport";
 import { toStringArray } from "./internal/util/string";
 
@@ -88,6 +90,26 @@ export function Tags(...tags: string[]) {
     };
 }
 
+/**
+ * Decorator for the maximum number of concurrent invocations of a command or event handler.
+ * Further invocations are queued until a running invocation completes.
+ */
+export function Concurrency(max: number) {
+    return (target: any) => {
+        declareConcurrency(target, max);
+    };
+}
+
+/**
+ * Decorator for the timeout in milliseconds of a command or event handler.
+ * Invocations that don't complete in time are cancelled and fail.
+ */
+export function Timeout(timeout: number) {
+    return (target: any) => {
+        declareTimeout(target, timeout);
+    };
+}
+
 export abstract class MappedParameters {
     public static readonly GitHubOwner: string = "atomist://github/repository/owner";
     public static readonly GitHubOwnerWithUser: string = "atomist://github/repository/owner?user=true";
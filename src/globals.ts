@@ -1,5 +1,17 @@
+import { InMemoryDeadLetterStore } from "./internal/event/InMemoryDeadLetterStore";
 import { InMemoryEventStore } from "./internal/event/InMemoryEventStore";
+import { MattermostSender } from "./internal/message/MattermostSender";
+import { MicrosoftTeamsSender } from "./internal/message/MicrosoftTeamsSender";
+import { WebhookSender } from "./internal/message/WebhookSender";
+import { WorkerLoad } from "./internal/transport/cluster/scheduling";
+import { EventDeduplicator } from "./internal/transport/EventDeduplicator";
+import { InvocationLimiter } from "./internal/transport/InvocationLimiter";
+import { InvocationStream } from "./internal/transport/InvocationStream";
+import { InvocationTracker } from "./internal/transport/InvocationTracker";
+import { DeadLetterStore } from "./spi/event/DeadLetterStore";
 import { EventStore } from "./spi/event/EventStore";
+import { DestinationRegistry } from "./spi/message/DestinationRegistry";
+import { SpanExporter } from "./spi/trace/SpanExporter";
 
 ////////////////////////////////////////////////////////
 let jwtT: string = "";
@@ -26,3 +38,128 @@ export function eventStore(): EventStore {
 export function setEventStore(newEventStore: EventStore) {
     es = newEventStore;
 }
+
+////////////////////////////////////////////////////////
+let dls: DeadLetterStore = new InMemoryDeadLetterStore();
+
+/**
+ * Globally available instance of {DeadLetterStore} receiving events that failed processing.
+ * Returns null if dead-lettering is disabled.
+ * @type {InMemoryDeadLetterStore}
+ */
+export function deadLetterStore(): DeadLetterStore {
+    return dls;
+}
+
+export function setDeadLetterStore(newDeadLetterStore: DeadLetterStore) {
+    dls = newDeadLetterStore;
+}
+
+////////////////////////////////////////////////////////
+let ed: EventDeduplicator = null;
+
+/**
+ * Globally available instance of {EventDeduplicator} dropping events that were already processed.
+ * Returns null if events should not be deduplicated.
+ */
+export function eventDeduplicator(): EventDeduplicator {
+    return ed;
+}
+
+export function setEventDeduplicator(newEventDeduplicator: EventDeduplicator) {
+    ed = newEventDeduplicator;
+}
+
+////////////////////////////////////////////////////////
+let il: InvocationLimiter = null;
+
+/**
+ * Globally available instance of {InvocationLimiter} shared by all request processors.
+ * Returns null if invocations should not be limited.
+ */
+export function invocationLimiter(): InvocationLimiter {
+    return il;
+}
+
+export function setInvocationLimiter(newInvocationLimiter: InvocationLimiter) {
+    il = newInvocationLimiter;
+}
+
+////////////////////////////////////////////////////////
+let it: InvocationTracker = new InvocationTracker();
+
+/**
+ * Globally available instance of {InvocationTracker} recording in-flight invocations.
+ * @type {InvocationTracker}
+ */
+export function invocationTracker(): InvocationTracker {
+    return it;
+}
+
+export function setInvocationTracker(newInvocationTracker: InvocationTracker) {
+    it = newInvocationTracker;
+}
+
+////////////////////////////////////////////////////////
+let is: InvocationStream = new InvocationStream();
+
+/**
+ * Globally available instance of {InvocationStream} pushing invocation events to live subscribers.
+ * @type {InvocationStream}
+ */
+export function invocationStream(): InvocationStream {
+    return is;
+}
+
+export function setInvocationStream(newInvocationStream: InvocationStream) {
+    is = newInvocationStream;
+}
+
+////////////////////////////////////////////////////////
+let dr: DestinationRegistry = new DestinationRegistry()
+    .register(new MicrosoftTeamsSender())
+    .register(new MattermostSender())
+    .register(new WebhookSender());
+
+/**
+ * Globally available instance of {DestinationRegistry} with the senders of destinations that
+ * messages are delivered to directly instead of through Atomist.
+ * @type {DestinationRegistry}
+ */
+export function destinationRegistry(): DestinationRegistry {
+    return dr;
+}
+
+export function setDestinationRegistry(newDestinationRegistry: DestinationRegistry) {
+    dr = newDestinationRegistry;
+}
+
+////////////////////////////////////////////////////////
+let se: SpanExporter = null;
+
+/**
+ * Globally available instance of {SpanExporter} receiving finished tracing spans.
+ * Returns null if tracing is disabled.
+ */
+export function spanExporter(): SpanExporter {
+    return se;
+}
+
+export function setSpanExporter(newSpanExporter: SpanExporter) {
+    se = newSpanExporter;
+}
+
+////////////////////////////////////////////////////////
+let wl: () => WorkerLoad[] = null;
+
+/**
+ * Globally available load of all cluster workers.
+ * Returns null if not running as cluster master.
+ */
+export function workerLoad(): WorkerLoad[] {
+    return wl ? wl() : null;
+}
+
+export function setWorkerLoad(newWorkerLoad: () => WorkerLoad[]) {
+    wl = newWorkerLoad;
+}
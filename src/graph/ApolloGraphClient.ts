@@ -5,6 +5,8 @@ import { createHttpLink } from "apollo-link-http";
 import gql from "graphql-tag";
 import "isomorphic-fetch";
 import * as stringify from "json-stringify-safe";
+import * as _ from "lodash";
+import { traced } from "../internal/trace/tracing";
 import * as namespace from "../internal/util/cls";
 import { logger } from "../internal/util/logger";
 import { GraphClient } from "../spi/graph/GraphClient";
@@ -77,11 +79,11 @@ export class ApolloGraphClient implements GraphClient {
             return response.data;
         });
 
-        return this.client.query<T>({
+        return traced("graphql.query", () => this.client.query<T>({
                 query,
                 variables,
                 ...options,
-            })
+            }), { kind: "CLIENT", tags: graphQLTags(this.endpoint, query) })
             .then(result => callback(result));
     }
 
@@ -107,12 +109,19 @@ export class ApolloGraphClient implements GraphClient {
             return response.data;
         });
 
-        return this.client.mutate<T>({
+        return traced("graphql.mutation", () => this.client.mutate<T>({
                 mutation,
                 variables,
                 ...options,
-            })
+            }), { kind: "CLIENT", tags: graphQLTags(this.endpoint, mutation) })
             .then(response => callback(response));
     }
 
 }
+
+function graphQLTags(endpoint: string, document: any): { [key: string]: any } {
+    return {
+        "graphql.endpoint": endpoint,
+        "graphql.operation": _.get(document, "definitions[0].name.value"),
+    };
+}
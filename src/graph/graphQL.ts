@@ -53,6 +53,16 @@ export function operationName(query: string): string {
     return (graphql.definitions[0] as any).name.value;
 }
 
+/**
+ * Extract the root type selected by the provided query or subscription
+ * @param {string} query
+ * @returns {string}
+ */
+export function rootType(query: string): string {
+    const graphql = parse(query);
+    return (graphql.definitions[0] as any).selectionSet.selections[0].name.value;
+}
+
 /**
  * Inline the given query. Mainly useful for nicer log messages
  * @param {string} query
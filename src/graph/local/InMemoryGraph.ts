@@ -0,0 +1,182 @@
+import * as appRoot from "app-root-path";
+import * as fs from "fs";
+import {
+    buildClientSchema,
+    getNamedType,
+    getNullableType,
+    GraphQLList,
+    GraphQLSchema,
+    IntrospectionQuery,
+    isLeafType,
+} from "graphql";
+import * as _ from "lodash";
+import * as p from "path";
+import { guid } from "../../internal/util/string";
+
+// tslint:disable-next-line:no-var-requires
+const cortexIntrospection = require("../schema.cortex.json");
+
+/**
+ * Nodes to load into an {InMemoryGraph} keyed by type name, e.g. { Repo: [{ owner: "atomist", name: "client" }] }
+ */
+export interface GraphFixtures {
+    [type: string]: any[];
+}
+
+/**
+ * Reference to a node stored in an {InMemoryGraph}.
+ */
+export class NodeReference {
+    constructor(public readonly type: string, public readonly id: string) { }
+}
+
+/**
+ * Type of a field as declared in the schema.
+ */
+export interface FieldType {
+    name: string;
+    list: boolean;
+    leaf: boolean;
+}
+
+/**
+ * Local graph of nodes for running event handler subscriptions without connecting to Atomist.
+ * Primarily intended for testing.
+ *
+ * Nested objects of nodes are stored as nodes of their own, as typed by the schema or their __typename,
+ * and referenced from their parent. Nodes are identified by their id field; adding a node with
+ * the id of an existing node of the same type merges the fields into the existing node.
+ */
+export class InMemoryGraph {
+
+    /**
+     * Create a new InMemoryGraph from a JSON file of {GraphFixtures}
+     * @param {string} path to the JSON file relative to current
+     * @param {string} current the path to the calling script
+     * @returns {InMemoryGraph}
+     */
+    public static fromFile(path: string, current: string = appRoot.path): InMemoryGraph {
+        const absolutePath = p.resolve(current, path);
+        if (!fs.existsSync(absolutePath)) {
+            throw new Error(`Graph fixture file '${absolutePath}' does not exist`);
+        }
+        return new InMemoryGraph().load(JSON.parse(fs.readFileSync(absolutePath).toString()));
+    }
+
+    private nodes: Map<string, Map<string, any>> = new Map();
+    private listeners: Array<(type: string, id: string) => void> = [];
+
+    constructor(public readonly schema: GraphQLSchema = cortexSchema()) { }
+
+    /**
+     * Add the given fixtures without notifying subscribers
+     * @param {GraphFixtures} fixtures
+     * @returns {this}
+     */
+    public load(fixtures: GraphFixtures): this {
+        _.forEach(fixtures, (nodes, type) => nodes.forEach(n => this.store(type, n)));
+        return this;
+    }
+
+    /**
+     * Add a node and notify subscribers
+     * @param {string} type
+     * @param node
+     * @returns {string} id of the added node
+     */
+    public add(type: string, node: any): string {
+        const id = this.store(type, node);
+        this.listeners.forEach(l => l(type, id));
+        return id;
+    }
+
+    /**
+     * Stored fields of a node; nested nodes are represented as {NodeReference}s
+     * @param {string} type
+     * @param {string} id
+     * @returns {any} the node or undefined if not found
+     */
+    public node(type: string, id: string): any {
+        return this.nodes.has(type) ? this.nodes.get(type).get(id) : undefined;
+    }
+
+    /**
+     * Ids of all nodes of a type in the order they were first added
+     * @param {string} type
+     * @returns {string[]}
+     */
+    public ids(type: string): string[] {
+        return this.nodes.has(type) ? Array.from(this.nodes.get(type).keys()) : [];
+    }
+
+    /**
+     * Subscribe to nodes being added; nested nodes don't get notified individually
+     * @param {(type: string, id: string) => void} listener
+     * @returns {() => void} function to unsubscribe
+     */
+    public subscribe(listener: (type: string, id: string) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Type of a field as declared in the schema
+     * @param {string} type
+     * @param {string} field
+     * @returns {FieldType} the type or undefined if either the type or the field are unknown
+     */
+    public fieldType(type: string, field: string): FieldType {
+        const objectType = this.schema.getType(type) as any;
+        if (!objectType || !objectType.getFields || !objectType.getFields()[field]) {
+            return undefined;
+        }
+        const fieldType = objectType.getFields()[field].type;
+        const namedType = getNamedType(fieldType);
+        return {
+            name: namedType.name,
+            list: getNullableType(fieldType) instanceof GraphQLList,
+            leaf: isLeafType(namedType),
+        };
+    }
+
+    private store(type: string, node: any): string {
+        const id = node.id !== undefined && node.id !== null ? String(node.id) : guid();
+        if (!this.nodes.has(type)) {
+            this.nodes.set(type, new Map());
+        }
+        const existing = this.nodes.get(type).get(id) || {};
+        const record = { ...existing };
+
+        _.forEach(node, (value, field) => {
+            if (field === "__typename") {
+                return;
+            }
+            const fieldType = this.fieldType(type, field);
+            const reference = (v: any) => {
+                const nestedType = v.__typename || (fieldType && !fieldType.leaf ? fieldType.name : undefined);
+                return nestedType ? new NodeReference(nestedType, this.store(nestedType, v)) : v;
+            };
+            if (Array.isArray(value)) {
+                record[field] = value.map(v => _.isPlainObject(v) ? reference(v) : v);
+            } else if (_.isPlainObject(value)) {
+                record[field] = reference(value);
+            } else {
+                record[field] = value;
+            }
+        });
+
+        this.nodes.get(type).set(id, record);
+        return id;
+    }
+}
+
+let cortex: GraphQLSchema;
+
+function cortexSchema(): GraphQLSchema {
+    if (!cortex) {
+        cortex = buildClientSchema(cortexIntrospection.data as IntrospectionQuery);
+    }
+    return cortex;
+}
@@ -0,0 +1,231 @@
+import {
+    DocumentNode,
+    FieldNode,
+    FragmentDefinitionNode,
+    OperationDefinitionNode,
+    parse,
+    SelectionSetNode,
+    ValueNode,
+} from "graphql";
+import * as _ from "lodash";
+import { EventFired } from "../../HandleEvent";
+import { metadataFromInstance } from "../../internal/metadata/metadataReading";
+import { EventHandlerMetadata } from "../../metadata/automationMetadata";
+import {
+    InMemoryGraph,
+    NodeReference,
+} from "./InMemoryGraph";
+
+/**
+ * Runs a GraphQL subscription against an {InMemoryGraph} to create the {EventFired} an event handler
+ * would receive from Atomist.
+ *
+ * Arguments on fields act as filters: a node only matches if the arguments equal the fields of the
+ * selected node, or are one of the values if the argument is a list. Filtered fields that select no
+ * node exclude the root node from the event. first and offset page through list fields.
+ */
+export class SubscriptionEvaluator {
+
+    /**
+     * Create a new SubscriptionEvaluator for the subscription of the given event handler
+     * @param {InMemoryGraph} graph
+     * @param handler instance of a class decorated with @EventHandler
+     * @returns {SubscriptionEvaluator}
+     */
+    public static forHandler(graph: InMemoryGraph, handler: any): SubscriptionEvaluator {
+        const md = metadataFromInstance(handler) as EventHandlerMetadata;
+        if (!md || !md.subscription) {
+            throw new Error("Handler does not declare a subscription");
+        }
+        return new SubscriptionEvaluator(graph, md.subscription);
+    }
+
+    private operation: OperationDefinitionNode;
+    private fragments: { [name: string]: FragmentDefinitionNode } = {};
+
+    /**
+     * @param {InMemoryGraph} graph
+     * @param {string} subscription e.g. as read by subscriptionFromFile
+     * @param variables values of variables used in the subscription
+     */
+    constructor(private graph: InMemoryGraph,
+                subscription: string,
+                private variables: { [name: string]: any } = {}) {
+        const document: DocumentNode = parse(subscription);
+        document.definitions.forEach(d => {
+            if (d.kind === "OperationDefinition" && !this.operation) {
+                this.operation = d;
+            } else if (d.kind === "FragmentDefinition") {
+                this.fragments[d.name.value] = d;
+            }
+        });
+        if (!this.operation) {
+            throw new Error("No subscription found in GraphQL document");
+        }
+    }
+
+    get operationName(): string {
+        return this.operation.name ? this.operation.name.value : undefined;
+    }
+
+    /**
+     * Type of the nodes that trigger the subscription
+     */
+    get rootType(): string {
+        return this.root.name.value;
+    }
+
+    /**
+     * Evaluate the subscription for a node of the root type
+     * @param {string} id
+     * @returns {EventFired<any>} the event or undefined if the node doesn't match the subscription
+     */
+    public evaluate(id: string): EventFired<any> {
+        const record = this.graph.node(this.rootType, id);
+        if (!record || !this.matches(record, this.arguments(this.root))) {
+            return undefined;
+        }
+        const data = this.project(this.rootType, record, this.root.selectionSet);
+        if (!data) {
+            return undefined;
+        }
+        return {
+            data: {
+                [this.root.alias ? this.root.alias.value : this.rootType]: [data],
+            },
+            extensions: {
+                operationName: this.operationName,
+            },
+            secrets: [],
+        };
+    }
+
+    /**
+     * Evaluate the subscription for all nodes of the root type in the graph
+     * @returns {Array<EventFired<any>>}
+     */
+    public evaluateAll(): Array<EventFired<any>> {
+        return this.graph.ids(this.rootType).map(id => this.evaluate(id)).filter(e => !!e);
+    }
+
+    /**
+     * Get notified with the event of every node that gets added to the graph and matches the subscription
+     * @param {(e: EventFired<any>) => void} listener
+     * @returns {() => void} function to unsubscribe
+     */
+    public subscribe(listener: (e: EventFired<any>) => void): () => void {
+        return this.graph.subscribe((type, id) => {
+            if (type === this.rootType) {
+                const e = this.evaluate(id);
+                if (e) {
+                    listener(e);
+                }
+            }
+        });
+    }
+
+    private get root(): FieldNode {
+        return this.operation.selectionSet.selections.find(s => s.kind === "Field") as FieldNode;
+    }
+
+    /**
+     * Project the selected fields of a node; returns null if a filtered field selects no node
+     */
+    private project(type: string, record: any, selectionSet: SelectionSetNode): any {
+        const result: any = {};
+        for (const selection of selectionSet.selections) {
+            if (selection.kind === "Field") {
+                const name = selection.name.value;
+                const key = selection.alias ? selection.alias.value : name;
+                if (name === "__typename") {
+                    result[key] = type;
+                } else if (!selection.selectionSet) {
+                    result[key] = record[name] !== undefined ? record[name] : null;
+                } else {
+                    const value = this.projectField(type, name, record[name], selection);
+                    if (value === null && this.isFiltered(selection)) {
+                        return null;
+                    }
+                    result[key] = value;
+                }
+            } else {
+                const fragment = selection.kind === "InlineFragment" ? selection : this.fragments[selection.name.value];
+                if (!fragment) {
+                    throw new Error(`Unknown fragment '${(selection as any).name.value}'`);
+                }
+                if (!fragment.typeCondition || fragment.typeCondition.name.value === type) {
+                    const projected = this.project(type, record, fragment.selectionSet);
+                    if (!projected) {
+                        return null;
+                    }
+                    _.merge(result, projected);
+                }
+            }
+        }
+        return result;
+    }
+
+    private projectField(type: string, name: string, value: any, selection: FieldNode): any {
+        const args = this.arguments(selection);
+        const fieldType = this.graph.fieldType(type, name);
+        const list = fieldType ? fieldType.list : Array.isArray(value);
+
+        const nodes = (value === undefined || value === null ? [] : _.flatten([value]))
+            .map(v => v instanceof NodeReference
+                ? { type: v.type, record: this.graph.node(v.type, v.id) }
+                : { type: v.__typename || (fieldType ? fieldType.name : undefined), record: v })
+            .filter(n => !!n.record && this.matches(n.record, args))
+            .map(n => this.project(n.type, n.record, selection.selectionSet))
+            .filter(n => !!n);
+        const offset = args.offset || args._offset || 0;
+        const first = args.first || args._first;
+        const paged = nodes.slice(offset, first ? offset + first : undefined);
+
+        if (list) {
+            return paged.length > 0 || !this.isFiltered(selection) ? paged : null;
+        }
+        return paged.length > 0 ? paged[0] : null;
+    }
+
+    private matches(record: any, args: { [name: string]: any }): boolean {
+        return _.every(args, (value, name) => {
+            if (Pagination.indexOf(name) >= 0 || name.startsWith("_")) {
+                return true;
+            }
+            const actual = record[name];
+            return _.flatten([value]).some(v => v === actual || (actual !== undefined && actual !== null
+                && String(v) === String(actual)));
+        });
+    }
+
+    private isFiltered(selection: FieldNode): boolean {
+        return Object.keys(this.arguments(selection)).some(a => Pagination.indexOf(a) < 0 && !a.startsWith("_"));
+    }
+
+    private arguments(selection: FieldNode): { [name: string]: any } {
+        const args: { [name: string]: any } = {};
+        (selection.arguments || []).forEach(a => args[a.name.value] = this.value(a.value));
+        return args;
+    }
+
+    private value(node: ValueNode): any {
+        switch (node.kind) {
+            case "Variable":
+                return this.variables[node.name.value];
+            case "IntValue":
+                return parseInt(node.value, 10);
+            case "FloatValue":
+                return parseFloat(node.value);
+            case "NullValue":
+                return null;
+            case "ListValue":
+                return node.values.map(v => this.value(v));
+            case "ObjectValue":
+                return _.fromPairs(node.fields.map(f => [f.name.value, this.value(f.value)]));
+            default:
+                return node.value;
+        }
+    }
+}
+
+const Pagination = ["first", "offset"];
@@ -2,6 +2,7 @@ export { Configuration } from "./configuration";
 
 export {
     CommandHandler,
+    Concurrency,
     ConfigurableCommandHandler,
     EventHandler,
     MappedParameter,
@@ -10,6 +11,7 @@ export {
     Secret,
     Secrets,
     Tags,
+    Timeout,
 } from "./decorators";
 
 export { HandleCommand } from "./HandleCommand";
@@ -23,12 +25,15 @@ export {
     HandlerContext,
     AutomationContextAware,
     HandlerLifecycle,
+    Identity,
 } from "./HandlerContext";
 
 export {
     Failure,
     failure,
     HandlerResult,
+    HandlerTimeoutError,
+    isHandlerTimeoutError,
     RedirectResult,
     success,
     Success,
@@ -0,0 +1,147 @@
+import * as appRoot from "app-root-path";
+import * as fs from "fs-extra";
+import * as stringify from "json-stringify-safe";
+import * as path from "path";
+import { DeduplicationStore } from "../../spi/event/DeduplicationStore";
+import { logger } from "../util/logger";
+
+/**
+ * Options to configure the {FileDeduplicationStore}.
+ */
+export interface FileDeduplicationStoreOptions {
+
+    /**
+     * File to write the keys into; defaults to 'log/dedup.log' in the project root
+     */
+    file?: string;
+
+    /**
+     * Maximum age in milliseconds of keys kept when the file gets compacted;
+     * should not be shorter than the deduplication window
+     */
+    maxAge?: number;
+}
+
+export const DefaultFileDeduplicationStoreOptions: FileDeduplicationStoreOptions = {
+    file: `${appRoot.path}/log/dedup.log`,
+    maxAge: 1000 * 60 * 60 * 24,
+};
+
+interface KeyEntry {
+    key: string;
+    ts: number;
+    removed?: boolean;
+}
+
+/**
+ * {DeduplicationStore} that keeps keys in memory and appends every change to a file
+ * on local disk, so that keys survive restarts of the client.
+ *
+ * The file is compacted on startup and whenever it contains considerably more lines than
+ * there are keys, by dropping removed keys and keys older than the configured maximum age.
+ *
+ * Note: the file should only be written by a single process.
+ */
+export class FileDeduplicationStore implements DeduplicationStore {
+
+    private options: FileDeduplicationStoreOptions;
+    private keys: Map<string, number> = new Map();
+    private lines: number = 0;
+
+    constructor(options: FileDeduplicationStoreOptions = {},
+                private clock: () => number = Date.now) {
+        this.options = {
+            ...DefaultFileDeduplicationStoreOptions,
+            ...options,
+        };
+        fs.ensureDirSync(path.dirname(this.options.file));
+        readKeyFile(this.options.file).forEach(e => {
+            if (e.removed) {
+                this.keys.delete(e.key);
+            } else {
+                this.keys.set(e.key, e.ts);
+            }
+        });
+        this.compact();
+        logger.info("Writing deduplication keys to '%s'", this.options.file);
+    }
+
+    public add(key: string, window: number): boolean {
+        const now = this.clock();
+        const ts = this.keys.get(key);
+        if (ts !== undefined && now - ts < window) {
+            return false;
+        }
+        this.keys.set(key, now);
+        this.append({ key, ts: now });
+        return true;
+    }
+
+    public remove(key: string) {
+        if (this.keys.delete(key)) {
+            this.append({ key, ts: this.clock(), removed: true });
+        }
+    }
+
+    /**
+     * Rewrite the file with the keys that are not older than the configured maximum age.
+     */
+    public compact() {
+        const expiry = this.clock() - this.options.maxAge;
+        this.keys.forEach((ts, key) => {
+            if (ts <= expiry) {
+                this.keys.delete(key);
+            }
+        });
+
+        try {
+            const lines: string[] = [];
+            this.keys.forEach((ts, key) => lines.push(toLine({ key, ts })));
+            const temp = `${this.options.file}.tmp`;
+            fs.writeFileSync(temp, lines.join(""));
+            fs.renameSync(temp, this.options.file);
+            this.lines = lines.length;
+        } catch (err) {
+            logger.warn("Failed to compact deduplication keys in '%s': %s", this.options.file, err.message);
+        }
+    }
+
+    private append(entry: KeyEntry) {
+        try {
+            fs.appendFileSync(this.options.file, toLine(entry));
+            this.lines++;
+        } catch (err) {
+            logger.warn("Failed to write deduplication key '%s': %s", entry.key, err.message);
+        }
+        if (this.lines > 2 * this.keys.size + CompactionThreshold) {
+            this.compact();
+        }
+    }
+}
+
+function toLine(entry: KeyEntry): string {
+    return stringify(entry) + "\n";
+}
+
+function readKeyFile(file: string): KeyEntry[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return fs.readFileSync(file, "utf8").split("\n")
+        .filter(l => l.length > 0)
+        .map(l => {
+            try {
+                return JSON.parse(l) as KeyEntry;
+            } catch (err) {
+                // Lines might be incomplete when the process was killed while writing
+                logger.debug("Skipping invalid line in deduplication file '%s'", file);
+                return null;
+            }
+        })
+        .filter(e => !!e && !!e.key);
+}
+
+/**
+ * Number of superfluous lines tolerated before the file gets compacted
+ */
+const CompactionThreshold = 1000;
@@ -0,0 +1,383 @@
+import * as appRoot from "app-root-path";
+import * as fs from "fs-extra";
+import * as stringify from "json-stringify-safe";
+import * as _ from "lodash";
+import * as path from "path";
+import {
+    EventStore,
+    EventStoreQuery,
+} from "../../spi/event/EventStore";
+import { CommandIncoming, EventIncoming } from "../transport/RequestProcessor";
+import { logger } from "../util/logger";
+import { guid } from "../util/string";
+import {
+    CacheEntry,
+    CacheKey,
+    hideSecrets,
+    queryEntries,
+} from "./eventStoreUtils";
+
+/**
+ * Options to configure the {FileEventStore}.
+ */
+export interface FileEventStoreOptions {
+
+    /**
+     * Directory to write the log files into; defaults to 'log/events' in the project root
+     */
+    directory?: string;
+
+    /**
+     * Maximum size in bytes of a single log file before it gets rotated
+     */
+    maxFileSize?: number;
+
+    /**
+     * Maximum number of rotated log files to keep
+     */
+    maxFiles?: number;
+
+    /**
+     * Maximum age in milliseconds of entries kept in rotated log files
+     */
+    maxAge?: number;
+
+    /**
+     * Number of most recent entries kept in memory to answer queries without reading the log files
+     */
+    tailSize?: number;
+}
+
+export const DefaultFileEventStoreOptions: FileEventStoreOptions = {
+    directory: `${appRoot.path}/log/events`,
+    maxFileSize: 5 * 1024 * 1024,
+    maxFiles: 5,
+    maxAge: 1000 * 60 * 60 * 24 * 7,
+    tailSize: 1000,
+};
+
+type EntryType = "event" | "command" | "message";
+
+interface LogEntry extends CacheEntry {
+    type: EntryType;
+}
+
+/**
+ * Location of an entry in the log files; the value is only kept for the tail of recent entries
+ */
+interface IndexEntry {
+    type: EntryType;
+    key: CacheKey;
+    file: string;
+    offset: number;
+    length: number;
+    value?: any;
+}
+
+const ActiveLogFile = "events.log";
+const RotatedLogFilePattern = /^events-[0-9]+-[0-9]+\.log$/;
+
+/**
+ * {EventStore} implementation that persists events, commands and messages
+ * to an append-only log on local disk.
+ *
+ * Keys and file locations of all entries are indexed in memory, so that queries only
+ * read the values of the entries they return; values of the most recent entries are
+ * kept in memory as well.
+ *
+ * Once the active log file exceeds the configured size it is rotated. Rotated
+ * files are compacted in the background by removing expired entries and entries
+ * that have been superseded by a later entry with the same id.
+ *
+ * Note: the log files should only be written by a single process.
+ */
+export class FileEventStore implements EventStore {
+
+    private options: FileEventStoreOptions;
+    private activeLogFile: string;
+    private size: number = 0;
+    private sequence: number = 0;
+    private index: { [type: string]: IndexEntry[] } = { event: [], command: [], message: [] };
+    private tail: IndexEntry[] = [];
+    private compaction: Promise<void> = Promise.resolve();
+
+    constructor(options: FileEventStoreOptions = {}) {
+        this.options = {
+            ...DefaultFileEventStoreOptions,
+            ...options,
+        };
+        this.activeLogFile = path.join(this.options.directory, ActiveLogFile);
+        fs.ensureDirSync(this.options.directory);
+        if (fs.existsSync(this.activeLogFile)) {
+            this.size = fs.statSync(this.activeLogFile).size;
+        }
+        this.load();
+        logger.info("Writing events to '%s'", this.options.directory);
+    }
+
+    public recordEvent(event: EventIncoming) {
+        const id = event.extensions.correlation_id ? event.extensions.correlation_id : guid();
+        this.append("event", id, hideSecrets(event));
+        return id;
+    }
+
+    public recordCommand(command: CommandIncoming) {
+        const id = command.correlation_id ? command.correlation_id : guid();
+        this.append("command", id, hideSecrets(command));
+        return id;
+    }
+
+    public recordMessage(id: string, message: any) {
+        this.append("message", id, message);
+        return id;
+    }
+
+    public events(from: number = -1, query?: EventStoreQuery): any[] {
+        return this.query("event", from, query);
+    }
+
+    public eventSeries(): [number[], number[]] {
+        return series(this.index.event);
+    }
+
+    public commands(from: number = -1, query?: EventStoreQuery): any[] {
+        return this.query("command", from, query);
+    }
+
+    public commandSeries(): [number[], number[]] {
+        return series(this.index.command);
+    }
+
+    public findEvent(id: string): EventIncoming {
+        return this.findLatest("event", id);
+    }
+
+    public findCommand(id: string): CommandIncoming {
+        return this.findLatest("command", id);
+    }
+
+    public messages(from: number = -1, query?: EventStoreQuery): any[] {
+        return this.query("message", from, query);
+    }
+
+    /**
+     * Rotate the active log file and compact all rotated log files.
+     * @returns {Promise<void>} completes once the rotated log files are compacted
+     */
+    public rotate(): Promise<void> {
+        if (this.size > 0) {
+            const rotated = this.nextRotatedLogFile();
+            fs.renameSync(this.activeLogFile, rotated);
+            this.size = 0;
+            this.entries()
+                .filter(e => e.file === this.activeLogFile)
+                .forEach(e => e.file = rotated);
+        }
+        return this.compact();
+    }
+
+    /**
+     * Remove expired and superseded entries from the rotated log files and
+     * delete the oldest files exceeding the configured number of files.
+     * Only one compaction runs at a time.
+     * @returns {Promise<void>}
+     */
+    public compact(): Promise<void> {
+        this.compaction = this.compaction
+            .then(() => this.compactRotatedLogFiles())
+            .catch(err => {
+                logger.warn("Failed to compact event log files: %s", err.message);
+            });
+        return this.compaction;
+    }
+
+    private compactRotatedLogFiles(): Promise<void> {
+        const files = this.rotatedLogFiles();
+        if (files.length === 0) {
+            return Promise.resolve();
+        }
+
+        const expiry = Date.now() - this.options.maxAge;
+        const latest = new Map<string, IndexEntry>();
+        this.entries()
+            .filter(e => files.includes(e.file) && e.key.ts > expiry)
+            .forEach(e => latest.set(`${e.type}:${e.key.guid}`, e));
+        const entries = Array.from(latest.values()).sort((e1, e2) => e1.key.ts - e2.key.ts);
+
+        return Promise.all(files.map(f => fs.readFile(f)))
+            .then(contents => {
+                const buffers = new Map<string, Buffer>(files.map((f, i) => [f, contents[i]] as [string, Buffer]));
+
+                // Copy the lines of the remaining entries into files of at most the maximum size
+                const chunks: Array<{ lines: string[], entries: IndexEntry[] }> = [];
+                let chunk = { lines: [], entries: [] };
+                let size = 0;
+                entries.forEach(e => {
+                    if (size + e.length > this.options.maxFileSize && chunk.lines.length > 0) {
+                        chunks.push(chunk);
+                        chunk = { lines: [], entries: [] };
+                        size = 0;
+                    }
+                    chunk.lines.push(buffers.get(e.file).toString("utf8", e.offset, e.offset + e.length));
+                    chunk.entries.push(e);
+                    size += e.length;
+                });
+                if (chunk.lines.length > 0) {
+                    chunks.push(chunk);
+                }
+
+                // Only keep the newest files
+                const written = chunks.slice(-this.options.maxFiles).map(c => ({ ...c, file: this.nextRotatedLogFile() }));
+                return Promise.all(written.map(w => fs.writeFile(w.file, w.lines.join(""))))
+                    .then(() => {
+                        // Swap the compacted entries in before removing the old files
+                        const compacted = new Map<IndexEntry, IndexEntry>();
+                        written.forEach(w => {
+                            let offset = 0;
+                            w.entries.forEach(e => {
+                                compacted.set(e, { ...e, file: w.file, offset });
+                                offset += e.length;
+                            });
+                        });
+                        const replace = (es: IndexEntry[]) => es
+                            .filter(e => !files.includes(e.file) || compacted.has(e))
+                            .map(e => compacted.has(e) ? compacted.get(e) : e)
+                            .sort((e1, e2) => e1.key.ts - e2.key.ts);
+                        this.index.event = replace(this.index.event);
+                        this.index.command = replace(this.index.command);
+                        this.index.message = replace(this.index.message);
+                        this.tail = replace(this.tail);
+                        return Promise.all(files.map(f => fs.remove(f)));
+                    })
+                    .then(() => {
+                        logger.debug("Compacted %s event log files into %s", files.length, written.length);
+                    });
+            });
+    }
+
+    private append(type: EntryType, id: string, value: any) {
+        try {
+            const key = { guid: id, ts: Date.now() };
+            const line = toLine({ type, key, value });
+            const length = Buffer.byteLength(line);
+            if (this.size > 0 && this.size + length > this.options.maxFileSize) {
+                // Compaction of the rotated files happens in the background
+                this.rotate();
+            }
+            fs.appendFileSync(this.activeLogFile, line);
+            this.add({ type, key, file: this.activeLogFile, offset: this.size, length, value });
+            this.size += length;
+        } catch (err) {
+            logger.warn("Failed to write %s '%s' to event log: %s", type, id, err.message);
+        }
+    }
+
+    /**
+     * Index the entries of all log files
+     */
+    private load() {
+        _.flatten([...this.rotatedLogFiles(), this.activeLogFile].map(indexLogFile))
+            .sort((e1, e2) => e1.key.ts - e2.key.ts)
+            .forEach(e => this.add(e));
+    }
+
+    private add(entry: IndexEntry) {
+        this.index[entry.type].push(entry);
+        this.tail.push(entry);
+        while (this.tail.length > this.options.tailSize) {
+            delete this.tail.shift().value;
+        }
+    }
+
+    private entries(): IndexEntry[] {
+        return [...this.index.event, ...this.index.command, ...this.index.message];
+    }
+
+    private query(type: EntryType, from: number, query: EventStoreQuery): CacheEntry[] {
+        return queryEntries(this.index[type] as CacheEntry[], from, query)
+            .map(e => ({ key: e.key, value: this.value(e as IndexEntry) }));
+    }
+
+    private findLatest(type: EntryType, id: string): any {
+        const entry = _.findLast(this.index[type], e => e.key.guid === id);
+        return entry ? this.value(entry) : undefined;
+    }
+
+    /**
+     * Value of an entry from the tail or else from its log file
+     */
+    private value(entry: IndexEntry): any {
+        if (entry.value !== undefined) {
+            return entry.value;
+        }
+        const fd = fs.openSync(entry.file, "r");
+        try {
+            const buffer = Buffer.alloc(entry.length);
+            fs.readSync(fd, buffer, 0, entry.length, entry.offset);
+            return (JSON.parse(buffer.toString("utf8")) as LogEntry).value;
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    private rotatedLogFiles(): string[] {
+        return fs.readdirSync(this.options.directory)
+            .filter(f => RotatedLogFilePattern.test(f))
+            .sort()
+            .map(f => path.join(this.options.directory, f));
+    }
+
+    private nextRotatedLogFile(): string {
+        const seq = _.padStart((this.sequence++ % 10000).toString(), 4, "0");
+        return path.join(this.options.directory, `events-${Date.now()}-${seq}.log`);
+    }
+}
+
+function toLine(entry: LogEntry): string {
+    return stringify(entry) + "\n";
+}
+
+function indexLogFile(file: string): IndexEntry[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    const content = fs.readFileSync(file);
+    const entries: IndexEntry[] = [];
+    let offset = 0;
+    while (offset < content.length) {
+        const end = content.indexOf("\n", offset);
+        const length = (end < 0 ? content.length : end + 1) - offset;
+        try {
+            const entry = JSON.parse(content.slice(offset, offset + length).toString("utf8")) as LogEntry;
+            if (entry && entry.key) {
+                entries.push({ type: entry.type, key: entry.key, file, offset, length, value: entry.value });
+            }
+        } catch (err) {
+            // Lines might be incomplete when the process was killed while writing
+            logger.debug("Skipping invalid line in event log '%s'", file);
+        }
+        offset += length;
+    }
+    return entries;
+}
+
+/**
+ * Count entries in 5 minute buckets for the last 3 hours.
+ * Returns the same structure as the {InMemoryEventStore}.
+ */
+function series(entries: Array<{ key: CacheKey }>): [number[], number[]] {
+    const interval = 60 * 5;
+    const count = 12 * 3;
+    const now = Math.floor(Date.now() / 1000);
+    const start = now - now % interval - interval * (count - 1);
+
+    const values: number[] = new Array(count).fill(0);
+    const timestamps: number[] = values.map((v, i) => start + i * interval);
+    entries.forEach(e => {
+        const index = Math.floor((Math.floor(e.key.ts / 1000) - start) / interval);
+        if (index >= 0 && index < count) {
+            values[index]++;
+        }
+    });
+    return [values, timestamps];
+}
@@ -0,0 +1,61 @@
+import * as serializeError from "serialize-error";
+import {
+    DeadLetter,
+    DeadLetterStore,
+} from "../../spi/event/DeadLetterStore";
+import { EventIncoming } from "../transport/RequestProcessor";
+import { logger } from "../util/logger";
+import { guid } from "../util/string";
+import { hideSecrets } from "./eventStoreUtils";
+
+/**
+ * Simple {DeadLetterStore} that keeps a bounded number of failed events in memory.
+ * Once full, the oldest entries are dropped.
+ */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+
+    private entries: DeadLetter[] = [];
+
+    constructor(private maxEntries: number = 100) { }
+
+    public add(event: EventIncoming, error: any, handlers?: string[]): string {
+        const id = guid();
+        this.entries.push({
+            id,
+            ts: Date.now(),
+            event,
+            error: typeof error === "object" ? serializeError(error) : error,
+            handlers,
+        });
+        while (this.entries.length > this.maxEntries) {
+            const dropped = this.entries.shift();
+            logger.warn("Dropping dead-lettered event '%s' with correlation id '%s'",
+                dropped.event.extensions.operationName, dropped.event.extensions.correlation_id);
+        }
+        return id;
+    }
+
+    public list(): DeadLetter[] {
+        return this.entries.map(mask);
+    }
+
+    public find(id: string): DeadLetter {
+        const entry = this.entries.find(e => e.id === id);
+        return entry ? mask(entry) : undefined;
+    }
+
+    public remove(id: string): DeadLetter {
+        const index = this.entries.findIndex(e => e.id === id);
+        if (index < 0) {
+            return undefined;
+        }
+        return this.entries.splice(index, 1)[0];
+    }
+}
+
+function mask(entry: DeadLetter): DeadLetter {
+    return {
+        ...entry,
+        event: hideSecrets(entry.event),
+    };
+}
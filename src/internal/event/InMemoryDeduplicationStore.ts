@@ -0,0 +1,41 @@
+import { DeduplicationStore } from "../../spi/event/DeduplicationStore";
+
+/**
+ * Simple {DeduplicationStore} that keeps a bounded number of keys in memory.
+ * Once full, expired keys and then the oldest keys are dropped.
+ */
+export class InMemoryDeduplicationStore implements DeduplicationStore {
+
+    private keys: Map<string, number> = new Map();
+
+    constructor(private maxEntries: number = 10000,
+                private clock: () => number = Date.now) { }
+
+    public add(key: string, window: number): boolean {
+        const now = this.clock();
+        const ts = this.keys.get(key);
+        if (ts !== undefined && now - ts < window) {
+            return false;
+        }
+
+        // Re-insert to keep the map ordered by the time the keys were recorded
+        this.keys.delete(key);
+        this.keys.set(key, now);
+        if (this.keys.size > this.maxEntries) {
+            this.keys.forEach((t, k) => {
+                if (now - t >= window) {
+                    this.keys.delete(k);
+                }
+            });
+            const oldest = this.keys.keys();
+            while (this.keys.size > this.maxEntries) {
+                this.keys.delete(oldest.next().value);
+            }
+        }
+        return true;
+    }
+
+    public remove(key: string) {
+        this.keys.delete(key);
+    }
+}
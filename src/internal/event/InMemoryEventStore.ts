@@ -1,7 +1,16 @@
 import { LRUMap } from "lru_map";
-import { EventStore } from "../../spi/event/EventStore";
+import {
+    EventStore,
+    EventStoreQuery,
+} from "../../spi/event/EventStore";
 import { CommandIncoming, EventIncoming } from "../transport/RequestProcessor";
-import { guid, hideString } from "../util/string";
+import { guid } from "../util/string";
+import {
+    CacheEntry,
+    CacheKey,
+    hideSecrets,
+    queryEntries,
+} from "./eventStoreUtils";
 
 /**
  * Simple {EventStore} implementation that stores events in memory.
@@ -41,10 +50,10 @@ export class InMemoryEventStore implements EventStore {
         return id;
     }
 
-    public events(from: number = -1): any[] {
-        const entries: any[] = [];
-        this.eventCache.forEach((v, k) => k.ts > from ? entries.push({ key: k, value: hideSecrets(v) }) : null);
-        return entries;
+    public events(from: number = -1, query?: EventStoreQuery): any[] {
+        const entries: CacheEntry[] = [];
+        this.eventCache.forEach((v, k) => entries.push({ key: k, value: v }));
+        return queryEntries(entries, from, query).map(e => ({ key: e.key, value: hideSecrets(e.value) }));
     }
 
     public eventSeries(): [number[], number[]] {
@@ -52,10 +61,10 @@ export class InMemoryEventStore implements EventStore {
         return [buckets.map(b => b.value), buckets.map(b => b.ts)];
     }
 
-    public commands(from: number = -1): any[] {
-        const entries: any[] = [];
-        this.commandCache.forEach((v, k) => k.ts > from ? entries.push({ key: k, value: hideSecrets(v) }) : null);
-        return entries;
+    public commands(from: number = -1, query?: EventStoreQuery): any[] {
+        const entries: CacheEntry[] = [];
+        this.commandCache.forEach((v, k) => entries.push({ key: k, value: v }));
+        return queryEntries(entries, from, query).map(e => ({ key: e.key, value: hideSecrets(e.value) }));
     }
 
     public commandSeries(): [number[], number[]] {
@@ -63,22 +72,25 @@ export class InMemoryEventStore implements EventStore {
         return [buckets.map(b => b.value), buckets.map(b => b.ts)];
     }
 
-    public messages(from: number = -1): any[] {
-        const entries: any[] = [];
-        this.messageCache.forEach((v, k) => k.ts > from ? entries.push({ key: k, value: v }) : null);
-        return entries;
+    public findEvent(id: string): EventIncoming {
+        return findLatest(this.eventCache, id);
+    }
+
+    public findCommand(id: string): CommandIncoming {
+        return findLatest(this.commandCache, id);
     }
-}
 
-function hideSecrets(event: EventIncoming | CommandIncoming) {
-    event.secrets = event.secrets
-        ? event.secrets.map(s => ({ uri: s.uri, value: hideString(s.value) })) : undefined;
-    return event;
+    public messages(from: number = -1, query?: EventStoreQuery): any[] {
+        const entries: CacheEntry[] = [];
+        this.messageCache.forEach((v, k) => entries.push({ key: k, value: v }));
+        return queryEntries(entries, from, query);
+    }
 }
 
-interface CacheKey {
-    guid: string;
-    ts: number;
+function findLatest<T extends EventIncoming | CommandIncoming>(cache: LRUMap<CacheKey, T>, id: string): T {
+    let match: T;
+    cache.forEach((v, k) => k.guid === id ? match = v : null);
+    return match ? hideSecrets(match) : undefined;
 }
 
 class Count {
@@ -0,0 +1,53 @@
+import { EventStoreQuery } from "../../spi/event/EventStore";
+import { CommandIncoming, EventIncoming } from "../transport/RequestProcessor";
+import { hideString } from "../util/string";
+
+/**
+ * Key under which entries are kept in an {EventStore}.
+ */
+export interface CacheKey {
+    guid: string;
+    ts: number;
+}
+
+/**
+ * Entry as returned from the query methods of an {EventStore}.
+ */
+export interface CacheEntry {
+    key: CacheKey;
+    value: any;
+}
+
+/**
+ * Return a copy of the given event or command with the values of all secrets masked.
+ * @param {EventIncoming | CommandIncoming} event
+ * @returns {EventIncoming | CommandIncoming}
+ */
+export function hideSecrets<T extends EventIncoming | CommandIncoming>(event: T): T {
+    return {
+        ...(event as any),
+        secrets: event.secrets
+            ? event.secrets.map(s => ({ uri: s.uri, value: hideString(s.value) })) : undefined,
+    };
+}
+
+/**
+ * Filter the given entries by time range and apply paging.
+ * Entries are expected to be ordered by timestamp.
+ * @param {CacheEntry[]} entries
+ * @param {number} from exclusive lower bound of the timestamp
+ * @param {EventStoreQuery} query with the inclusive upper bound of the timestamp in 'to'
+ * @returns {CacheEntry[]}
+ */
+export function queryEntries(entries: CacheEntry[],
+                             from: number = -1,
+                             query: EventStoreQuery = {}): CacheEntry[] {
+    const to = query.to !== undefined && query.to !== null ? query.to : Number.MAX_SAFE_INTEGER;
+    const offset = query.offset > 0 ? query.offset : 0;
+    const matches = entries.filter(e => e.key.ts > from && e.key.ts <= to);
+    if (query.limit !== undefined && query.limit !== null && query.limit >= 0) {
+        return matches.slice(offset, offset + query.limit);
+    } else {
+        return matches.slice(offset);
+    }
+}
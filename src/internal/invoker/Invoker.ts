@@ -16,5 +16,12 @@ export interface Invoker {
 
     invokeCommand(payload: CommandInvocation, ctx: HandlerContext): Promise<HandlerResult>;
 
-    onEvent(payload: EventFired<any>, ctx: HandlerContext): Promise<HandlerResult[]>;
+    /**
+     * Invoke the event handlers subscribed to the event.
+     * @param {EventFired<any>} payload
+     * @param {HandlerContext} ctx
+     * @param {string[]} handlers names of the handlers to invoke; all subscribed handlers if not given
+     * @returns {Promise<HandlerResult[]>}
+     */
+    onEvent(payload: EventFired<any>, ctx: HandlerContext, handlers?: string[]): Promise<HandlerResult[]>;
 }
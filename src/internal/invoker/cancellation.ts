@@ -0,0 +1,172 @@
+import { HandlerContext } from "../../HandlerContext";
+import * as namespace from "../util/cls";
+import { logger } from "../util/logger";
+
+type CancellationCallback = (reason: string) => void;
+
+/**
+ * Callbacks registered for invocations that don't have direct access to the
+ * HandlerContext; keyed by invocation id
+ */
+const InvocationCallbacks = new Map<string, CancellationCallback[]>();
+
+/**
+ * Cancellation state of HandlerContexts; weakly keyed to not keep contexts of completed invocations alive
+ */
+const CancellationStates = new WeakMap<HandlerContext, CancellationState>();
+
+export function registerCancellation(ctx: HandlerContext): (callback: CancellationCallback, description?: string) => void {
+    return (callback: CancellationCallback, description: string) => {
+        cancellationState(ctx).cancellations.push({ how: callback, what: description });
+    };
+}
+
+export function cancelled(ctx: HandlerContext): () => boolean {
+    return () => cancellationState(ctx).cancelled;
+}
+
+export function cancel(ctx: HandlerContext): (reason: string) => Promise<void> {
+    return (reason: string) => {
+        const state = cancellationState(ctx);
+        if (state.cancelled) {
+            return Promise.resolve();
+        }
+        state.cancelled = true;
+        logger.info("Cancelling invocation '%s': %s", ctx.invocationId, reason);
+
+        invokeCallbacks([
+            ...state.cancellations,
+            ...(InvocationCallbacks.get(ctx.invocationId) || []).map(c => ({ how: c, what: "invocation" })),
+        ], reason);
+        InvocationCallbacks.delete(ctx.invocationId);
+
+        return ctx.lifecycle ? ctx.lifecycle.dispose() : Promise.resolve();
+    };
+}
+
+/**
+ * Context of one of several handlers invoked with the same HandlerContext
+ */
+export interface ScopedContext {
+
+    ctx: HandlerContext;
+
+    /**
+     * Call once the handler completed
+     */
+    done(): Promise<void>;
+}
+
+/**
+ * Scope cancellation to each of several handlers invoked with the same HandlerContext, e.g. all
+ * handlers subscribed to an event. Cancelling the context of one handler, for example on timeout,
+ * only invokes the cancellation callbacks registered through that context. The shared context,
+ * including callbacks registered via onCancel and its disposables, gets cancelled once none of
+ * the handlers is running any more. Cancelling the shared context cancels all handlers.
+ * @param {HandlerContext} ctx
+ * @param {number} handlers number of handlers
+ * @returns {ScopedContext[]}
+ */
+export function scopeCancellation(ctx: HandlerContext, handlers: number): ScopedContext[] {
+    if (!ctx.lifecycle || handlers === 1) {
+        return Array.from({ length: handlers }, () => ({ ctx, done: () => Promise.resolve() }));
+    }
+
+    let running = handlers;
+    let reason: string;
+    const scoped = Array.from({ length: handlers }, () => {
+        const child: HandlerContext = { ...ctx };
+        const state = cancellationState(child);
+        child.lifecycle = {
+            ...ctx.lifecycle,
+            registerCancellation: registerCancellation(child),
+            cancelled: () => state.cancelled || ctx.lifecycle.cancelled(),
+            cancel: (why: string) => {
+                if (!state.cancelled) {
+                    state.cancelled = true;
+                    reason = reason || why;
+                    logger.info("Cancelling handler of invocation '%s': %s", ctx.invocationId, why);
+                    invokeCallbacks(state.cancellations, why);
+                }
+                return Promise.resolve();
+            },
+        };
+        const done = () => {
+            if (state.done) {
+                return Promise.resolve();
+            }
+            state.done = true;
+            running--;
+            return running === 0 && reason && !ctx.lifecycle.cancelled() ? ctx.lifecycle.cancel(reason) : Promise.resolve();
+        };
+        return { ctx: child, done };
+    });
+
+    ctx.lifecycle.registerCancellation(why => scoped
+        .filter(s => !cancellationState(s.ctx).done)
+        .forEach(s => s.ctx.lifecycle.cancel(why)), "handlers");
+    return scoped;
+}
+
+/**
+ * Register a callback to be invoked when the currently running invocation gets cancelled.
+ * The invocation is looked up from the continuation-local AutomationContext.
+ * @param {(reason: string) => void} callback
+ * @returns {() => void} function to remove the callback again
+ */
+export function onCancel(callback: CancellationCallback): () => void {
+    const context = namespace.get();
+    if (!context || !context.invocationId) {
+        // tslint:disable-next-line:no-empty
+        return () => { };
+    }
+
+    const invocationId = context.invocationId;
+    InvocationCallbacks.set(invocationId, [...(InvocationCallbacks.get(invocationId) || []), callback]);
+    return () => {
+        const callbacks = (InvocationCallbacks.get(invocationId) || []).filter(c => c !== callback);
+        if (callbacks.length > 0) {
+            InvocationCallbacks.set(invocationId, callbacks);
+        } else {
+            InvocationCallbacks.delete(invocationId);
+        }
+    };
+}
+
+function cancellationState(ctx: HandlerContext): CancellationState {
+    let state = CancellationStates.get(ctx);
+    if (!state) {
+        state = { cancellations: [], cancelled: false, done: false };
+        CancellationStates.set(ctx, state);
+    }
+    return state;
+}
+
+function invokeCallbacks(callbacks: Cancellation[], reason: string) {
+    callbacks.forEach(c => {
+        try {
+            c.how(reason);
+        } catch (err) {
+            logger.warn("Failed to cancel %s: %s", c.what, err.message);
+        }
+    });
+}
+
+interface Cancellation {
+
+    how: CancellationCallback;
+
+    what: string;
+}
+
+interface CancellationState {
+
+    cancellations: Cancellation[];
+
+    cancelled: boolean;
+
+    /**
+     * Set once the handler of a scoped context completed
+     */
+    done: boolean;
+}
@@ -0,0 +1,51 @@
+import { HandlerContext } from "../../HandlerContext";
+import { logger } from "../util/logger";
+
+/**
+ * Invoke a handler and fail the invocation if it doesn't complete within the given timeout.
+ * On timeout the invocation is cancelled through the lifecycle of the HandlerContext before
+ * the returned promise rejects with an error carrying the expired timeout.
+ * @param {() => Promise<T>} what
+ * @param {string} name name of the handler
+ * @param {number} timeout timeout in milliseconds; undefined or 0 to not time out
+ * @param {HandlerContext} ctx
+ * @returns {Promise<T>}
+ */
+export function invokeWithTimeout<T>(what: () => Promise<T>,
+                                     name: string,
+                                     timeout: number,
+                                     ctx: HandlerContext): Promise<T> {
+    if (!timeout || timeout <= 0) {
+        return what();
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            const err: any = new Error(`Invocation of '${name}' timed out after ${timeout}ms`);
+            err.timeout = timeout;
+            logger.warn(err.message);
+
+            const cancellation = ctx.lifecycle && ctx.lifecycle.cancel
+                ? ctx.lifecycle.cancel(err.message) : Promise.resolve();
+            cancellation
+                .catch(error => logger.warn("Failed to cancel invocation of '%s': %s", name, error.message))
+                .then(() => reject(err));
+        }, timeout);
+
+        Promise.resolve()
+            .then(what)
+            .then(result => {
+                clearTimeout(timer);
+                if (!timedOut) {
+                    resolve(result);
+                }
+            }, err => {
+                clearTimeout(timer);
+                if (!timedOut) {
+                    reject(err);
+                }
+            });
+    });
+}
@@ -0,0 +1,40 @@
+import {
+    Destination,
+    MessageClient,
+    MessageOptions,
+    MessageReference,
+    messageReference,
+} from "../../spi/message/MessageClient";
+import { MessageClientSupport } from "../../spi/message/MessageClientSupport";
+import { logger } from "../util/logger";
+
+/**
+ * Message as captured by the {CapturingMessageClient}.
+ */
+export interface CapturedMessage {
+    message: any;
+    destinations: Destination[];
+    options?: MessageOptions;
+    ts: number;
+}
+
+/**
+ * MessageClient that doesn't send messages but keeps them for later inspection.
+ */
+export class CapturingMessageClient extends MessageClientSupport implements MessageClient {
+
+    public messages: CapturedMessage[] = [];
+
+    protected async doSend(msg: any,
+                           destinations: Destination[],
+                           options?: MessageOptions): Promise<MessageReference> {
+        logger.debug("Capturing message instead of sending");
+        this.messages.push({
+            message: msg,
+            destinations,
+            options,
+            ts: Date.now(),
+        });
+        return messageReference(options, destinations);
+    }
+}
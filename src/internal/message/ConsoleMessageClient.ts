@@ -4,6 +4,8 @@ import {
     isSlackMessage,
     MessageClient,
     MessageOptions,
+    MessageReference,
+    messageReference,
 } from "../../spi/message/MessageClient";
 import { DefaultSlackMessageClient, MessageClientSupport } from "../../spi/message/MessageClientSupport";
 import { logger } from "../util/logger";
@@ -15,8 +17,9 @@ export class ConsoleMessageClient extends MessageClientSupport implements Messag
 
     protected async doSend(msg: any,
                            destinations: Destination | Destination[],
-                           options?: MessageOptions) {
-        let s = "";
+                           options?: MessageOptions): Promise<MessageReference> {
+        const reference = messageReference(options, Array.isArray(destinations) ? destinations : [destinations]);
+        let s = reference.thread ? `[thread ${reference.thread}] ` : "";
 
         if (isSlackMessage(msg)) {
             s += `@atomist: ${render(msg, true)}`;
@@ -25,6 +28,7 @@ export class ConsoleMessageClient extends MessageClientSupport implements Messag
         }
 
         logger.info(s);
+        return reference;
     }
 }
 
@@ -1,12 +1,22 @@
 import * as stringify from "json-stringify-safe";
-import { MessageClient } from "../../spi/message/MessageClient";
+import {
+    Destination,
+    MessageClient,
+    MessageOptions,
+    MessageReference,
+    messageReference,
+} from "../../spi/message/MessageClient";
 import { MessageClientSupport } from "../../spi/message/MessageClientSupport";
 import { logger } from "../util/logger";
 
 export class DebugMessageClient extends MessageClientSupport implements MessageClient {
 
-    protected async doSend(message): Promise<void> {
-        logger.info(`Message\n${stringify(message, null, 2)}`);
+    protected async doSend(message: any,
+                           destinations: Destination[],
+                           options?: MessageOptions): Promise<MessageReference> {
+        const reference = messageReference(options, destinations);
+        logger.info(`Message${reference.thread ? ` in thread ${reference.thread}` : ""}\n${stringify(message, null, 2)}`);
+        return reference;
     }
 }
 
@@ -0,0 +1,232 @@
+import { Attachment } from "@atomist/slack-messages/SlackMessages";
+import * as _ from "lodash";
+import * as nodemailer from "nodemailer";
+import * as addressparser from "nodemailer/lib/addressparser";
+import * as SMTPTransport from "nodemailer/lib/smtp-transport";
+import * as tls from "tls";
+import { DestinationSender } from "../../spi/message/DestinationRegistry";
+import {
+    EmailDestination,
+    MessageOptions,
+} from "../../spi/message/MessageClient";
+import {
+    CommandLink,
+    commandLinks,
+    hexColor,
+    slackToHtml,
+    slackToMarkdown,
+    toSlackMessage,
+} from "./rendering";
+
+/**
+ * Connection settings of an SMTP server.
+ */
+export interface SmtpOptions {
+
+    host: string;
+
+    /**
+     * Defaults to 465 if secure and 587 otherwise
+     */
+    port?: number;
+
+    /**
+     * Connect with TLS right away instead of upgrading the connection via STARTTLS
+     */
+    secure?: boolean;
+
+    /**
+     * Upgrade the connection via STARTTLS if the server supports it; defaults to true
+     */
+    startTls?: boolean;
+
+    auth?: {
+        user: string;
+        password: string;
+    };
+
+    /**
+     * Allow authenticating over a connection that isn't encrypted; defaults to false so that credentials
+     * don't leak when TLS isn't available, e.g. because the server's STARTTLS capability was stripped
+     */
+    insecureAuth?: boolean;
+
+    /**
+     * Additional options of the TLS connection, e.g. to trust a self-signed certificate
+     */
+    tls?: tls.ConnectionOptions;
+
+    /**
+     * Milliseconds of inactivity after which the connection is aborted; defaults to 30 seconds
+     */
+    timeout?: number;
+
+    /**
+     * Host name to announce to the server; defaults to the name of this host
+     */
+    name?: string;
+}
+
+/**
+ * SMTP settings and sender address of emails.
+ */
+export interface EmailOptions extends SmtpOptions {
+
+    /**
+     * Sender of the emails, e.g. 'Atomist <noreply@example.com>'
+     */
+    from: string;
+}
+
+/**
+ * Rendered content of an email
+ */
+export interface Email {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+/**
+ * Render a message as email. Attachments become boxes in the HTML and paragraphs in the plain text part;
+ * buttons and menus invoking commands become links to the command's HTTP route.
+ * @param msg string, SlackMessage or SlackFileMessage
+ * @param {string} commandUrl base url of the automation client's HTTP API
+ * @returns {Email}
+ */
+export function renderEmail(msg: any, commandUrl?: string): Email {
+    const message = toSlackMessage(msg);
+    const attachments = message.attachments || [];
+    // Subject is the first line of text without markup
+    const subject = [message.text, ...attachments.map(a => a.title || a.fallback || a.pretext)]
+        .filter(t => !!t)
+        .map(t => t.split("\n").map(l => l.trim()).find(l => !!l && !l.startsWith("```")))
+        .filter(t => !!t)
+        .map(t => _.unescape(slackToHtml(t).replace(/<[^>]+>/g, "")).trim())
+        .find(t => !!t) || "Message";
+    return {
+        subject: _.truncate(subject, { length: 78 }),
+        text: [slackToMarkdown(message.text), ...attachments.map(a => attachmentText(a, commandUrl))]
+            .filter(t => !!t).join("\n\n"),
+        html: `<!DOCTYPE html>\n<html>\n<body style="font-family: sans-serif;">\n${
+            [message.text ? `<div>${slackToHtml(message.text)}</div>` : undefined,
+                ...attachments.map(a => attachmentHtml(a, commandUrl))].filter(h => !!h).join("\n")
+            }\n</body>\n</html>`,
+    };
+}
+
+/**
+ * Delivers messages to {EmailDestination}s over SMTP.
+ */
+export class EmailSender implements DestinationSender {
+
+    public userAgent: string = EmailDestination.EMAIL_USER_AGENT;
+
+    private transport: nodemailer.Transporter;
+
+    /**
+     * @param {EmailOptions} options SMTP settings and sender address
+     * @param {string} commandUrl base url of the automation client's HTTP API to invoke commands from buttons
+     */
+    constructor(private options: EmailOptions, private commandUrl?: string) {
+        this.transport = nodemailer.createTransport(transportOptions(options));
+    }
+
+    public send(msg: any, destination: EmailDestination, options: MessageOptions): Promise<any> {
+        const email = renderEmail(msg, this.commandUrl);
+        if (destination.to.length + destination.cc.length + destination.bcc.length === 0) {
+            return Promise.reject(new Error("Failed to send email: no recipients"));
+        }
+        const invalid = [this.options.from, ...destination.to, ...destination.cc, ...destination.bcc]
+            .find(a => !isValidAddress(a));
+        if (invalid !== undefined) {
+            return Promise.reject(new Error(`Failed to send email: invalid address ${JSON.stringify(invalid)}`));
+        }
+        const subject = destination.subject || email.subject;
+        if (/[\r\n]/.test(subject)) {
+            return Promise.reject(new Error("Failed to send email: subject must not contain line breaks"));
+        }
+        if (this.options.auth && !this.options.secure && this.options.startTls === false && !this.options.insecureAuth) {
+            return Promise.reject(new Error("Failed to send email: refusing to authenticate without TLS"));
+        }
+        // Bcc recipients are only part of the envelope
+        return this.transport.sendMail({
+            from: this.options.from,
+            to: destination.to,
+            cc: destination.cc,
+            bcc: destination.bcc,
+            subject,
+            text: email.text,
+            html: email.html,
+        })
+            .catch(err => Promise.reject(new Error(`Failed to send email: ${err.message}`)));
+    }
+}
+
+/**
+ * An address needs to be a single mailbox without line breaks that could inject headers or SMTP commands
+ */
+function isValidAddress(address: string): boolean {
+    if (!address || /[\r\n]/.test(address)) {
+        return false;
+    }
+    const mailboxes = addressparser(address);
+    return mailboxes.length === 1 && /^[^\s@<>]+@[^\s@<>]+$/.test(mailboxes[0].address || "");
+}
+
+function transportOptions(options: SmtpOptions): SMTPTransport.Options {
+    const timeout = options.timeout || 30000;
+    return {
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        ignoreTLS: options.startTls === false,
+        // Credentials are only sent once the connection has been upgraded
+        requireTLS: !!options.auth && !options.secure && !options.insecureAuth,
+        auth: options.auth ? { user: options.auth.user, pass: options.auth.password } : undefined,
+        tls: options.tls,
+        name: options.name,
+        connectionTimeout: timeout,
+        greetingTimeout: timeout,
+        socketTimeout: timeout,
+    };
+}
+
+function attachmentText(a: Attachment, commandUrl: string): string {
+    const links = actionLinks(a, commandUrl).map(l => `${l.text}: ${l.url}`);
+    return [
+        slackToMarkdown(a.pretext),
+        a.author_name,
+        a.title && a.title_link ? `${a.title} (${a.title_link})` : a.title,
+        slackToMarkdown(a.text),
+        ...(a.fields || []).map(f => `${f.title}: ${slackToMarkdown(f.value)}`),
+        a.image_url,
+        ...links,
+        a.footer,
+    ].filter(t => !!t).join("\n");
+}
+
+function attachmentHtml(a: Attachment, commandUrl: string): string {
+    const links = actionLinks(a, commandUrl)
+        .map(l => `<a href="${_.escape(l.url)}" style="margin-right: 12px;">${_.escape(l.text)}</a>`);
+    const title = a.title && a.title_link ? `<a href="${_.escape(a.title_link)}">${_.escape(a.title)}</a>` : _.escape(a.title);
+    const fields = (a.fields || [])
+        .map(f => `<tr><th style="text-align: left; padding-right: 12px;">${_.escape(f.title)}</th>` +
+            `<td>${slackToHtml(f.value)}</td></tr>`);
+    return [
+        a.pretext ? `<div>${slackToHtml(a.pretext)}</div>` : undefined,
+        `<div style="border-left: 4px solid ${hexColor(a.color) || "#DDDDDD"}; padding: 4px 12px; margin: 12px 0;">`,
+        a.author_name ? `<div style="color: #666666;">${_.escape(a.author_name)}</div>` : undefined,
+        a.title ? `<div><strong>${title}</strong></div>` : undefined,
+        a.text ? `<div>${slackToHtml(a.text)}</div>` : undefined,
+        fields.length > 0 ? `<table>${fields.join("")}</table>` : undefined,
+        a.image_url ? `<img src="${_.escape(a.image_url)}" style="max-width: 100%;">` : undefined,
+        links.length > 0 ? `<div style="margin-top: 8px;">${links.join("")}</div>` : undefined,
+        a.footer ? `<div style="color: #999999; font-size: smaller;">${_.escape(a.footer)}</div>` : undefined,
+        "</div>",
+    ].filter(h => !!h).join("\n");
+}
+
+function actionLinks(a: Attachment, commandUrl: string): CommandLink[] {
+    return _.flatten((a.actions || []).map(action => commandLinks(action, commandUrl)));
+}
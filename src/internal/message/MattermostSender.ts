@@ -0,0 +1,62 @@
+import { Attachment } from "@atomist/slack-messages/SlackMessages";
+import axios from "axios";
+import * as _ from "lodash";
+import { DestinationSender } from "../../spi/message/DestinationRegistry";
+import {
+    MattermostDestination,
+    MessageOptions,
+} from "../../spi/message/MessageClient";
+import {
+    commandLinks,
+    slackToMarkdown,
+    toSlackMessage,
+} from "./rendering";
+
+/**
+ * Render a message as Mattermost incoming webhook payload. Mattermost understands Slack attachments
+ * but not Slack markup, nor buttons without an integration; buttons and menus invoking commands become
+ * links to the command's HTTP route.
+ * @param msg string, SlackMessage or SlackFileMessage
+ * @param {string} channel
+ * @param {string} commandUrl base url of the automation client's HTTP API
+ * @returns {any} the payload
+ */
+export function renderMattermostMessage(msg: any, channel?: string, commandUrl?: string): any {
+    const message = toSlackMessage(msg);
+    return _.omitBy({
+        channel,
+        text: slackToMarkdown(message.text),
+        attachments: message.attachments ? message.attachments.map(a => attachment(a, commandUrl)) : undefined,
+    }, _.isUndefined);
+}
+
+/**
+ * Posts messages to the incoming webhook of {MattermostDestination}s.
+ */
+export class MattermostSender implements DestinationSender {
+
+    public userAgent: string = MattermostDestination.MATTERMOST_USER_AGENT;
+
+    /**
+     * @param {string} commandUrl base url of the automation client's HTTP API to invoke commands from buttons
+     */
+    constructor(private commandUrl?: string) { }
+
+    public send(msg: any, destination: MattermostDestination, options: MessageOptions): Promise<any> {
+        return axios.post(destination.webhookUrl, renderMattermostMessage(msg, destination.channel, this.commandUrl))
+            .catch(err => Promise.reject(new Error(`Failed to send message to Mattermost: ${err.message}`)));
+    }
+}
+
+function attachment(a: Attachment, commandUrl: string): any {
+    const links = _.flatten((a.actions || []).map(action => commandLinks(action, commandUrl)))
+        .map(l => `[${l.text}](${l.url})`);
+    const text = [slackToMarkdown(a.text), links.length > 0 ? links.join(" | ") : undefined]
+        .filter(t => !!t).join("\n\n");
+    return _.omitBy({
+        ..._.omit(a, "actions", "callback_id", "mrkdwn_in", "attachment_type"),
+        pretext: slackToMarkdown(a.pretext),
+        text: text || undefined,
+        fields: a.fields ? a.fields.map(f => ({ ...f, value: slackToMarkdown(f.value) })) : undefined,
+    }, _.isUndefined);
+}
@@ -0,0 +1,72 @@
+import { Attachment } from "@atomist/slack-messages/SlackMessages";
+import axios from "axios";
+import * as _ from "lodash";
+import { DestinationSender } from "../../spi/message/DestinationRegistry";
+import {
+    MessageOptions,
+    MicrosoftTeamsDestination,
+} from "../../spi/message/MessageClient";
+import {
+    CommandLink,
+    commandLinks,
+    hexColor,
+    slackToMarkdown,
+    toSlackMessage,
+} from "./rendering";
+
+/**
+ * Render a message as Office 365 connector card. Attachments become sections; buttons and menus
+ * invoking commands become actions opening the command's HTTP route.
+ * @param msg string, SlackMessage or SlackFileMessage
+ * @param {string} commandUrl base url of the automation client's HTTP API
+ * @returns {any} the card
+ */
+export function renderMicrosoftTeamsCard(msg: any, commandUrl?: string): any {
+    const message = toSlackMessage(msg);
+    const attachments = message.attachments || [];
+    const color = attachments.map(a => a.color).find(c => !!c);
+    return _.omitBy({
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        "summary": message.text || attachments.map(a => a.fallback).find(f => !!f) || "Message",
+        "themeColor": color ? hexColor(color).slice(1) : undefined,
+        "text": slackToMarkdown(message.text),
+        "sections": attachments.length > 0 ? attachments.map(a => section(a, commandUrl)) : undefined,
+    }, _.isUndefined);
+}
+
+/**
+ * Posts messages as cards to the incoming webhook of {MicrosoftTeamsDestination}s.
+ */
+export class MicrosoftTeamsSender implements DestinationSender {
+
+    public userAgent: string = MicrosoftTeamsDestination.MICROSOFT_TEAMS_USER_AGENT;
+
+    /**
+     * @param {string} commandUrl base url of the automation client's HTTP API to invoke commands from buttons
+     */
+    constructor(private commandUrl?: string) { }
+
+    public send(msg: any, destination: MicrosoftTeamsDestination, options: MessageOptions): Promise<any> {
+        return axios.post(destination.webhookUrl, renderMicrosoftTeamsCard(msg, this.commandUrl))
+            .catch(err => Promise.reject(new Error(`Failed to send message to Microsoft Teams: ${err.message}`)));
+    }
+}
+
+function section(a: Attachment, commandUrl: string): any {
+    const links: CommandLink[] = _.flatten((a.actions || []).map(action => commandLinks(action, commandUrl)));
+    return _.omitBy({
+        title: slackToMarkdown(a.pretext),
+        activityTitle: a.title && a.title_link ? `[${a.title}](${a.title_link})` : a.title,
+        activitySubtitle: a.author_name,
+        activityImage: a.author_icon || a.thumb_url,
+        text: slackToMarkdown(a.text),
+        facts: a.fields && a.fields.length > 0
+            ? a.fields.map(f => ({ name: f.title, value: slackToMarkdown(f.value) })) : undefined,
+        images: a.image_url ? [{ image: a.image_url }] : undefined,
+        potentialAction: links.length > 0
+            ? links.map(l => ({ "@type": "OpenUri", "name": l.text, "targets": [{ os: "default", uri: l.url }] }))
+            : undefined,
+        markdown: true,
+    }, _.isUndefined);
+}
@@ -0,0 +1,40 @@
+import { DestinationRegistry } from "../../spi/message/DestinationRegistry";
+import {
+    Destination,
+    MessageClient,
+    MessageOptions,
+    messageReference,
+} from "../../spi/message/MessageClient";
+
+/**
+ * MessageClient handing messages to destinations with a registered {DestinationSender} to that sender;
+ * all other destinations and responses are sent by the delegate.
+ */
+export class RoutingMessageClient implements MessageClient {
+
+    constructor(private delegate: MessageClient, private registry: DestinationRegistry) { }
+
+    public respond(msg: any,
+                   options?: MessageOptions): Promise<any> {
+        return this.delegate.respond(msg, options);
+    }
+
+    public send(msg: any,
+                destinations: Destination | Destination[],
+                options: MessageOptions = {}): Promise<any> {
+        const all = Array.isArray(destinations) ? destinations : [destinations];
+        const direct = all.filter(d => !!d && !!this.registry.find(d.userAgent));
+        if (direct.length === 0) {
+            return this.delegate.send(msg, destinations, options);
+        }
+
+        const sends = direct.map(d => this.registry.find(d.userAgent).send(msg, d, options));
+        const others = all.filter(d => direct.indexOf(d) < 0);
+        if (others.length > 0) {
+            sends.push(this.delegate.send(msg, others, options));
+        }
+        // Prefer the reference of the delegate as it knows the message it sent to the remaining destinations
+        return Promise.all(sends)
+            .then(results => others.length > 0 ? results[results.length - 1] : messageReference(options, all));
+    }
+}
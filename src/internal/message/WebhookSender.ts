@@ -0,0 +1,73 @@
+import axios from "axios";
+import * as crypto from "crypto";
+import * as _ from "lodash";
+import { DestinationSender } from "../../spi/message/DestinationRegistry";
+import {
+    MessageOptions,
+    WebhookDestination,
+    WebhookPayload,
+} from "../../spi/message/MessageClient";
+import { doWithRetry } from "../../util/retry";
+import {
+    slackToMarkdown,
+    toSlackMessage,
+} from "./rendering";
+
+/**
+ * Render the body posted to a {WebhookDestination} by applying the destination's template
+ * @param msg string, SlackMessage or SlackFileMessage
+ * @param {WebhookDestination} destination
+ * @param {MessageOptions} options
+ * @returns {any} the body
+ */
+export function renderWebhookPayload(msg: any, destination: WebhookDestination, options: MessageOptions = {}): any {
+    const message = toSlackMessage(msg);
+    const payload: WebhookPayload = {
+        text: slackToMarkdown(message.text),
+        message,
+        options,
+    };
+    return destination.options.template ? destination.options.template(payload) : payload;
+}
+
+/**
+ * Signature of a body in the format verified by the /webhook endpoints
+ * @param {string} body
+ * @param {string} secret
+ * @returns {string}
+ */
+export function webhookSignature(body: string, secret: string): string {
+    return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Posts messages as JSON to {WebhookDestination}s, retrying failed deliveries.
+ */
+export class WebhookSender implements DestinationSender {
+
+    public userAgent: string = WebhookDestination.WEBHOOK_USER_AGENT;
+
+    public send(msg: any, destination: WebhookDestination, options: MessageOptions): Promise<any> {
+        const payload = renderWebhookPayload(msg, destination, options);
+        const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+        const headers: { [name: string]: string } = {
+            "Content-Type": "application/json",
+            ...destination.options.headers,
+        };
+        if (destination.options.secret) {
+            headers["X-Atomist-Signature"] = webhookSignature(body, destination.options.secret);
+        }
+        return doWithRetry(() => axios.post(destination.url, body, { headers }),
+            "Sending message to webhook",
+            { retryable, ...destination.options.retry })
+            .catch(err => Promise.reject(new Error(`Failed to send message to webhook: ${err.message}`)));
+    }
+}
+
+/**
+ * Client errors other than timeouts and rate limiting won't succeed on retry
+ */
+function retryable(err: any): boolean {
+    const status: number = _.get(err, "response.status");
+    return !status || status >= 500 || status === 408 || status === 429;
+}
@@ -0,0 +1,62 @@
+import * as _ from "lodash";
+import * as url from "url";
+import {
+    Destination,
+    MattermostDestination,
+    MicrosoftTeamsDestination,
+    WebhookDestination,
+} from "../../spi/message/MessageClient";
+import { obfuscateJson } from "../util/string";
+
+/**
+ * Copy of a destination that is safe to log, stream or record. Webhook destinations only keep the
+ * scheme and host of their url and drop their options, which hold signing secrets and authorization headers.
+ * Incoming webhook urls of Microsoft Teams and Mattermost are credentials themselves and get masked the same way.
+ * All other destinations have their credentials obfuscated.
+ * @param {Destination} destination
+ * @returns {any}
+ */
+export function redactDestination(destination: Destination): any {
+    if (!destination || typeof destination !== "object") {
+        return destination;
+    } else if (destination.userAgent === WebhookDestination.WEBHOOK_USER_AGENT) {
+        return {
+            userAgent: destination.userAgent,
+            url: maskUrl((destination as WebhookDestination).url),
+        };
+    } else if (destination.userAgent === MicrosoftTeamsDestination.MICROSOFT_TEAMS_USER_AGENT) {
+        return {
+            userAgent: destination.userAgent,
+            webhookUrl: maskUrl((destination as MicrosoftTeamsDestination).webhookUrl),
+        };
+    } else if (destination.userAgent === MattermostDestination.MATTERMOST_USER_AGENT) {
+        return {
+            userAgent: destination.userAgent,
+            webhookUrl: maskUrl((destination as MattermostDestination).webhookUrl),
+            channel: (destination as MattermostDestination).channel,
+        };
+    }
+    return JSON.parse(JSON.stringify(destination, obfuscateJson));
+}
+
+/**
+ * Redact all given destinations
+ * @param {Destination | Destination[]} destinations
+ * @returns {any[]}
+ */
+export function redactDestinations(destinations: Destination | Destination[]): any[] {
+    return _.flatten([destinations]).map(redactDestination);
+}
+
+/**
+ * Reduce a url to its scheme and host; path, query and user info may hold credentials
+ * @param {string} u
+ * @returns {string}
+ */
+export function maskUrl(u: string): string {
+    if (!u) {
+        return u;
+    }
+    const parsed = url.parse(u);
+    return parsed.protocol && parsed.host ? `${parsed.protocol}//${parsed.host}` : "***";
+}
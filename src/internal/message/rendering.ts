@@ -0,0 +1,153 @@
+import {
+    Action,
+    codeBlock,
+    SlackMessage,
+} from "@atomist/slack-messages/SlackMessages";
+import * as _ from "lodash";
+import { CommandHandlerMetadata } from "../../metadata/automationMetadata";
+import {
+    CommandReference,
+    CommandReferencingAction,
+    isFileMessage,
+    isSlackMessage,
+} from "../../spi/message/MessageClient";
+import { commandPath } from "../transport/express/openapi";
+
+/**
+ * Link replacing a button or menu option that invokes a command handler
+ */
+export interface CommandLink {
+    text: string;
+    url: string;
+}
+
+/**
+ * Turn any message passed to the MessageClient into a SlackMessage
+ * @param msg string, SlackMessage or SlackFileMessage
+ * @returns {SlackMessage}
+ */
+export function toSlackMessage(msg: any): SlackMessage {
+    if (typeof msg === "string") {
+        return { text: msg };
+    } else if (isSlackMessage(msg)) {
+        return msg;
+    } else if (isFileMessage(msg)) {
+        const title = msg.title || msg.fileName;
+        return {
+            text: [msg.comment, title ? `*${title}*` : undefined, codeBlock(msg.content)]
+                .filter(t => !!t).join("\n"),
+        };
+    } else {
+        return { text: codeBlock(JSON.stringify(msg, null, 2)) };
+    }
+}
+
+/**
+ * Translate Slack markup into Markdown as understood by most other chat platforms
+ * @param {string} text
+ * @returns {string}
+ */
+export function slackToMarkdown(text: string): string {
+    if (!text) {
+        return text;
+    }
+    return text
+        .replace(/<([^<>|]+)\|([^<>]*)>/g, (m, target, label) => markdownLink(target, label))
+        .replace(/<([^<>]+)>/g, (m, target) => markdownLink(target))
+        .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,!?:;])/g, "$1**$2**")
+        .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,!?:;])/g, "$1~~$2~~")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * Translate Slack markup into HTML
+ * @param {string} text
+ * @returns {string}
+ */
+export function slackToHtml(text: string): string {
+    if (!text) {
+        return text;
+    }
+    // Code and links are replaced by placeholders so that their content doesn't get formatted
+    const tokens: string[] = [];
+    const token = (markup: string) => `\u0000${tokens.push(markup) - 1}\u0000`;
+    const html = _.escape(_.unescape(text
+        .replace(/```([\s\S]*?)```/g, (m, code) => token(`<pre>${_.escape(_.unescape(code))}</pre>`))
+        .replace(/`([^`\n]+)`/g, (m, code) => token(`<code>${_.escape(_.unescape(code))}</code>`))
+        .replace(/<([^<>|]+)(?:\|([^<>]*))?>/g, (m, target, label) => token(htmlLink(target, label)))))
+        .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,!?:;])/g, "$1<strong>$2</strong>")
+        .replace(/(^|[\s(])_([^_\n]+)_(?=$|[\s).,!?:;])/g, "$1<em>$2</em>")
+        .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,!?:;])/g, "$1<del>$2</del>")
+        .replace(/\n/g, "<br>\n");
+    return html.replace(/\u0000(\d+)\u0000/g, (m, i) => tokens[+i]);
+}
+
+/**
+ * Hex value of an attachment color, which can either be a hex value or one of the names Slack supports
+ * @param {string} color
+ * @returns {string} the hex value starting with #, or undefined if no color is given
+ */
+export function hexColor(color: string): string {
+    if (!color) {
+        return undefined;
+    }
+    return SlackColors[color] || (color.startsWith("#") ? color : `#${color}`);
+}
+
+/**
+ * Links invoking the command referenced by a button or menu via the HTTP routes of the automation client.
+ * Returns no links for actions that don't reference a command or if no base url is configured.
+ * @param {Action} action
+ * @param {string} commandUrl base url of the automation client's HTTP API
+ * @returns {CommandLink[]}
+ */
+export function commandLinks(action: Action, commandUrl: string): CommandLink[] {
+    const command = (action as CommandReferencingAction).command;
+    if (!command || !commandUrl) {
+        return [];
+    }
+    if (action.type === "select") {
+        const options = [...(action.options || []), ..._.flatten((action.option_groups || []).map(g => g.options))];
+        return options.map(o => ({
+            text: `${action.text}: ${o.text}`,
+            url: commandLinkUrl(commandUrl, command, { [command.parameterName]: o.value }),
+        }));
+    }
+    return [{ text: action.text, url: commandLinkUrl(commandUrl, command) }];
+}
+
+function commandLinkUrl(commandUrl: string, command: CommandReference, parameters: {} = {}): string {
+    const query = _.map({ ...command.parameters, ...parameters }, (v, k) =>
+        v !== undefined && v !== null ? `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}` : undefined)
+        .filter(p => !!p)
+        .join("&");
+    const path = commandPath({ name: command.name } as CommandHandlerMetadata);
+    return `${commandUrl.replace(/\/$/, "")}${path}${query ? `?${query}` : ""}`;
+}
+
+function htmlLink(target: string, label?: string): string {
+    if (target.startsWith("@") || target.startsWith("#") || target.startsWith("!")) {
+        return _.escape(_.unescape(markdownLink(target, label)));
+    }
+    return `<a href="${_.escape(_.unescape(target))}">${_.escape(_.unescape(label || target))}</a>`;
+}
+
+function markdownLink(target: string, label?: string): string {
+    if (target.startsWith("@") || target.startsWith("#")) {
+        return `${target[0]}${label || target.slice(1)}`;
+    } else if (target.startsWith("!")) {
+        return `@${label || target.slice(1).split("^")[0]}`;
+    }
+    return label ? `[${label}](${target})` : target;
+}
+
+/**
+ * Hex values of the named colors Slack supports for attachments
+ */
+const SlackColors: { [name: string]: string } = {
+    good: "#2EB886",
+    warning: "#DAA038",
+    danger: "#A30200",
+};
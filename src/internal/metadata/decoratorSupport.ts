@@ -201,6 +201,16 @@ export function declareTags(target: any, tags: string[]) {
     return target;
 }
 
+export function declareConcurrency(target: any, concurrency: number) {
+    set_metadata(target, "__concurrency", concurrency);
+    return target;
+}
+
+export function declareTimeout(target: any, timeout: number) {
+    set_metadata(target, "__timeout", timeout);
+    return target;
+}
+
 export function declareIntent(target: any, intent: string[]) {
     set_metadata(target, "__intent", intent);
     return target;
@@ -28,6 +28,21 @@ export function isCommandHandlerMetadata(object: any): object is CommandHandlerM
     return object.intent || object.mapped_parameters;
 }
 
+/**
+ * Does the given event handler handle events of the subscription with the given operation name?
+ * @param {EventHandlerMetadata} eh
+ * @param {string} operationName
+ * @returns {boolean}
+ */
+export function isSubscribedTo(eh: EventHandlerMetadata, operationName: string): boolean {
+    if (eh.subscriptionName === operationName) {
+        return true;
+    } else {
+        const trimmedName = eh.subscriptionName.slice(0, eh.subscriptionName.lastIndexOf("_"));
+        return operationName === trimmedName;
+    }
+}
+
 export function isEventHandlerMetadata(object: any): object is EventHandlerMetadata {
     return object.subscriptionName && object.subscription;
 }
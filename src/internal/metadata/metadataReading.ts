@@ -59,6 +59,8 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 name: params.__name,
                 description: params.__description,
                 tags: params.__tags ? params.__tags : [],
+                concurrency: params.__concurrency,
+                timeout: params.__timeout,
                 intent: params.__intent ? params.__intent : [],
                 auto_submit: params.__autoSubmit,
                 parameters: parametersFromInstance(params),
@@ -70,6 +72,8 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 name: h.__name,
                 description: h.__description,
                 tags: h.__tags ? h.__tags : [],
+                concurrency: h.__concurrency,
+                timeout: h.__timeout,
                 intent: h.__intent ? h.__intent : [],
                 auto_submit: h.__autoSubmit,
                 parameters: parametersFromInstance(params),
@@ -88,6 +92,8 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 name: h.__name,
                 description: h.__description,
                 tags: h.__tags ? h.__tags : [],
+                concurrency: h.__concurrency,
+                timeout: h.__timeout,
                 subscription,
                 subscriptionName,
                 secrets: secretsMetadataFromInstance(h),
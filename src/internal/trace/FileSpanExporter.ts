@@ -0,0 +1,25 @@
+import * as appRoot from "app-root-path";
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+    Span,
+    SpanExporter,
+} from "../../spi/trace/SpanExporter";
+
+export const DefaultTraceFile = `${appRoot.path}/log/traces.log`;
+
+/**
+ * {SpanExporter} that appends spans as Zipkin v2 JSON, one span per line, to a file on local disk.
+ *
+ * Every span is written with a single append so that cluster workers can share the same file.
+ */
+export class FileSpanExporter implements SpanExporter {
+
+    constructor(private file: string = DefaultTraceFile) {
+        fs.ensureDirSync(path.dirname(this.file));
+    }
+
+    public export(span: Span): Promise<void> {
+        return fs.appendFile(this.file, JSON.stringify(span) + "\n");
+    }
+}
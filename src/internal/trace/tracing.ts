@@ -0,0 +1,165 @@
+import * as crypto from "crypto";
+import { spanExporter } from "../../globals";
+import { Span } from "../../spi/trace/SpanExporter";
+import * as namespace from "../util/cls";
+import { logger } from "../util/logger";
+
+/**
+ * Options to start a child span
+ */
+export interface SpanOptions {
+
+    kind?: "CLIENT" | "SERVER" | "PRODUCER" | "CONSUMER";
+
+    tags?: { [key: string]: any };
+
+    /**
+     * AutomationContext carrying the trace and parent span; defaults to the continuation-local context
+     */
+    context?: namespace.AutomationContext;
+}
+
+/**
+ * Records a started span until it gets finished and handed to the configured {SpanExporter}.
+ */
+export interface SpanRecorder {
+
+    tag(key: string, value: any): SpanRecorder;
+
+    /**
+     * Finish the span, optionally marking it as failed with the given error.
+     * @param error
+     */
+    finish(error?: any): void;
+}
+
+const NoopSpanRecorder: SpanRecorder = {
+    tag(key: string, value: any) {
+        return this;
+    },
+    // tslint:disable-next-line:no-empty
+    finish(error?: any) { },
+};
+
+class ExportingSpanRecorder implements SpanRecorder {
+
+    private start: [number, number] = process.hrtime();
+    private finished: boolean = false;
+
+    constructor(private span: Span, tags: { [key: string]: any } = {}) {
+        Object.keys(tags).forEach(k => this.tag(k, tags[k]));
+    }
+
+    public tag(key: string, value: any): SpanRecorder {
+        if (value !== undefined && value !== null) {
+            this.span.tags[key] = value.toString();
+        }
+        return this;
+    }
+
+    public finish(error?: any) {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+
+        if (error) {
+            this.tag("error", error.message || "true");
+        }
+        const [seconds, nanos] = process.hrtime(this.start);
+        this.span.duration = Math.max(1, Math.round(seconds * 1e6 + nanos / 1e3));
+
+        const exporter = spanExporter();
+        if (exporter) {
+            exporter.export(this.span)
+                .catch(err => logger.warn("Failed to export span '%s': %s", this.span.name, err.message));
+        }
+    }
+}
+
+/**
+ * Open the span of a command or event handler invocation. The trace and span id are stored on
+ * the given AutomationContext so that child spans and cluster workers receiving the context
+ * continue the same trace.
+ * @param {AutomationContext} context
+ * @param {"command" | "event"} type
+ * @returns {SpanRecorder}
+ */
+export function startInvocationSpan(context: namespace.AutomationContext, type: "command" | "event"): SpanRecorder {
+    if (!spanExporter() || !context) {
+        return NoopSpanRecorder;
+    }
+
+    const parentId = context.spanId;
+    context.traceId = context.traceId || randomId(16);
+    context.spanId = randomId(8);
+    return new ExportingSpanRecorder(createSpan(context, context.spanId, parentId, `${type} ${context.operation}`, "SERVER"), {
+        "atomist.correlation_id": context.correlationId,
+        "atomist.invocation_id": context.invocationId,
+        "atomist.team_id": context.teamId,
+        "atomist.operation": context.operation,
+    });
+}
+
+/**
+ * Open a child span of the invocation currently running.
+ * Returns a recorder that does nothing if tracing is disabled or no invocation is running.
+ * @param {string} name
+ * @param {SpanOptions} options
+ * @returns {SpanRecorder}
+ */
+export function startSpan(name: string, options: SpanOptions = {}): SpanRecorder {
+    const context = options.context || namespace.get();
+    if (!spanExporter() || !context || !context.traceId) {
+        return NoopSpanRecorder;
+    }
+    return new ExportingSpanRecorder(createSpan(context, randomId(8), context.spanId, name, options.kind), options.tags);
+}
+
+/**
+ * Run the given function in a child span of the invocation currently running.
+ * The span gets finished once the returned promise settles.
+ * @param {string} name
+ * @param {(span: SpanRecorder) => Promise<T>} what
+ * @param {SpanOptions} options
+ * @returns {Promise<T>}
+ */
+export function traced<T>(name: string,
+                          what: (span: SpanRecorder) => Promise<T>,
+                          options: SpanOptions = {}): Promise<T> {
+    const recorder = startSpan(name, options);
+    let result: Promise<T>;
+    try {
+        result = what(recorder);
+    } catch (err) {
+        recorder.finish(err);
+        throw err;
+    }
+    return result.then(value => {
+        recorder.finish();
+        return value;
+    }, err => {
+        recorder.finish(err);
+        throw err;
+    });
+}
+
+function createSpan(context: namespace.AutomationContext, id: string, parentId: string, name: string, kind: Span["kind"]): Span {
+    return {
+        traceId: context.traceId,
+        id,
+        parentId,
+        name,
+        kind,
+        timestamp: Date.now() * 1000,
+        duration: 0,
+        localEndpoint: {
+            serviceName: context.name,
+        },
+        tags: {},
+    };
+}
+
+function randomId(bytes: number): string {
+    return crypto.randomBytes(bytes).toString("hex");
+}
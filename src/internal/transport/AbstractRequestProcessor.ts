@@ -1,13 +1,25 @@
 import * as stringify from "json-stringify-safe";
 import * as _ from "lodash";
 import * as serializeError from "serialize-error";
-import { AutomationContextAware } from "../../HandlerContext";
+import {
+    deadLetterStore,
+    destinationRegistry,
+    eventDeduplicator,
+    invocationLimiter,
+    invocationTracker,
+} from "../../globals";
+import {
+    AutomationContextAware,
+    Identity,
+} from "../../HandlerContext";
 import {
     EventFired,
     failure,
     HandlerContext,
     HandlerResult,
 } from "../../index";
+import { AutomationMetadata } from "../../metadata/automationMetadata";
+import { failedEventHandlers } from "../../server/AbstractAutomationServer";
 import { AutomationEventListener } from "../../server/AutomationEventListener";
 import { AutomationServer } from "../../server/AutomationServer";
 import { GraphClient } from "../../spi/graph/GraphClient";
@@ -18,20 +30,34 @@ import {
     SlackMessageClient,
 } from "../../spi/message/MessageClient";
 import { DefaultSlackMessageClient } from "../../spi/message/MessageClientSupport";
+import {
+    cancel,
+    cancelled,
+    registerCancellation,
+} from "../invoker/cancellation";
 import {
     dispose,
     registerDisposable,
 } from "../invoker/disposable";
 import { CommandInvocation } from "../invoker/Payload";
+import { RoutingMessageClient } from "../message/RoutingMessageClient";
+import { isSubscribedTo } from "../metadata/metadata";
+import {
+    SpanRecorder,
+    startInvocationSpan,
+    traced,
+} from "../trace/tracing";
 import * as namespace from "../util/cls";
 import { logger } from "../util/logger";
 import {
     guid,
     hideString,
 } from "../util/string";
+import { replayMessageClient } from "./replay";
 import {
     CommandIncoming,
     EventIncoming,
+    isDryRun,
     RequestProcessor,
     Source,
 } from "./RequestProcessor";
@@ -53,6 +79,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
         const cls = this.setupNamespace(command, this.automations);
         ses.run(() => {
             namespace.set(cls);
+            const span = startInvocationSpan(cls, "command");
 
             this.listeners.forEach(l => l.commandIncoming(command));
 
@@ -69,6 +96,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                 correlationId: command.correlation_id,
                 invocationId: np ? np.invocationId : undefined,
                 messageClient: undefined,
+                identity: this.identity(command),
                 context: cls,
             };
 
@@ -77,12 +105,40 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
             ctx.lifecycle = {
                 registerDisposable: registerDisposable(ctx),
                 dispose: dispose(ctx),
+                registerCancellation: registerCancellation(ctx),
+                cancelled: cancelled(ctx),
+                cancel: cancel(ctx),
             };
 
             this.listeners.forEach(l => l.contextCreated(ctx));
-            this.listeners.forEach(l => l.commandStarting(ci, ctx));
 
-            this.invokeCommand(ci, ctx, command, callback);
+            if (this.rejectInvocations()) {
+                this.handleCommandError(new Error(`Rejected invocation of command '${command.command}' during shutdown`),
+                    command, ci, ctx, result => {
+                        finishInvocationSpan(span, result);
+                        callback(result);
+                    });
+                return;
+            }
+
+            const completed = invocationTracker().start(cls, "command");
+            const handlers = this.automations.automations.commands.filter(c => c.name === command.command);
+            this.invokeLimited(handlers, ctx, release => {
+                this.listeners.forEach(l => l.commandStarting(ci, ctx));
+
+                this.invokeCommand(ci, ctx, command, result => {
+                    result.then(release, release);
+                    result.then(completed, completed);
+                    finishInvocationSpan(span, result);
+                    callback(result);
+                });
+            }, err => {
+                this.handleCommandError(err, command, ci, ctx, result => {
+                    result.then(completed, completed);
+                    finishInvocationSpan(span, result);
+                    callback(result);
+                });
+            });
         });
     }
 
@@ -94,6 +150,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
         const cls = this.setupNamespace(event, this.automations);
         ses.run(() => {
             namespace.set(cls);
+            const span = startInvocationSpan(cls, "event");
 
             this.listeners.forEach(l => l.eventIncoming(event));
 
@@ -118,12 +175,61 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
             ctx.lifecycle = {
                 registerDisposable: registerDisposable(ctx),
                 dispose: dispose(ctx),
+                registerCancellation: registerCancellation(ctx),
+                cancelled: cancelled(ctx),
+                cancel: cancel(ctx),
             };
 
             this.listeners.forEach(l => l.contextCreated(ctx));
-            this.listeners.forEach(l => l.eventStarting(ef, ctx));
 
-            this.invokeEvent(ef, ctx, event, callback);
+            if (this.rejectInvocations()) {
+                this.handleEventError(
+                    new Error(`Rejected invocation of event subscription '${event.extensions.operationName}' during shutdown`),
+                    event, ef, ctx, results => {
+                        finishInvocationSpan(span, results);
+                        callback(results);
+                    });
+                return;
+            }
+
+            const handlers = this.automations.automations.events
+                .filter(eh => isSubscribedTo(eh, event.extensions.operationName)
+                    && (!event.handlers || event.handlers.includes(eh.name)));
+            const deduplicator = isDryRun(event) ? null : eventDeduplicator();
+            const dedup = deduplicator ? deduplicator.check(event, handlers) : undefined;
+            if (dedup && dedup.duplicate) {
+                this.skipEvent(dedup.key, ef, ctx, results => {
+                    finishInvocationSpan(span, results);
+                    callback(results);
+                });
+                return;
+            }
+
+            const completed = invocationTracker().start(cls, "event");
+            this.invokeLimited(handlers, ctx, release => {
+                this.listeners.forEach(l => l.eventStarting(ef, ctx));
+
+                this.invokeEvent(ef, ctx, event, results => {
+                    if (dedup) {
+                        // Failed events need to be processed again when they are retried
+                        results.then(r => r.some(hr => hr.code !== 0) ? deduplicator.release(dedup.key) : undefined,
+                            () => deduplicator.release(dedup.key));
+                    }
+                    results.then(release, release);
+                    results.then(completed, completed);
+                    finishInvocationSpan(span, results);
+                    callback(results);
+                });
+            }, err => {
+                if (dedup) {
+                    deduplicator.release(dedup.key);
+                }
+                this.handleEventError(err, event, ef, ctx, results => {
+                    results.then(completed, completed);
+                    finishInvocationSpan(span, results);
+                    callback(results);
+                });
+            });
         });
     }
 
@@ -131,6 +237,10 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                              code: number,
                              request: CommandIncoming,
                              ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        if (isDryRun(request)) {
+            return Promise.resolve();
+        }
+
         const source = _.cloneDeep(request.source) as Source;
         if (source.slack) {
             delete source.slack.user;
@@ -156,6 +266,10 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                            request: EventFired<any>,
                            event: EventIncoming,
                            ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        if (isDryRun(event)) {
+            return Promise.resolve();
+        }
+
         const response: HandlerResponse = {
             api_version: "1",
             correlation_id: event.extensions.correlation_id,
@@ -251,7 +365,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
         logger.debug("Incoming event subscription '%s'", stringify(event, replacer));
         try {
-            this.automations.onEvent(ef, ctx)
+            this.automations.onEvent(ef, ctx, event.handlers)
                 .then(result => {
                     if (!result || result.length === 0) {
                         return [defaultResult(ctx)];
@@ -267,8 +381,13 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                             .reduce((p, f) => p.then(f), Promise.resolve())
                             .then(() => finalize(result));
                     } else {
-                        this.listeners.map(l => () => l.eventFailed(ef, ctx, result))
-                            .reduce((p, f) => p.then(f), Promise.resolve())
+                        // Failed results count as failure just like errors
+                        const failed = failedEventHandlers(ctx);
+                        this.deadLetter(event, result.find(r => r.code !== 0), failed.length > 0 ? failed : event.handlers)
+                            .catch(error => logger.warn("Unable to dead-letter event subscription '%s': %s",
+                                event.extensions.operationName, error.message))
+                            .then(() => this.listeners.map(l => () => l.eventFailed(ef, ctx, result))
+                                .reduce((p, f) => p.then(f), Promise.resolve()))
                             .then(() => finalize(result));
                     }
                 })
@@ -282,8 +401,95 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
     protected createAndWrapMessageClient(event: EventIncoming | CommandIncoming,
                                          context: HandlerContext & AutomationContextAware): MessageClient & SlackMessageClient {
+        const messageClient = isDryRun(event) ? this.createDryRunMessageClient(event, context)
+            : new RoutingMessageClient(this.createMessageClient(event, context), destinationRegistry());
         return new DefaultSlackMessageClient(new AutomationEventListenerEnabledMessageClient(context,
-            this.createMessageClient(event, context), this.listeners), context.graphClient);
+            messageClient, this.listeners), context.graphClient);
+    }
+
+    /**
+     * Create the MessageClient for a dry-run replay. Messages are captured so that
+     * they can be returned to the caller of the replay.
+     */
+    protected createDryRunMessageClient(event: EventIncoming | CommandIncoming,
+                                        context: AutomationContextAware): MessageClient {
+        return replayMessageClient(event);
+    }
+
+    /**
+     * Hand an event that failed processing to the {DeadLetterStore}, together with the names
+     * of the handlers that failed. Events of dry-run replays are not dead-lettered.
+     */
+    protected deadLetter(event: EventIncoming, err: any, handlers?: string[]): Promise<any> {
+        const store = deadLetterStore();
+        if (store && !isDryRun(event)) {
+            const id = store.add(event, err, handlers);
+            logger.info("Dead-lettered event subscription '%s' as '%s'", event.extensions.operationName, id);
+        }
+        return Promise.resolve();
+    }
+
+    /**
+     * Complete an event that was already processed without invoking its handlers.
+     */
+    protected skipEvent(key: string,
+                        ef: EventFired<any>,
+                        ctx: HandlerContext & AutomationContextAware,
+                        callback: (results: Promise<HandlerResult[]>) => void) {
+        this.listeners.forEach(l => l.eventSkipped && l.eventSkipped(ef, ctx, key));
+        logger.info("Skipped duplicate event subscription '%s' with key '%s'", ef.extensions.operationName, key);
+        callback(Promise.resolve([{
+            ...defaultResult(ctx),
+            message: `Skipped duplicate event with key '${key}'`,
+        }]));
+        this.clearNamespace();
+    }
+
+    /**
+     * Invoke once the global and per-handler concurrency limits allow it.
+     * The release function passed to invoke needs to be called when the invocation completes.
+     * Errors rejecting the invocation or thrown by invoke are passed to onError after the slot
+     * has been released; so are invocations cancelled while waiting for a slot, which are never invoked.
+     */
+    protected invokeLimited(handlers: AutomationMetadata[],
+                            ctx: HandlerContext,
+                            invoke: (release: () => void) => void,
+                            onError: (err: any) => void) {
+        const run = (release: () => void) => {
+            if (ctx.lifecycle && ctx.lifecycle.cancelled && ctx.lifecycle.cancelled()) {
+                release();
+                onError(new Error(`Invocation '${ctx.invocationId}' was cancelled before it started`));
+                return;
+            }
+            try {
+                invoke(release);
+            } catch (err) {
+                release();
+                onError(err);
+            }
+        };
+        const limiter = invocationLimiter();
+        if (!limiter) {
+            // tslint:disable-next-line:no-empty
+            run(() => { });
+        } else {
+            limiter.acquire(handlers).then(namespace.init().bind(run), namespace.init().bind(onError));
+        }
+    }
+
+    /**
+     * Invocations are rejected once the client started draining in-flight invocations on shutdown.
+     * Rejected events get dead-lettered so that they can be retried later.
+     */
+    protected rejectInvocations(): boolean {
+        return invocationTracker().draining;
+    }
+
+    /**
+     * Identity of the user invoking the command; undefined unless the transport authenticates users
+     */
+    protected identity(command: CommandIncoming): Identity {
+        return undefined;
     }
 
     protected setupNamespace(request: any,
@@ -324,11 +530,11 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
     protected abstract createMessageClient(event: EventIncoming | CommandIncoming,
                                            context: AutomationContextAware): MessageClient;
 
-    private handleCommandError(err: any,
-                               command: CommandIncoming,
-                               ci: CommandInvocation,
-                               ctx: HandlerContext & AutomationContextAware,
-                               callback: (error: any) => void) {
+    protected handleCommandError(err: any,
+                                 command: CommandIncoming,
+                                 ci: CommandInvocation,
+                                 ctx: HandlerContext & AutomationContextAware,
+                                 callback: (error: any) => void) {
         const result = {
             ...defaultErrorResult(ctx),
             ...failure(err),
@@ -338,28 +544,33 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
             .reduce((p, f) => p.then(f), Promise.resolve())
             .then(() => {
                 return this.sendCommandStatus(false, result.code, command, ctx)
+                    .catch(error => logger.warn("Unable to send status for command: " + stringify(command)))
                     .then(() => {
                         if (callback) {
                             callback(Promise.resolve(result));
                         }
                         logger.error(`Failed invocation of command '%s'`, command.command, serializeError(err));
                         this.clearNamespace();
-                    })
-                    .catch(error => logger.warn("Unable to send status for command: " + stringify(command)));
+                    });
             });
     }
 
-    private handleEventError(err: any, event: EventIncoming, ef: EventFired<any>,
-                             ctx: HandlerContext & AutomationContextAware, callback: (error: any) => void) {
+    protected handleEventError(err: any, event: EventIncoming, ef: EventFired<any>,
+                               ctx: HandlerContext & AutomationContextAware, callback: (error: any) => void) {
         const result = {
             ...defaultErrorResult(ctx),
             ...failure(err),
         };
 
-        this.listeners.map(l => () => l.eventFailed(ef, ctx, result))
-            .reduce((p, f) => p.then(f), Promise.resolve())
+        const failed = failedEventHandlers(ctx);
+        this.deadLetter(event, err, failed.length > 0 ? failed : event.handlers)
+            .catch(error => logger.warn("Unable to dead-letter event subscription '%s': %s",
+                event.extensions.operationName, error.message))
+            .then(() => this.listeners.map(l => () => l.eventFailed(ef, ctx, result))
+                .reduce((p, f) => p.then(f), Promise.resolve()))
             .then(() => {
                 return this.sendEventStatus(false, ef, event, ctx)
+                    .catch(error => logger.warn("Unable to send status for event subscription: " + stringify(event)))
                     .then(() => {
                         if (callback) {
                             callback(Promise.resolve(result));
@@ -367,30 +578,43 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                         logger.error(`Failed invocation of event subscription '%s'`,
                             event.extensions.operationName, serializeError(err));
                         this.clearNamespace();
-                    })
-                    .catch(error => logger.warn("Unable to send status for event subscription: " + stringify(event)));
+                    });
             });
     }
 }
 
 class AutomationEventListenerEnabledMessageClient implements MessageClient {
 
-    constructor(private ctx: HandlerContext,
+    constructor(private ctx: HandlerContext & AutomationContextAware,
                 private delegate: MessageClient,
                 private listeners: AutomationEventListener[] = []) {
     }
 
     public respond(msg: any,
                    options?: MessageOptions): Promise<any> {
-        this.listeners.forEach(l => l.messageSent(msg, [], options, this.ctx));
-        return this.delegate.respond(msg, options);
+        return this.delivered(msg, [], options, traced("message.respond", () => this.delegate.respond(msg, options),
+            { kind: "PRODUCER", context: this.ctx.context }));
     }
 
     public send(msg: any,
                 destinations: Destination | Destination[],
                 options?: MessageOptions): Promise<any> {
-        this.listeners.forEach(l => l.messageSent(msg, destinations, options, this.ctx));
-        return this.delegate.send(msg, destinations, options);
+        return this.delivered(msg, destinations, options, traced("message.send", () => this.delegate.send(msg, destinations, options),
+            { kind: "PRODUCER", context: this.ctx.context }));
+    }
+
+    private delivered(msg: any,
+                      destinations: Destination | Destination[],
+                      options: MessageOptions,
+                      delivery: Promise<any>): Promise<any> {
+        return delivery
+            .then(result => {
+                this.listeners.forEach(l => l.messageSent(msg, destinations, options, this.ctx));
+                return result;
+            }, err => {
+                this.listeners.forEach(l => l.messageSent(msg, destinations, options, this.ctx, err));
+                return Promise.reject(err);
+            });
     }
 }
 
@@ -412,6 +636,13 @@ export function defaultErrorResult(context: AutomationContextAware): HandlerResu
     return result as HandlerResult;
 }
 
+function finishInvocationSpan(span: SpanRecorder, results: Promise<HandlerResult | HandlerResult[]>) {
+    results.then(result => {
+        const failed = _.flatten([result]).find(r => r && r.code !== 0);
+        span.tag("atomist.code", failed ? failed.code : 0).finish(failed);
+    }, err => span.finish(err));
+}
+
 function replacer(key: string, value: any) {
     if (key === "secrets" && value) {
         return value.map(v => ({ uri: v.uri, value: hideString(v.value) }));
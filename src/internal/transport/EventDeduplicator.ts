@@ -0,0 +1,95 @@
+import { EventFired } from "../../HandleEvent";
+import { EventHandlerMetadata } from "../../metadata/automationMetadata";
+import { DeduplicationStore } from "../../spi/event/DeduplicationStore";
+import { logger } from "../util/logger";
+import { EventIncoming } from "./RequestProcessor";
+
+export interface DeduplicationOptions {
+
+    /**
+     * Milliseconds during which events with the same key are considered duplicates; defaults to one hour
+     */
+    window?: number;
+
+    /**
+     * Functions computing the deduplication key of incoming events keyed by event handler name.
+     * Events of handlers without key function, or whose function returns no key, are identified by
+     * their correlation id.
+     */
+    keys?: { [name: string]: (event: EventFired<any>) => string };
+}
+
+/**
+ * Outcome of checking an incoming event.
+ */
+export interface DeduplicationResult {
+    key: string;
+    duplicate: boolean;
+}
+
+/**
+ * Drops events that have already been processed by recording their keys in a {DeduplicationStore}.
+ * Keys are recorded when processing starts and need to be released if processing failed,
+ * so that the event can be retried.
+ *
+ * Replayed events are identified by the correlation id of the original event.
+ */
+export class EventDeduplicator {
+
+    constructor(private store: DeduplicationStore, private options: DeduplicationOptions = {}) { }
+
+    /**
+     * Record the key of an incoming event
+     * @param {EventIncoming} event
+     * @param {EventHandlerMetadata[]} handlers all handlers subscribed to the event
+     * @returns {DeduplicationResult}
+     */
+    public check(event: EventIncoming, handlers: EventHandlerMetadata[]): DeduplicationResult {
+        let key: string;
+        try {
+            key = `${event.extensions.operationName}:${this.key(event, handlers)}`;
+            const duplicate = !this.store.add(key, this.options.window || DefaultWindow);
+            return { key, duplicate };
+        } catch (err) {
+            // Rather process an event twice than not at all
+            logger.warn("Failed to record deduplication key of event subscription '%s': %s",
+                event.extensions.operationName, err.message);
+            return { key: undefined, duplicate: false };
+        }
+    }
+
+    /**
+     * Forget the key of an event that failed processing
+     * @param {string} key
+     */
+    public release(key: string) {
+        if (!key) {
+            return;
+        }
+        try {
+            this.store.remove(key);
+        } catch (err) {
+            logger.warn("Failed to remove deduplication key '%s': %s", key, err.message);
+        }
+    }
+
+    private key(event: EventIncoming, handlers: EventHandlerMetadata[]): string {
+        const keys = this.options.keys || {};
+        const ef: EventFired<any> = {
+            data: event.data,
+            extensions: {
+                operationName: event.extensions.operationName,
+            },
+            secrets: event.secrets,
+        };
+        for (const h of handlers.filter(eh => !!keys[eh.name])) {
+            const key = keys[h.name](ef);
+            if (key !== undefined && key !== null) {
+                return key;
+            }
+        }
+        return event.replay ? event.replay.correlation_id : event.extensions.correlation_id;
+    }
+}
+
+const DefaultWindow = 1000 * 60 * 60;
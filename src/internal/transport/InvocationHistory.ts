@@ -0,0 +1,109 @@
+import { redactDestinations } from "../message/redaction";
+import {
+    InvocationStream,
+    InvocationStreamEvent,
+} from "./InvocationStream";
+
+/**
+ * Recent invocation with its outcome and the messages it sent, as assembled from the {InvocationStream}.
+ */
+export interface InvocationRecord {
+    type: "command" | "event";
+    operation: string;
+    team_id: string;
+    correlation_id: string;
+    invocation_id?: string;
+    started: number;
+
+    /**
+     * Set once the invocation completed
+     */
+    finished?: number;
+    duration?: number;
+    code?: number;
+    error?: string;
+
+    /**
+     * Messages sent during the invocation; error is set if their delivery failed
+     */
+    messages: Array<{ message: any, destinations: any[], ts: number, error?: string }>;
+}
+
+/**
+ * Keeps the most recent invocations in memory by subscribing to the given {InvocationStream}.
+ */
+export class InvocationHistory {
+
+    private records: InvocationRecord[] = [];
+    private unsubscribe: () => void;
+
+    constructor(stream: InvocationStream, private size: number = DefaultHistorySize) {
+        this.unsubscribe = stream.subscribe({}, e => this.record(e));
+    }
+
+    /**
+     * Recent invocations, newest first
+     * @param {string} correlationId only return invocations with this correlation id
+     * @returns {InvocationRecord[]}
+     */
+    public invocations(correlationId?: string): InvocationRecord[] {
+        const records = correlationId ? this.records.filter(r => r.correlation_id === correlationId) : this.records;
+        return [...records].reverse();
+    }
+
+    public close() {
+        this.unsubscribe();
+    }
+
+    private record(e: InvocationStreamEvent) {
+        if (e.type === "command_started" || e.type === "event_started") {
+            this.records.push({
+                type: e.type === "command_started" ? "command" : "event",
+                operation: e.operation,
+                team_id: e.team_id,
+                correlation_id: e.correlation_id,
+                invocation_id: e.invocation_id,
+                started: e.ts,
+                messages: [],
+            });
+            if (this.records.length > this.size) {
+                this.records.shift();
+            }
+            return;
+        }
+
+        const record = this.find(e);
+        if (!record) {
+            return;
+        } else if (e.type === "message_sent") {
+            record.messages.push({
+                message: e.message,
+                destinations: redactDestinations(e.destinations || []),
+                ts: e.ts,
+                error: e.error,
+            });
+        } else {
+            record.finished = e.ts;
+            record.duration = e.duration;
+            record.code = e.code;
+            record.error = e.error;
+            record.invocation_id = record.invocation_id || e.invocation_id;
+        }
+    }
+
+    private find(e: InvocationStreamEvent): InvocationRecord {
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            const r = this.records[i];
+            if (r.correlation_id === e.correlation_id && !r.finished
+                && (e.type === "message_sent" || r.operation === e.operation)) {
+                return r;
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Number of invocations kept by default
+ */
+const DefaultHistorySize = 100;
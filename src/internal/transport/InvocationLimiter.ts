@@ -0,0 +1,173 @@
+import { AutomationMetadata } from "../../metadata/automationMetadata";
+import { Deferred } from "../util/Deferred";
+import { logger } from "../util/logger";
+
+/**
+ * Limits for concurrently running handler invocations.
+ */
+export interface ConcurrencyOptions {
+
+    /**
+     * Maximum number of concurrent invocations across all handlers
+     */
+    global?: number;
+
+    /**
+     * Maximum number of concurrent invocations per handler keyed by handler name.
+     * Takes precedence over the concurrency declared in the handler metadata.
+     */
+    handlers?: { [name: string]: number };
+
+    /**
+     * Maximum number of queued invocations; further invocations are rejected
+     */
+    maxQueueSize?: number;
+
+    /**
+     * Maximum time in milliseconds an invocation waits in the queue before it is rejected
+     */
+    queueTimeout?: number;
+}
+
+export interface InvocationStats {
+    running: number;
+    queued: number;
+}
+
+/**
+ * Statistics of the {InvocationLimiter} as reported in the metrics.
+ */
+export interface ConcurrencyStats extends InvocationStats {
+    handlers: { [name: string]: InvocationStats };
+}
+
+interface Waiting {
+    handlers: string[];
+    limits: number[];
+    release: Deferred<() => void>;
+    timer?: NodeJS.Timer;
+}
+
+/**
+ * Queues handler invocations that exceed the global or per-handler concurrency limit.
+ * Invocations are started in order of arrival unless their handlers are still at their limit;
+ * in that case invocations of other handlers may overtake them.
+ */
+export class InvocationLimiter {
+
+    private running: number = 0;
+    private runningByHandler: Map<string, number> = new Map();
+    private queue: Waiting[] = [];
+
+    constructor(private options: ConcurrencyOptions = {}) { }
+
+    /**
+     * Acquire a slot for an invocation of the given handlers.
+     * The returned promise resolves with the function that needs to be called once
+     * the invocation completes. It gets rejected if the queue is full or the invocation
+     * waited longer than the queue timeout.
+     * @param {AutomationMetadata[]} handlers all handlers taking part in the invocation
+     * @returns {Promise<() => void>}
+     */
+    public acquire(handlers: AutomationMetadata[]): Promise<() => void> {
+        const waiting: Waiting = {
+            handlers: handlers.map(h => h.name),
+            limits: handlers.map(h => this.limit(h)),
+            release: new Deferred<() => void>(),
+        };
+        this.queue.push(waiting);
+        this.dispatch();
+        if (!waiting.release.isResolved()) {
+            if (isSet(this.options.maxQueueSize) && this.queue.length > this.options.maxQueueSize) {
+                this.reject(waiting, `queue is full with '${this.options.maxQueueSize}' invocations`);
+            } else {
+                logger.debug("Queueing invocation of '%s'. Queue depth is '%s'", waiting.handlers.join(", "), this.queue.length);
+                if (isSet(this.options.queueTimeout)) {
+                    waiting.timer = setTimeout(
+                        () => this.reject(waiting, `waited longer than '${this.options.queueTimeout}ms' in queue`),
+                        this.options.queueTimeout);
+                    waiting.timer.unref();
+                }
+            }
+        }
+        return waiting.release.promise;
+    }
+
+    public stats(): ConcurrencyStats {
+        const handlers: { [name: string]: InvocationStats } = {};
+        const handler = (name: string) => handlers[name] = handlers[name] || { running: 0, queued: 0 };
+        this.runningByHandler.forEach((v, k) => handler(k).running = v);
+        this.queue.forEach(w => w.handlers.forEach(h => handler(h).queued++));
+        return {
+            running: this.running,
+            queued: this.queue.length,
+            handlers,
+        };
+    }
+
+    private limit(handler: AutomationMetadata): number {
+        if (this.options.handlers && this.options.handlers[handler.name] !== undefined) {
+            return this.options.handlers[handler.name];
+        }
+        return handler.concurrency;
+    }
+
+    private reject(waiting: Waiting, reason: string) {
+        this.queue.splice(this.queue.indexOf(waiting), 1);
+        logger.warn("Rejecting invocation of '%s': %s", waiting.handlers.join(", "), reason);
+        waiting.release.reject(new Error(`Rejected invocation of '${waiting.handlers.join(", ")}': ${reason}`));
+    }
+
+    private canStart(waiting: Waiting): boolean {
+        return waiting.handlers.every((h, i) =>
+            waiting.limits[i] === undefined || waiting.limits[i] === null
+            || (this.runningByHandler.get(h) || 0) < waiting.limits[i]);
+    }
+
+    private globalLimitReached(): boolean {
+        return isSet(this.options.global) && this.running >= this.options.global;
+    }
+
+    private dispatch() {
+        let i = 0;
+        while (i < this.queue.length && !this.globalLimitReached()) {
+            const waiting = this.queue[i];
+            if (this.canStart(waiting)) {
+                this.queue.splice(i, 1);
+                this.start(waiting);
+            } else {
+                i++;
+            }
+        }
+    }
+
+    private start(waiting: Waiting) {
+        if (waiting.timer) {
+            clearTimeout(waiting.timer);
+        }
+        this.running++;
+        waiting.handlers.forEach(h => this.runningByHandler.set(h, (this.runningByHandler.get(h) || 0) + 1));
+
+        let released = false;
+        waiting.release.resolve(() => {
+            if (released) {
+                return;
+            }
+            released = true;
+            this.running--;
+            waiting.handlers.forEach(h => {
+                const count = this.runningByHandler.get(h) - 1;
+                if (count > 0) {
+                    this.runningByHandler.set(h, count);
+                } else {
+                    this.runningByHandler.delete(h);
+                }
+            });
+            this.dispatch();
+        });
+    }
+}
+
+function isSet(value: number): boolean {
+    return value !== undefined && value !== null;
+}
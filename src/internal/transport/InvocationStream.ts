@@ -0,0 +1,99 @@
+import { logger } from "../util/logger";
+
+export type InvocationStreamEventType = "command_started" | "command_succeeded" | "command_failed"
+    | "event_started" | "event_succeeded" | "event_failed" | "message_sent";
+
+/**
+ * Something that happened during an invocation, as pushed to subscribers of the {InvocationStream}.
+ */
+export interface InvocationStreamEvent {
+    type: InvocationStreamEventType;
+
+    /**
+     * Name of the command handler or operation name of the event subscription
+     */
+    operation: string;
+    team_id: string;
+    correlation_id: string;
+    invocation_id?: string;
+    ts: number;
+
+    /**
+     * Time in milliseconds since the invocation started; only on completion
+     */
+    duration?: number;
+
+    /**
+     * Code of the HandlerResult and the error message of failed invocations or message deliveries
+     */
+    code?: number;
+    error?: string;
+
+    /**
+     * Message and destinations of message_sent events
+     */
+    message?: any;
+    destinations?: any[];
+}
+
+/**
+ * Filter for subscribers of the {InvocationStream}. All given criteria need to match.
+ */
+export interface InvocationStreamFilter {
+    operation?: string;
+    teamId?: string;
+    correlationId?: string;
+}
+
+type InvocationStreamSubscriber = (event: InvocationStreamEvent) => void;
+
+/**
+ * Fans out invocation events to all live subscribers. Events published without subscribers are dropped.
+ */
+export class InvocationStream {
+
+    private subscriptions: Array<{ filter: InvocationStreamFilter, subscriber: InvocationStreamSubscriber }> = [];
+
+    get subscribers(): number {
+        return this.subscriptions.length;
+    }
+
+    /**
+     * Subscribe to all events matching the filter
+     * @param {InvocationStreamFilter} filter
+     * @param {(event: InvocationStreamEvent) => void} subscriber
+     * @returns {() => void} function to unsubscribe again
+     */
+    public subscribe(filter: InvocationStreamFilter, subscriber: InvocationStreamSubscriber): () => void {
+        const subscription = { filter: filter || {}, subscriber };
+        this.subscriptions.push(subscription);
+        return () => {
+            this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+        };
+    }
+
+    public publish(event: InvocationStreamEvent) {
+        this.subscriptions.filter(s => matches(s.filter, event)).forEach(s => {
+            try {
+                s.subscriber(event);
+            } catch (err) {
+                logger.warn("Failed to push '%s' to invocation stream subscriber: %s", event.type, err.message);
+            }
+        });
+    }
+}
+
+/**
+ * Format the event as Server-Sent Event
+ * @param {InvocationStreamEvent} event
+ * @returns {string}
+ */
+export function serverSentEvent(event: InvocationStreamEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function matches(filter: InvocationStreamFilter, event: InvocationStreamEvent): boolean {
+    return (!filter.operation || filter.operation === event.operation)
+        && (!filter.teamId || filter.teamId === event.team_id)
+        && (!filter.correlationId || filter.correlationId === event.correlation_id);
+}
@@ -0,0 +1,139 @@
+import { AutomationContext } from "../util/cls";
+import { Deferred } from "../util/Deferred";
+import { logger } from "../util/logger";
+
+/**
+ * Command or event invocation that has been accepted but not yet completed.
+ */
+export interface InFlightInvocation {
+    invocationId: string;
+    correlationId: string;
+    type: "command" | "event";
+    operation: string;
+    teamId: string;
+
+    /**
+     * Timestamp in milliseconds the invocation was accepted
+     */
+    ts: number;
+}
+
+/**
+ * Outcome of draining in-flight invocations.
+ */
+export interface DrainReport {
+
+    /**
+     * True if all in-flight invocations completed before the deadline
+     */
+    drained: boolean;
+
+    /**
+     * Time in milliseconds spent waiting for in-flight invocations
+     */
+    duration: number;
+
+    /**
+     * Invocations still running when the deadline passed
+     */
+    abandoned: InFlightInvocation[];
+}
+
+/**
+ * Keeps track of in-flight invocations so that they can be drained before the client shuts down.
+ * Once draining, request processors reject new invocations.
+ */
+export class InvocationTracker {
+
+    private invocations: Map<string, InFlightInvocation> = new Map();
+    private idle: Deferred<void>;
+    private report: Promise<DrainReport>;
+
+    get draining(): boolean {
+        return !!this.report;
+    }
+
+    /**
+     * Record the start of an invocation.
+     * The returned function needs to be called when the invocation completes.
+     * @param {AutomationContext} context
+     * @param {"command" | "event"} type
+     * @returns {() => void}
+     */
+    public start(context: AutomationContext, type: "command" | "event"): () => void {
+        const invocation: InFlightInvocation = {
+            invocationId: context.invocationId,
+            correlationId: context.correlationId,
+            type,
+            operation: context.operation,
+            teamId: context.teamId,
+            ts: context.ts,
+        };
+        this.invocations.set(invocation.invocationId, invocation);
+        return () => {
+            this.invocations.delete(invocation.invocationId);
+            if (this.idle && this.invocations.size === 0 && !this.idle.isResolved()) {
+                this.idle.resolve();
+            }
+        };
+    }
+
+    public inFlight(): InFlightInvocation[] {
+        return Array.from(this.invocations.values());
+    }
+
+    /**
+     * Stop accepting invocations and wait for the in-flight ones to complete.
+     * Calling drain more than once returns the report of the first call.
+     * @param {number} timeout deadline in milliseconds after which remaining invocations are abandoned
+     * @returns {Promise<DrainReport>}
+     */
+    public drain(timeout: number): Promise<DrainReport> {
+        if (this.report) {
+            return this.report;
+        }
+
+        const start = Date.now();
+        this.idle = new Deferred<void>();
+        if (this.invocations.size === 0) {
+            this.idle.resolve();
+        } else {
+            logger.info("Draining %s in-flight invocations", this.invocations.size);
+        }
+
+        let timer;
+        const deadline = new Promise<void>(resolve => timer = setTimeout(resolve, timeout));
+        this.report = Promise.race([this.idle.promise, deadline])
+            .then(() => {
+                clearTimeout(timer);
+                const abandoned = this.inFlight();
+                return {
+                    drained: abandoned.length === 0,
+                    duration: Date.now() - start,
+                    abandoned,
+                };
+            });
+        return this.report;
+    }
+}
+
+/**
+ * Drain the tracker and log the outcome including all abandoned invocations.
+ * @param {InvocationTracker} tracker
+ * @param {number} timeout
+ * @returns {Promise<DrainReport>}
+ */
+export function drainAndReport(tracker: InvocationTracker, timeout: number): Promise<DrainReport> {
+    return tracker.drain(timeout)
+        .then(report => {
+            if (report.drained) {
+                logger.info("Drained all in-flight invocations in %sms", report.duration);
+            } else {
+                logger.warn("Abandoning %s in-flight invocations after %sms", report.abandoned.length, report.duration);
+                report.abandoned.forEach(i => logger.warn("Abandoned %s '%s' of team '%s' with invocation id '%s'" +
+                    " and correlation id '%s' running for %sms",
+                    i.type, i.operation, i.teamId, i.invocationId, i.correlationId, Date.now() - i.ts));
+            }
+            return report;
+        });
+}
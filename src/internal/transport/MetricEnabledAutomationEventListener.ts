@@ -9,7 +9,14 @@ import {
 } from "../../server/AutomationEventListener";
 import { CommandInvocation } from "../invoker/Payload";
 import * as namespace from "../util/cls";
-import { duration } from "../util/metric";
+import {
+    duration,
+    increment,
+} from "../util/metric";
+import {
+    incrementCounter,
+    observeHistogram,
+} from "../util/prometheus";
 
 export class MetricEnabledAutomationEventListener
     extends AutomationEventListenerSupport implements AutomationEventListener {
@@ -18,6 +25,7 @@ export class MetricEnabledAutomationEventListener
         const start = +namespace.get().ts;
         duration(`command_handler.${payload.name}.success`, Date.now() - start);
         duration(`command_handler.global`, Date.now() - start);
+        record("command", payload.name, ctx, "success", Date.now() - start);
         return Promise.resolve();
     }
 
@@ -25,6 +33,7 @@ export class MetricEnabledAutomationEventListener
         const start = +namespace.get().ts;
         duration(`command_handler.${payload.name}.failure`, Date.now() - start);
         duration(`command_handler.global`, Date.now() - start);
+        record("command", payload.name, ctx, "failure", Date.now() - start);
         return Promise.resolve();
     }
 
@@ -33,6 +42,7 @@ export class MetricEnabledAutomationEventListener
         duration(`event_handler.${payload.extensions.operationName}.success`,
             Date.now() - start);
         duration(`event_handler.global`, Date.now() - start);
+        record("event", payload.extensions.operationName, ctx, "success", Date.now() - start);
         return Promise.resolve();
     }
 
@@ -41,6 +51,25 @@ export class MetricEnabledAutomationEventListener
         duration(`event_handler.${payload.extensions.operationName}.failure`,
             Date.now() - start);
         duration(`event_handler.global`, Date.now() - start);
+        record("event", payload.extensions.operationName, ctx, "failure", Date.now() - start);
         return Promise.resolve();
     }
+
+    public eventSkipped(payload: EventFired<any>, ctx: HandlerContext, key: string) {
+        increment(`event_handler.${payload.extensions.operationName}.skipped`);
+        incrementCounter("atomist_event_handler_skipped_total", "Number of skipped duplicate events",
+            { handler: payload.extensions.operationName, team: ctx.teamId });
+    }
+}
+
+function record(kind: "command" | "event",
+                handler: string,
+                ctx: HandlerContext,
+                outcome: "success" | "failure",
+                ms: number) {
+    const labels = { handler, team: ctx.teamId, outcome };
+    incrementCounter(`atomist_${kind}_handler_invocations_total`,
+        `Number of ${kind} handler invocations`, labels);
+    observeHistogram(`atomist_${kind}_handler_duration_seconds`,
+        `Duration of ${kind} handler invocations in seconds`, labels, ms / 1000);
 }
@@ -35,6 +35,13 @@ export interface EventIncoming {
     data: any;
     extensions: Extensions;
     secrets: Secret[];
+    replay?: Replay;
+
+    /**
+     * Names of the event handlers to invoke; all handlers subscribed to the event if not set.
+     * Set when a dead-lettered event is retried so that only the failed handlers run again.
+     */
+    handlers?: string[];
 }
 
 export interface Extensions {
@@ -55,6 +62,27 @@ export interface CommandIncoming {
     parameters: Arg[];
     mapped_parameters: Arg[];
     secrets: Secret[];
+    replay?: Replay;
+}
+
+/**
+ * Present on events and commands that are re-submitted from the EventStore.
+ */
+export interface Replay {
+
+    /**
+     * Correlation id of the original event or command
+     */
+    correlation_id: string;
+
+    /**
+     * If true, messages are captured instead of being sent and no status is reported
+     */
+    dry_run: boolean;
+}
+
+export function isDryRun(request: EventIncoming | CommandIncoming): boolean {
+    return !!request && !!request.replay && request.replay.dry_run === true;
 }
 
 export interface Source {
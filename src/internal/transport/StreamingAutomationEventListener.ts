@@ -0,0 +1,106 @@
+import * as _ from "lodash";
+import { invocationStream } from "../../globals";
+import {
+    EventFired,
+    HandlerContext,
+    HandlerResult,
+} from "../../index";
+import { AutomationEventListenerSupport } from "../../server/AutomationEventListener";
+import {
+    Destination,
+    MessageOptions,
+} from "../../spi/message/MessageClient";
+import { CommandInvocation } from "../invoker/Payload";
+import { redactDestinations } from "../message/redaction";
+import * as namespace from "../util/cls";
+import {
+    InvocationStreamEvent,
+    InvocationStreamEventType,
+} from "./InvocationStream";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "./RequestProcessor";
+
+/**
+ * Publishes start and completion of invocations and all messages sent to the global {InvocationStream}.
+ */
+export class StreamingAutomationEventListener extends AutomationEventListenerSupport {
+
+    public commandIncoming(payload: CommandIncoming) {
+        publish("command_started", payload.command, payload.team.id, payload.correlation_id);
+    }
+
+    public commandSuccessful(payload: CommandInvocation, ctx: HandlerContext, result: HandlerResult): Promise<any> {
+        publish("command_succeeded", payload.name, ctx.teamId, ctx.correlationId, {
+            code: result ? result.code : 0,
+        });
+        return Promise.resolve();
+    }
+
+    public commandFailed(payload: CommandInvocation, ctx: HandlerContext, err: any): Promise<any> {
+        publish("command_failed", payload.name, ctx.teamId, ctx.correlationId, {
+            code: _.get(err, "code", 1),
+            error: _.get(err, "message"),
+        });
+        return Promise.resolve();
+    }
+
+    public eventIncoming(payload: EventIncoming) {
+        publish("event_started", payload.extensions.operationName, payload.extensions.team_id,
+            payload.extensions.correlation_id);
+    }
+
+    public eventSuccessful(payload: EventFired<any>, ctx: HandlerContext, result: HandlerResult[]): Promise<any> {
+        publish("event_succeeded", payload.extensions.operationName, ctx.teamId, ctx.correlationId, {
+            code: 0,
+        });
+        return Promise.resolve();
+    }
+
+    public eventFailed(payload: EventFired<any>, ctx: HandlerContext, err: any): Promise<any> {
+        const failed = _.flatten([err]).find(r => r && r.code !== 0);
+        publish("event_failed", payload.extensions.operationName, ctx.teamId, ctx.correlationId, {
+            code: _.get(failed, "code", 1),
+            error: _.get(failed, "message"),
+        });
+        return Promise.resolve();
+    }
+
+    public messageSent(message: any,
+                       destinations: Destination | Destination[],
+                       options: MessageOptions,
+                       ctx: HandlerContext,
+                       err?: any) {
+        const context = namespace.get();
+        publish("message_sent", context ? context.operation : undefined, ctx.teamId, ctx.correlationId, {
+            message,
+            destinations: redactDestinations(destinations),
+            error: err ? err.message : undefined,
+        });
+    }
+}
+
+function publish(type: InvocationStreamEventType,
+                 operation: string,
+                 teamId: string,
+                 correlationId: string,
+                 details: Partial<InvocationStreamEvent> = {}) {
+    const stream = invocationStream();
+    if (stream.subscribers === 0) {
+        return;
+    }
+
+    const context = namespace.get();
+    const completed = type !== "command_started" && type !== "event_started" && type !== "message_sent";
+    stream.publish({
+        type,
+        operation,
+        team_id: teamId,
+        correlation_id: correlationId,
+        invocation_id: context ? context.invocationId : undefined,
+        ts: Date.now(),
+        duration: completed && context ? Date.now() - context.ts : undefined,
+        ...details,
+    });
+}
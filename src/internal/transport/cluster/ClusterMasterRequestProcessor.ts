@@ -1,6 +1,5 @@
 import * as cluster from "cluster";
 import * as stringify from "json-stringify-safe";
-import * as WebSocket from "ws";
 import * as global from "../../../globals";
 import { EventFired } from "../../../HandleEvent";
 import {
@@ -16,10 +15,9 @@ import { CommandInvocation } from "../../invoker/Payload";
 import * as namespace from "../../util/cls";
 import { Deferred } from "../../util/Deferred";
 import {
-    HealthStatus,
-    registerHealthIndicator,
-} from "../../util/health";
-import { logger } from "../../util/logger";
+    logger,
+    logLevels,
+} from "../../util/logger";
 import { registerShutdownHook } from "../../util/shutdown";
 import {
     AbstractRequestProcessor,
@@ -28,6 +26,7 @@ import {
     CommandIncoming,
     EventIncoming,
     isCommandIncoming,
+    isDryRun,
     isEventIncoming,
 } from "../RequestProcessor";
 import { WebSocketClientOptions } from "../websocket/WebSocketClient";
@@ -35,6 +34,7 @@ import {
     sendMessage,
     WebSocketCommandMessageClient,
     WebSocketEventMessageClient,
+    WebSocketSender,
 } from "../websocket/WebSocketMessageClient";
 import {
     RegistrationConfirmation,
@@ -45,6 +45,49 @@ import {
     MasterMessage,
     WorkerMessage,
 } from "./messages";
+import {
+    RandomScheduler,
+    WorkerLoad,
+    WorkerScheduler,
+} from "./scheduling";
+
+/**
+ * Options to supervise the cluster workers
+ */
+export interface WorkerSupervisionOptions {
+
+    /**
+     * Crashed workers are restarted after initialDelay milliseconds; the delay doubles with every consecutive
+     * crash of the same worker slot up to maxDelay. A worker that stayed up longer than maxDelay resets the delay.
+     */
+    restart?: {
+        initialDelay?: number;
+        maxDelay?: number;
+    };
+
+    /**
+     * Replace workers after the given number of invocations or once their resident memory in MB exceeds maxMemory.
+     * Recycled workers receive no new invocations and get stopped once their in-flight invocations completed.
+     */
+    recycle?: {
+        maxInvocations?: number;
+        maxMemory?: number;
+    };
+
+    /**
+     * Number of times an in-flight invocation of a crashed worker is dispatched to another worker before it fails
+     */
+    maxRedispatches?: number;
+}
+
+export const DefaultWorkerSupervisionOptions: WorkerSupervisionOptions = {
+    restart: {
+        initialDelay: 1000,
+        maxDelay: 60000,
+    },
+    recycle: {},
+    maxRedispatches: 0,
+};
 
 /**
  * A RequestProcessor that delegates to Node.JS Cluster workers to do the actual
@@ -55,23 +98,28 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
     implements WebSocketRequestProcessor {
 
     private registration?: RegistrationConfirmation;
-    private webSocket?: WebSocket;
+    private webSocket?: WebSocketSender;
     private commands: Map<string, Dispatched<HandlerResult>> = new Map();
     private events: Map<string, Dispatched<HandlerResult[]>> = new Map();
+    private workers: Map<number, WorkerState> = new Map();
+    private pending: Array<Dispatched<any>> = [];
 
     constructor(protected automations: AutomationServer,
                 protected options: WebSocketClientOptions,
                 protected listeners: AutomationEventListener[] = [],
-                protected numWorkers: number = require("os").cpus().length) {
+                protected numWorkers: number = require("os").cpus().length,
+                protected supervision: WorkerSupervisionOptions = {},
+                protected scheduler: WorkerScheduler = RandomScheduler) {
         super(automations, listeners);
 
-        registerHealthIndicator(() => {
-            if (this.webSocket && this.registration) {
-                return { status: HealthStatus.Up, detail: "WebSocket connection established" };
-            } else {
-                return { status: HealthStatus.Down, detail: "WebSocket disconnected" };
-            }
-        });
+        this.supervision = {
+            ...DefaultWorkerSupervisionOptions,
+            ...supervision,
+            restart: { ...DefaultWorkerSupervisionOptions.restart, ...supervision.restart },
+            recycle: { ...DefaultWorkerSupervisionOptions.recycle, ...supervision.recycle },
+        };
+
+        global.setWorkerLoad(() => this.load());
     }
 
     public onRegistration(registration: RegistrationConfirmation) {
@@ -86,127 +134,22 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         });
     }
 
-    public onConnect(ws: WebSocket) {
+    public onConnect(ws: WebSocketSender) {
         logger.info("WebSocket connection established. Listening for incoming messages");
         this.webSocket = ws;
         this.listeners.forEach(l => l.registrationSuccessful(this));
     }
 
     public onDisconnect() {
-        this.webSocket = null;
+        // Keep the sender; it buffers messages until the connection is back
         this.registration = null;
     }
 
     public run(): Promise<any> {
-        const ws = () => this.webSocket;
-        const listeners = this.listeners;
-        const commands = this.commands;
-        const events = this.events;
-        const clearNamespace = this.clearNamespace;
-
-        function attachEvents(worker: cluster.Worker, deferred: Deferred<any>) {
-
-            worker.on("message", message => {
-                const msg = message as WorkerMessage;
-
-                // Wait for online message to come in
-                if (msg.type === "online") {
-                    deferred.resolve();
-                    return;
-                }
-
-                const ses = namespace.init();
-                ses.run(() => {
-                    namespace.set(msg.context);
-
-                    logger.debug("Received '%s' message from worker '%s': %j", msg.type, worker.id, msg.context);
-
-                    const invocationId = namespace.get().invocationId;
-                    const ctx = hydrateContext(msg);
-                    if (msg.type === "message") {
-
-                        let messageClient: MessageClient;
-                        if (commands.has(invocationId)) {
-                            messageClient = commands.get(invocationId).context.messageClient;
-                        } else if (events.has(invocationId)) {
-                            messageClient = events.get(invocationId).context.messageClient;
-                        } else {
-                            logger.error("Can't handle message from worker due to missing messageClient");
-                            clearNamespace();
-                            return;
-                        }
-
-                        if (msg.data.destinations && msg.data.destinations.length > 0) {
-                            messageClient.send(msg.data.message, msg.data.destinations, msg.data.options)
-                                .then(clearNamespace, clearNamespace);
-                        } else {
-                            messageClient.respond(msg.data.message, msg.data.options)
-                                .then(clearNamespace, clearNamespace);
-                        }
-                    } else if (msg.type === "status") {
-                        sendMessage(msg.data, ws());
-                    } else if (msg.type === "command_success") {
-                        listeners.map(l => () => l.commandSuccessful(msg.event as CommandInvocation,
-                            ctx, msg.data as HandlerResult))
-                            .reduce((p, f) => p.then(f), Promise.resolve())
-                            .then(() => {
-                                if (commands.has(invocationId)) {
-                                    commands.get(invocationId).result.resolve(msg.data as HandlerResult);
-                                    commands.delete(invocationId);
-                                }
-                                clearNamespace();
-                            })
-                            .catch(clearNamespace);
-                    } else if (msg.type === "command_failure") {
-                        listeners.map(l => () => l.commandFailed(msg.event as CommandInvocation,
-                            ctx, msg.data as HandlerResult))
-                            .reduce((p, f) => p.then(f), Promise.resolve())
-                            .then(() => {
-                                if (commands.has(invocationId)) {
-                                    commands.get(invocationId).result.resolve(msg.data as HandlerResult);
-                                    commands.delete(invocationId);
-                                }
-                                clearNamespace();
-                            })
-                            .catch(clearNamespace);
-                    } else if (msg.type === "event_success") {
-                        listeners.map(l => () => l.eventSuccessful(msg.event as EventFired<any>,
-                            ctx, msg.data as HandlerResult[]))
-                            .reduce((p, f) => p.then(f), Promise.resolve())
-                            .then(() => {
-                                if (events.has(invocationId)) {
-                                    events.get(invocationId).result.resolve(msg.data as HandlerResult[]);
-                                    events.delete(invocationId);
-                                }
-                                clearNamespace();
-                            })
-                            .catch(clearNamespace);
-                    } else if (msg.type === "event_failure") {
-                        listeners.map(l => () => l.eventFailed(msg.event as EventFired<any>,
-                            ctx, msg.data as HandlerResult[]))
-                            .reduce((p, f) => p.then(f), Promise.resolve())
-                            .then(() => {
-                                if (events.has(invocationId)) {
-                                    events.get(invocationId).result.resolve(msg.data as HandlerResult[]);
-                                    events.delete(invocationId);
-                                }
-                                clearNamespace();
-                            })
-                            .catch(clearNamespace);
-                    }
-                });
-            });
-        }
-
         const promises: Array<Promise<any>> = [];
 
         for (let i = 0; i < this.numWorkers; i++) {
-            const worker = cluster.fork();
-
-            const deferred = new Deferred<any>();
-            promises.push(deferred.promise);
-
-            attachEvents(worker, deferred);
+            promises.push(this.fork());
         }
 
         cluster.on("disconnect", worker => {
@@ -214,12 +157,7 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
             worker.kill("SIGTERM");
         });
 
-        cluster.on("exit", (worker, code, signal) => {
-            logger.warn(`Worker '${worker.id}' exited with '${code}' '${signal}'. Restarting ...`);
-            if (code !== 0) {
-                attachEvents(cluster.fork(), new Deferred());
-            }
-        });
+        cluster.on("exit", (worker, code, signal) => this.onExit(worker, code, signal));
 
         return Promise.all(promises);
     }
@@ -235,11 +173,10 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
             data: command,
         };
 
-        const dispatched = new Dispatched(new Deferred<HandlerResult>(), ctx);
+        const dispatched = new Dispatched(new Deferred<HandlerResult>(), ctx, message, ci);
         this.commands.set(ctx.context.invocationId, dispatched);
-        const worker = this.assignWorker();
-        logger.debug("Incoming command handler request '%s' dispatching to worker '%s'", ci.name, worker.id);
-        worker.send(message);
+        logger.debug("Incoming command handler request '%s'", ci.name);
+        this.dispatch(dispatched);
         callback(dispatched.result.promise);
     }
 
@@ -254,11 +191,10 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
             data: event,
         };
 
-        const dispatched = new Dispatched(new Deferred<HandlerResult[]>(), ctx);
+        const dispatched = new Dispatched(new Deferred<HandlerResult[]>(), ctx, message, ef);
         this.events.set(ctx.context.invocationId, dispatched);
-        const worker = this.assignWorker();
-        logger.debug("Incoming event handler subscription '%s' dispatching to worker '%s'", ef.extensions.operationName, worker.id);
-        worker.send(message);
+        logger.debug("Incoming event handler subscription '%s'", ef.extensions.operationName);
+        this.dispatch(dispatched);
         callback(dispatched.result.promise);
     }
 
@@ -280,23 +216,308 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         }
     }
 
-    private assignWorker(): cluster.Worker {
-        const workers = [];
-        for (const id in cluster.workers) {
-            if (cluster.workers.hasOwnProperty(id)) {
-                const worker = cluster.workers[id];
-                if (worker.isConnected()) {
-                    workers.push(worker);
+    /**
+     * Fork a worker
+     * @param {number} restarts number of consecutive crashes of the worker this one replaces
+     */
+    private fork(restarts: number = 0): Promise<any> {
+        const worker = cluster.fork();
+        this.workers.set(worker.id, {
+            worker,
+            started: Date.now(),
+            online: false,
+            draining: false,
+            invocations: 0,
+            restarts,
+        });
+
+        const deferred = new Deferred<any>();
+        this.attachEvents(worker, deferred);
+        return deferred.promise;
+    }
+
+    private attachEvents(worker: cluster.Worker, deferred: Deferred<any>) {
+        const ws = () => this.webSocket;
+        const listeners = this.listeners;
+        const commands = this.commands;
+        const events = this.events;
+        const clearNamespace = this.clearNamespace;
+
+        worker.on("message", message => {
+            const msg = message as WorkerMessage;
+
+            // Wait for online message to come in
+            if (msg.type === "online") {
+                // Workers start with the configured log levels; bring them up to date with runtime changes
+                worker.send({ type: "log_levels", data: logLevels() });
+                this.onOnline(worker);
+                deferred.resolve();
+                return;
+            }
+
+            if (msg.type === "stats") {
+                this.onStats(worker, msg.data);
+                return;
+            }
+
+            if (msg.type === "dead_letter") {
+                if (global.deadLetterStore() && !isDryRun(msg.data.event)) {
+                    global.deadLetterStore().add(msg.data.event, msg.data.error, msg.data.handlers);
                 }
+                return;
             }
+
+            const ses = namespace.init();
+            ses.run(() => {
+                namespace.set(msg.context);
+
+                logger.debug("Received '%s' message from worker '%s': %j", msg.type, worker.id, msg.context);
+
+                const invocationId = namespace.get().invocationId;
+                const ctx = hydrateContext(msg);
+                if (msg.type === "message") {
+
+                    let messageClient: MessageClient;
+                    if (commands.has(invocationId)) {
+                        messageClient = commands.get(invocationId).context.messageClient;
+                    } else if (events.has(invocationId)) {
+                        messageClient = events.get(invocationId).context.messageClient;
+                    } else {
+                        logger.error("Can't handle message from worker due to missing messageClient");
+                        clearNamespace();
+                        return;
+                    }
+
+                    if (msg.data.destinations && msg.data.destinations.length > 0) {
+                        messageClient.send(msg.data.message, msg.data.destinations, msg.data.options)
+                            .then(clearNamespace, clearNamespace);
+                    } else {
+                        messageClient.respond(msg.data.message, msg.data.options)
+                            .then(clearNamespace, clearNamespace);
+                    }
+                } else if (msg.type === "status") {
+                    sendMessage(msg.data, ws());
+                } else if (msg.type === "command_success") {
+                    listeners.map(l => () => l.commandSuccessful(msg.event as CommandInvocation,
+                        ctx, msg.data as HandlerResult))
+                        .reduce((p, f) => p.then(f), Promise.resolve())
+                        .then(() => {
+                            this.complete(commands, invocationId, msg.data as HandlerResult);
+                            clearNamespace();
+                        })
+                        .catch(clearNamespace);
+                } else if (msg.type === "command_failure") {
+                    listeners.map(l => () => l.commandFailed(msg.event as CommandInvocation,
+                        ctx, msg.data as HandlerResult))
+                        .reduce((p, f) => p.then(f), Promise.resolve())
+                        .then(() => {
+                            this.complete(commands, invocationId, msg.data as HandlerResult);
+                            clearNamespace();
+                        })
+                        .catch(clearNamespace);
+                } else if (msg.type === "event_success") {
+                    listeners.map(l => () => l.eventSuccessful(msg.event as EventFired<any>,
+                        ctx, msg.data as HandlerResult[]))
+                        .reduce((p, f) => p.then(f), Promise.resolve())
+                        .then(() => {
+                            this.complete(events, invocationId, msg.data as HandlerResult[]);
+                            clearNamespace();
+                        })
+                        .catch(clearNamespace);
+                } else if (msg.type === "event_failure") {
+                    listeners.map(l => () => l.eventFailed(msg.event as EventFired<any>,
+                        ctx, msg.data as HandlerResult[]))
+                        .reduce((p, f) => p.then(f), Promise.resolve())
+                        .then(() => {
+                            this.complete(events, invocationId, msg.data as HandlerResult[]);
+                            clearNamespace();
+                        })
+                        .catch(clearNamespace);
+                }
+            });
+        });
+    }
+
+    /**
+     * Send the invocation to a worker or queue it until a worker comes online
+     */
+    private dispatch(dispatched: Dispatched<any>) {
+        const worker = this.assignWorker(dispatched.message);
+        if (!worker) {
+            logger.debug("No worker available; queueing invocation '%s'", dispatched.context.invocationId);
+            this.pending.push(dispatched);
+            return;
+        }
+
+        const state = this.workers.get(worker.id);
+        dispatched.worker = worker.id;
+        state.invocations++;
+        logger.debug("Dispatching invocation '%s' of '%s' to worker '%s'",
+            dispatched.context.invocationId, dispatched.message.context.operation, worker.id);
+        worker.send(dispatched.message);
+
+        if (this.supervision.recycle.maxInvocations && state.invocations >= this.supervision.recycle.maxInvocations) {
+            this.recycle(state, `${state.invocations} invocations`);
+        }
+    }
+
+    private complete<T>(dispatched: Map<string, Dispatched<T>>, invocationId: string, result: T) {
+        if (dispatched.has(invocationId)) {
+            const worker = dispatched.get(invocationId).worker;
+            dispatched.get(invocationId).result.resolve(result);
+            dispatched.delete(invocationId);
+            this.stopIfDrained(worker);
+        }
+    }
+
+    private onOnline(worker: cluster.Worker) {
+        if (this.workers.has(worker.id)) {
+            this.workers.get(worker.id).online = true;
+        }
+        const pending = this.pending;
+        this.pending = [];
+        pending.forEach(d => this.dispatch(d));
+    }
+
+    private onStats(worker: cluster.Worker, stats: { memory: NodeJS.MemoryUsage }) {
+        const state = this.workers.get(worker.id);
+        if (state) {
+            state.memory = stats.memory.rss;
+        }
+        const maxMemory = this.supervision.recycle.maxMemory;
+        if (state && maxMemory && stats.memory.rss > maxMemory * 1024 * 1024) {
+            this.recycle(state, `exceeding ${maxMemory}MB of memory`);
+        }
+    }
+
+    private recycle(state: WorkerState, reason: string) {
+        if (state.draining) {
+            return;
+        }
+        logger.info(`Recycling worker '${state.worker.id}' after ${reason}`);
+        state.draining = true;
+        this.fork();
+        this.stopIfDrained(state.worker.id);
+    }
+
+    private stopIfDrained(id: number) {
+        const state = this.workers.get(id);
+        if (state && state.draining && this.inFlight(id).length === 0) {
+            logger.info(`Worker '${id}' drained. Stopping ...`);
+            state.worker.disconnect();
+        }
+    }
+
+    private onExit(worker: cluster.Worker, code: number, signal: string) {
+        const state = this.workers.get(worker.id);
+        this.workers.delete(worker.id);
+
+        if (state && state.draining) {
+            logger.info(`Recycled worker '${worker.id}' exited with '${code}' '${signal}'`);
+        } else if (code !== 0) {
+            const restart = this.supervision.restart;
+            const restarts = state && Date.now() - state.started <= restart.maxDelay ? state.restarts : 0;
+            const delay = Math.min(restart.initialDelay * Math.pow(2, restarts), restart.maxDelay);
+            logger.warn(`Worker '${worker.id}' exited with '${code}' '${signal}'. Restarting in ${delay}ms ...`);
+            setTimeout(() => this.fork(restarts + 1), delay);
+        } else {
+            logger.warn(`Worker '${worker.id}' exited with '${code}' '${signal}'`);
+        }
+
+        this.inFlight(worker.id).forEach(d => this.recover(d, worker.id));
+    }
+
+    /**
+     * Re-dispatch or fail an invocation whose worker exited before completing it
+     */
+    private recover(dispatched: Dispatched<any>, worker: number) {
+        const ctx = dispatched.context;
+        if (dispatched.redispatches < this.supervision.maxRedispatches) {
+            dispatched.redispatches++;
+            logger.warn("Re-dispatching invocation '%s' of exited worker '%s'", ctx.invocationId, worker);
+            this.dispatch(dispatched);
+            return;
+        }
+
+        const err = new Error(`Worker '${worker}' exited during invocation '${ctx.invocationId}'`);
+        const ses = namespace.init();
+        ses.run(() => {
+            namespace.set(ctx.context);
+            if (dispatched.message.type === "command") {
+                this.commands.delete(ctx.invocationId);
+                this.handleCommandError(err, dispatched.message.data, dispatched.invocation as CommandInvocation, ctx,
+                    result => result.then(r => dispatched.result.resolve(r)));
+            } else {
+                this.events.delete(ctx.invocationId);
+                this.handleEventError(err, dispatched.message.data, dispatched.invocation as EventFired<any>, ctx,
+                    result => result.then(r => dispatched.result.resolve(r)));
+            }
+        });
+    }
+
+    private inFlight(worker: number): Array<Dispatched<any>> {
+        const inFlight: Array<Dispatched<any>> = [];
+        this.commands.forEach(d => d.worker === worker ? inFlight.push(d) : undefined);
+        this.events.forEach(d => d.worker === worker ? inFlight.push(d) : undefined);
+        return inFlight;
+    }
+
+    private assignWorker(message: MasterMessage): cluster.Worker {
+        const workers = this.load().filter(w => w.online && !w.draining && this.workers.get(w.id).worker.isConnected());
+        if (workers.length === 0) {
+            return undefined;
         }
-        return workers[Math.floor(Math.random() * workers.length)];
+        const assigned = this.scheduler.assignWorker(message, workers, this.automations.automations);
+        return assigned ? this.workers.get(assigned.id).worker : undefined;
+    }
+
+    private load(): WorkerLoad[] {
+        const load: WorkerLoad[] = [];
+        this.workers.forEach(state => load.push({
+            id: state.worker.id,
+            pid: state.worker.process ? state.worker.process.pid : undefined,
+            online: state.online,
+            draining: state.draining,
+            inFlight: this.inFlight(state.worker.id).length,
+            invocations: state.invocations,
+            memory: state.memory,
+        }));
+        return load;
     }
 }
 
+interface WorkerState {
+
+    worker: cluster.Worker;
+
+    /**
+     * Timestamp in milliseconds the worker was forked
+     */
+    started: number;
+    online: boolean;
+    draining: boolean;
+    invocations: number;
+
+    /**
+     * Number of consecutive crashes of the workers this one replaced, determining the restart delay
+     */
+    restarts: number;
+
+    /**
+     * Resident memory in bytes as last reported by the worker
+     */
+    memory?: number;
+}
+
 class Dispatched<T> {
 
-    constructor(public result: Deferred<T>, public context: HandlerContext) { }
+    public worker: number;
+    public redispatches: number = 0;
+
+    constructor(public result: Deferred<T>,
+                public context: HandlerContext & AutomationContextAware,
+                public message: MasterMessage,
+                public invocation: CommandInvocation | EventFired<any>) { }
 }
 
 function hydrateContext(msg: WorkerMessage): HandlerContext {
@@ -1,5 +1,7 @@
 import { SlackMessage } from "@atomist/slack-messages/SlackMessages";
 import * as stringify from "json-stringify-safe";
+import * as serializeError from "serialize-error";
+import { invocationTracker } from "../../../globals";
 import { EventFired } from "../../../HandleEvent";
 import {
     AutomationContextAware,
@@ -16,11 +18,14 @@ import {
     Destination,
     MessageClient,
     MessageOptions,
+    messageReference,
 } from "../../../spi/message/MessageClient";
 import { MessageClientSupport } from "../../../spi/message/MessageClientSupport";
 import { CommandInvocation } from "../../invoker/Payload";
-import { Deferred } from "../../util/Deferred";
-import { logger } from "../../util/logger";
+import {
+    logger,
+    setLogLevels,
+} from "../../util/logger";
 import {
     gc,
     heapDump,
@@ -28,15 +33,23 @@ import {
 import { registerShutdownHook } from "../../util/shutdown";
 import { guid } from "../../util/string";
 import { AbstractRequestProcessor } from "../AbstractRequestProcessor";
+import { drainAndReport } from "../InvocationTracker";
 import {
     CommandIncoming,
     EventIncoming,
     RequestProcessor,
 } from "../RequestProcessor";
 import { GraphClientFactory } from "../websocket/GraphClientFactory";
-import { WebSocketClientOptions } from "../websocket/WebSocketClient";
+import {
+    drainTimeout,
+    WebSocketClientOptions,
+} from "../websocket/WebSocketClient";
 import { RegistrationConfirmation } from "../websocket/WebSocketRequestProcessor";
-import { MasterMessage, workerSend } from "./messages";
+import {
+    MasterMessage,
+    WorkerMessage,
+    workerSend,
+} from "./messages";
 
 /**
  * A RequestProcessor that is being run as Node.JS Cluster worker handling all the actual work.
@@ -54,27 +67,12 @@ class ClusterWorkerRequestProcessor extends AbstractRequestProcessor {
                 private _listeners: AutomationEventListener[] = []) {
         super(_automations, [..._listeners, new ClusterWorkerAutomationEventListener()]);
         workerSend({ type: "online", context: null });
-        registerShutdownHook(() => {
-
-            if (this._options.termination && this._options.termination.graceful === true) {
-                logger.info("Initiating worker shutdown");
-
-                // Now wait for configured timeout to let in-flight messages finish processing
-                const deferred = new Deferred<number>();
-                setTimeout(() => {
-                    logger.info("Closing worker");
-                    deferred.resolve(0);
-                }, (this._options.termination.gracePeriod || 60000) + 2500);
-
-                return deferred.promise
-                    .then(code => {
-                        return code;
-                    });
-            } else {
+        // Workers finish the invocations already dispatched to them before they exit
+        registerShutdownHook(() => drainAndReport(invocationTracker(), drainTimeout(this._options))
+            .then(() => {
                 logger.info("Closing worker");
-                return Promise.resolve(0);
-            }
-        });
+                return 0;
+            }), 0);
     }
 
     public setRegistration(registration: RegistrationConfirmation) {
@@ -107,6 +105,33 @@ class ClusterWorkerRequestProcessor extends AbstractRequestProcessor {
         return new ClusterWorkerMessageClient(event, context);
     }
 
+    protected createDryRunMessageClient(event: EventIncoming | CommandIncoming,
+                                        context: AutomationContextAware): MessageClient {
+        // Messages of dry-run replays are captured in the master
+        return this.createMessageClient(event, context);
+    }
+
+    protected deadLetter(event: EventIncoming, err: any, handlers?: string[]): Promise<any> {
+        // Failed events are kept in the master
+        return workerSend({
+            type: "dead_letter",
+            context: null,
+            data: {
+                event,
+                error: serializeError(err),
+                handlers,
+            },
+        });
+    }
+
+    /**
+     * Workers only receive invocations the master already accepted; they keep processing them even when
+     * the worker itself is shutting down.
+     */
+    protected rejectInvocations(): boolean {
+        return false;
+    }
+
     protected setupNamespace(request: any,
                              automations: AutomationServer,
                              invocationId: string = guid(),
@@ -134,14 +159,15 @@ class ClusterWorkerMessageClient extends MessageClientSupport {
                 destinations,
                 options,
             },
-        });
+        })
+            .then(() => messageReference(options, Array.isArray(destinations) ? destinations : [destinations]));
     }
 }
 
 class ClusterWorkerAutomationEventListener extends AutomationEventListenerSupport {
 
     public commandSuccessful(payload: CommandInvocation, ctx: HandlerContext, result: HandlerResult): Promise<any> {
-        return workerSend({
+        return this.send({
             type: "command_success",
             event: payload,
             context: (ctx as any).context,
@@ -150,7 +176,7 @@ class ClusterWorkerAutomationEventListener extends AutomationEventListenerSuppor
     }
 
     public commandFailed(payload: CommandInvocation, ctx: HandlerContext, err: any): Promise<any> {
-        return workerSend({
+        return this.send({
             type: "command_failure",
             event: payload,
             context: (ctx as any).context,
@@ -159,7 +185,7 @@ class ClusterWorkerAutomationEventListener extends AutomationEventListenerSuppor
     }
 
     public eventSuccessful(payload: EventFired<any>, ctx: HandlerContext, result: HandlerResult[]): Promise<any> {
-        return workerSend({
+        return this.send({
             type: "event_success",
             event: payload,
             context: (ctx as any).context,
@@ -168,7 +194,7 @@ class ClusterWorkerAutomationEventListener extends AutomationEventListenerSuppor
     }
 
     public eventFailed(payload: EventFired<any>, ctx: HandlerContext, err: any): Promise<any> {
-        return workerSend({
+        return this.send({
             type: "event_failure",
             event: payload,
             context: (ctx as any).context,
@@ -176,6 +202,11 @@ class ClusterWorkerAutomationEventListener extends AutomationEventListenerSuppor
         });
     }
 
+    private send(message: WorkerMessage): Promise<any> {
+        return workerSend(message)
+            // Report memory usage after every invocation so that the master can recycle leaking workers
+            .then(() => workerSend({ type: "stats", context: null, data: { memory: process.memoryUsage() } }));
+    }
 }
 
 /**
@@ -201,6 +232,8 @@ export function startWorker(automations: AutomationServer,
             gc();
         } else if (msg.type === "heapdump") {
             heapDump();
+        } else if (msg.type === "log_levels") {
+            setLogLevels(msg.data);
         }
     });
     return worker;
@@ -12,11 +12,13 @@ export interface MasterMessage {
 }
 
 export interface MasterManagementMessage {
-    type: "gc" | "heapdump";
+    type: "gc" | "heapdump" | "log_levels";
+    data?: any;
 }
 
 export interface WorkerMessage {
-    type: "online" | "status" | "message" | "command_success" | "command_failure" | "event_success" | "event_failure";
+    type: "online" | "status" | "message" | "command_success" | "command_failure" | "event_success" | "event_failure"
+        | "dead_letter" | "stats";
     event?: EventFired<any> | CommandInvocation;
     context: AutomationContext;
     data?: any;
@@ -0,0 +1,155 @@
+import * as crypto from "crypto";
+import * as _ from "lodash";
+import { MappedParameters } from "../../../decorators";
+import { Automations } from "../../metadata/metadata";
+import { MasterMessage } from "./messages";
+
+/**
+ * Load of a single cluster worker
+ */
+export interface WorkerLoad {
+
+    id: number;
+    pid: number;
+    online: boolean;
+
+    /**
+     * True if the worker is being recycled and doesn't accept new invocations
+     */
+    draining: boolean;
+
+    /**
+     * Number of invocations currently running in the worker
+     */
+    inFlight: number;
+
+    /**
+     * Total number of invocations dispatched to the worker
+     */
+    invocations: number;
+
+    /**
+     * Resident memory in bytes as last reported by the worker
+     */
+    memory?: number;
+}
+
+/**
+ * Strategy to pick the worker that runs an incoming command or event.
+ */
+export interface WorkerScheduler {
+
+    /**
+     * Select a worker for the invocation.
+     * @param {MasterMessage} message the message that will be sent to the worker
+     * @param {WorkerLoad[]} workers all workers ready to accept invocations; never empty
+     * @param {Automations} automations metadata of the automations handling the invocation
+     * @returns {WorkerLoad}
+     */
+    assignWorker(message: MasterMessage, workers: WorkerLoad[], automations: Automations): WorkerLoad;
+}
+
+/**
+ * Extract the key invocations are kept sticky on; invocations with the same key run on the same worker
+ */
+export type StickyKey = (message: MasterMessage, automations: Automations) => string;
+
+/**
+ * Pick a random worker
+ */
+export const RandomScheduler: WorkerScheduler = {
+    assignWorker(message: MasterMessage, workers: WorkerLoad[]): WorkerLoad {
+        return workers[Math.floor(Math.random() * workers.length)];
+    },
+};
+
+/**
+ * Pick the worker with the fewest in-flight invocations
+ */
+export const LeastLoadedScheduler: WorkerScheduler = {
+    assignWorker(message: MasterMessage, workers: WorkerLoad[]): WorkerLoad {
+        const min = _.minBy(workers, w => w.inFlight).inFlight;
+        const candidates = workers.filter(w => w.inFlight === min);
+        return candidates[Math.floor(Math.random() * candidates.length)];
+    },
+};
+
+/**
+ * Stick invocations to the worker selected by rendezvous hashing of the key. Workers keep receiving the same keys
+ * as long as they are running so that caches like the clones of the CachingDirectoryManager get reused.
+ * @param {StickyKey} key
+ * @returns {WorkerScheduler}
+ */
+export function stickyScheduler(key: StickyKey = teamKey): WorkerScheduler {
+    return {
+        assignWorker(message: MasterMessage, workers: WorkerLoad[], automations: Automations): WorkerLoad {
+            const k = key(message, automations) || "";
+            return _.maxBy(workers, w => crypto.createHash("md5").update(`${k}:${w.id}`).digest().readUInt32BE(0));
+        },
+    };
+}
+
+/**
+ * Key invocations on their team id
+ */
+export function teamKey(message: MasterMessage): string {
+    return message.context ? message.context.teamId : undefined;
+}
+
+/**
+ * Key invocations on the repository they are about: the GitHub owner and repository mapped parameters of commands
+ * or the first repo found in the event data. Falls back to the team id.
+ */
+export function repoKey(message: MasterMessage, automations: Automations): string {
+    let repo: string;
+    if (message.type === "command") {
+        const command = automations.commands.find(c => c.name === message.data.command);
+        const value = (uri: string) => {
+            const mp = (command ? command.mapped_parameters || [] : []).find(p => p.uri === uri);
+            const param = mp ? (message.data.mapped_parameters || []).find(p => p.name === mp.name) : undefined;
+            return param ? param.value : undefined;
+        };
+        const owner = value(MappedParameters.GitHubOwner);
+        const name = value(MappedParameters.GitHubRepository);
+        repo = owner && name ? `${owner}/${name}` : undefined;
+    } else if (message.type === "event") {
+        repo = findRepo(message.data.data);
+    }
+    return repo || teamKey(message);
+}
+
+export type WorkerSchedulerName = "random" | "least-loaded" | "sticky-team" | "sticky-repo";
+
+/**
+ * Select the scheduler configured by name
+ * @param {WorkerSchedulerName | WorkerScheduler} scheduler
+ * @returns {WorkerScheduler}
+ */
+export function resolveScheduler(scheduler: WorkerSchedulerName | WorkerScheduler): WorkerScheduler {
+    if (!scheduler || scheduler === "random") {
+        return RandomScheduler;
+    } else if (scheduler === "least-loaded") {
+        return LeastLoadedScheduler;
+    } else if (scheduler === "sticky-team") {
+        return stickyScheduler(teamKey);
+    } else if (scheduler === "sticky-repo") {
+        return stickyScheduler(repoKey);
+    }
+    return scheduler;
+}
+
+function findRepo(data: any): string {
+    if (!data || typeof data !== "object") {
+        return undefined;
+    }
+    if (data.repo && data.repo.owner && data.repo.name) {
+        return `${data.repo.owner}/${data.repo.name}`;
+    }
+    for (const value of _.values(data)) {
+        const repo = findRepo(Array.isArray(value) ? value[0] : value);
+        if (repo) {
+            return repo;
+        }
+    }
+    return undefined;
+}
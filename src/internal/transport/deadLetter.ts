@@ -0,0 +1,23 @@
+import { HandlerResult } from "../../HandlerResult";
+import { DeadLetter } from "../../spi/event/DeadLetterStore";
+import { Deferred } from "../util/Deferred";
+import { logger } from "../util/logger";
+import { RequestProcessor } from "./RequestProcessor";
+
+/**
+ * Process a dead-lettered event again. Only the event handlers that failed are invoked.
+ * The event keeps its correlation id; if it fails again, it ends up as new entry in the {DeadLetterStore}.
+ * @param {DeadLetter} entry the entry as removed from the DeadLetterStore
+ * @param {RequestProcessor} processor
+ * @returns {Promise<HandlerResult[]>}
+ */
+export function retryDeadLetter(entry: DeadLetter,
+                                processor: RequestProcessor): Promise<HandlerResult[]> {
+    logger.info("Retrying dead-lettered event subscription '%s' with correlation id '%s'",
+        entry.event.extensions.operationName, entry.event.extensions.correlation_id);
+
+    const deferred = new Deferred<HandlerResult[]>();
+    const event = entry.handlers ? { ...entry.event, handlers: entry.handlers } : entry.event;
+    processor.processEvent(event, results => results.then(r => deferred.resolve(r), err => deferred.reject(err)));
+    return deferred.promise;
+}
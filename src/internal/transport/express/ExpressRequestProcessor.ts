@@ -4,6 +4,7 @@ import { ApolloGraphClient } from "../../../graph/ApolloGraphClient";
 import {
     AutomationContextAware,
     HandlerContext,
+    Identity,
 } from "../../../HandlerContext";
 import { AutomationEventListener } from "../../../server/AutomationEventListener";
 import { AutomationServer } from "../../../server/AutomationServer";
@@ -12,14 +13,17 @@ import {
     Destination,
     MessageClient,
     MessageOptions,
+    messageReference,
 } from "../../../spi/message/MessageClient";
 import { MessageClientSupport } from "../../../spi/message/MessageClientSupport";
+import { ConsoleMessageClient } from "../../message/ConsoleMessageClient";
 import * as namespace from "../../util/cls";
 import { logger } from "../../util/logger";
 import { AbstractRequestProcessor } from "../AbstractRequestProcessor";
 import {
     CommandIncoming,
     EventIncoming,
+    isDryRun,
 } from "../RequestProcessor";
 import { ExpressServerOptions } from "./ExpressServer";
 
@@ -33,7 +37,8 @@ export class ExpressRequestProcessor extends AbstractRequestProcessor {
                 private payload: CommandIncoming,
                 protected automations: AutomationServer,
                 protected listeners: AutomationEventListener[] = [],
-                private options: ExpressServerOptions) {
+                private options: ExpressServerOptions,
+                private user?: Identity) {
         super(automations, listeners);
     }
 
@@ -41,13 +46,19 @@ export class ExpressRequestProcessor extends AbstractRequestProcessor {
                              code: number,
                              request: CommandIncoming,
                              ctx: HandlerContext & AutomationContextAware) {
-        if (success) {
+        if (isDryRun(request)) {
+            return Promise.resolve();
+        } else if (success) {
             return raiseEvent(`Successfully invoked ${request.command}`, request, "success");
         } else {
             return raiseEvent(`Unsuccessfully invoked ${request.command}`, request, "failure");
         }
     }
 
+    protected identity(command: CommandIncoming): Identity {
+        return this.user;
+    }
+
     protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
         return Promise.resolve();
     }
@@ -61,6 +72,12 @@ export class ExpressRequestProcessor extends AbstractRequestProcessor {
 
     protected createMessageClient(event: EventIncoming | CommandIncoming,
                                   context: AutomationContextAware): MessageClient {
+        // Events fired from webhooks come without a command payload; as there is no Atomist connection
+        // to send their messages through, they are only logged. Destinations with a registered
+        // DestinationSender still get their messages delivered directly.
+        if (!this.payload) {
+            return new ConsoleMessageClient();
+        }
         return new ExpressMessageClient(this.payload);
     }
 }
@@ -74,7 +91,8 @@ class ExpressMessageClient extends MessageClientSupport {
     protected doSend(msg: string | SlackMessage,
                      destinations: Destination | Destination[],
                      options?: MessageOptions): Promise<any> {
-        return raiseEvent(msg, this.payload, "message");
+        return raiseEvent(msg, this.payload, "message")
+            .then(() => messageReference(options, Array.isArray(destinations) ? destinations : [destinations]));
     }
 }
 
@@ -12,21 +12,74 @@ import { CommandHandlerMetadata } from "../../../metadata/automationMetadata";
 import { AutomationEventListener } from "../../../server/AutomationEventListener";
 import { AutomationServer } from "../../../server/AutomationServer";
 import { ExpressCustomizer } from "../../../server/options";
+import { EventStoreQuery } from "../../../spi/event/EventStore";
 import {
     health,
     HealthStatus,
 } from "../../util/health";
 import { info } from "../../util/info";
-import { logger } from "../../util/logger";
+import {
+    logger,
+    logLevels,
+    setLogLevels,
+} from "../../util/logger";
 import {
     gc,
     heapDump,
 } from "../../util/memory";
-import { metrics } from "../../util/metric";
+import {
+    increment,
+    metrics,
+} from "../../util/metric";
+import {
+    incrementCounter,
+    prometheusMetrics,
+} from "../../util/prometheus";
 import { guid } from "../../util/string";
-import { CommandIncoming } from "../RequestProcessor";
+import { retryDeadLetter } from "../deadLetter";
+import { InvocationHistory } from "../InvocationHistory";
+import { serverSentEvent } from "../InvocationStream";
+import {
+    replayCommand,
+    replayEvent,
+    ReplayOptions,
+} from "../replay";
+import {
+    CommandIncoming,
+    RequestProcessor,
+} from "../RequestProcessor";
 import { prepareRegistration } from "../websocket/payloads";
+import {
+    AdminScope,
+    apiKeyIdentity,
+    isAuthorized,
+} from "./auth";
+import { dashboard } from "./dashboard";
 import { ExpressRequestProcessor } from "./ExpressRequestProcessor";
+import {
+    isJobOwner,
+    Job,
+    JobStore,
+} from "./jobs";
+import {
+    jwtIdentity,
+    JwtOptions,
+    verifyJwt,
+} from "./jwt";
+import {
+    commandPath,
+    openApiDocument,
+    openApiUi,
+    openApiUiAssets,
+} from "./openapi";
+import {
+    RateLimiter,
+    RateLimitOptions,
+} from "./rateLimit";
+import {
+    verifyWebhookSignature,
+    webhookEvents,
+} from "./webhook";
 
 /**
  * Registers an endpoint for every automation and exposes
@@ -34,13 +87,19 @@ import { ExpressRequestProcessor } from "./ExpressRequestProcessor";
  */
 export class ExpressServer {
 
+    private jobs: JobStore;
+    private rateLimiter: RateLimiter;
+
     constructor(private automations: AutomationServer,
                 private listeners: AutomationEventListener[] = [],
                 private options: ExpressServerOptions) {
 
         const exp = express();
+        this.jobs = new JobStore(this.options.jobs ? this.options.jobs.retention : undefined);
+        this.rateLimiter = this.options.rateLimit ? new RateLimiter(this.options.rateLimit) : undefined;
 
-        exp.use(bodyParser.json());
+        // Keep the raw body around to verify signatures of inbound webhooks
+        exp.use(bodyParser.json({ verify: (req, res, buf) => (req as any).rawBody = buf }));
         exp.use(require("helmet")());
 
         exp.use(passport.initialize());
@@ -55,7 +114,8 @@ export class ExpressServer {
         exp.get(`${ApiBase}/health`, cors(),
             (req, res) => {
                 const h = health();
-                res.status(h.status === HealthStatus.Up ? 200 : 500).json(h);
+                res.status(h.status === HealthStatus.Up ? 200
+                    : (h.status === HealthStatus.OutOfService ? 503 : 500)).json(h);
             });
 
         exp.get(`${ApiBase}/info`, cors(), this.adminRoute, this.authenticate,
@@ -73,6 +133,11 @@ export class ExpressServer {
                 res.json(metrics());
             });
 
+        exp.get(`${ApiBase}/metrics/prometheus`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                res.type("text/plain; version=0.0.4").send(prometheusMetrics());
+            });
+
         exp.put(`${ApiBase}/memory/gc`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
                 gc();
@@ -87,17 +152,110 @@ export class ExpressServer {
 
         exp.get(`${ApiBase}/log/events`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
-                res.json(globals.eventStore().events(req.query.from));
+                res.json(globals.eventStore().events(fromQuery(req), eventStoreQuery(req)));
             });
 
         exp.get(`${ApiBase}/log/commands`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
-                res.json(globals.eventStore().commands(req.query.from));
+                res.json(globals.eventStore().commands(fromQuery(req), eventStoreQuery(req)));
             });
 
         exp.get(`${ApiBase}/log/messages`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
-                res.json(globals.eventStore().messages(req.query.from));
+                res.json(globals.eventStore().messages(fromQuery(req), eventStoreQuery(req)));
+            });
+
+        exp.get(`${ApiBase}/log/stream`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                res.status(200).set({
+                    "Content-Type": "text/event-stream",
+                    "Cache-Control": "no-cache",
+                    "Connection": "keep-alive",
+                });
+                res.flushHeaders();
+
+                const unsubscribe = globals.invocationStream().subscribe({
+                    operation: req.query.handler as string,
+                    teamId: req.query.team as string,
+                    correlationId: req.query.correlation_id as string,
+                }, e => res.write(serverSentEvent(e)));
+                const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), StreamKeepAlive);
+                req.on("close", () => {
+                    clearInterval(keepAlive);
+                    unsubscribe();
+                });
+            });
+
+        exp.get(`${ApiBase}/log/levels`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                res.json(logLevels());
+            });
+
+        exp.put(`${ApiBase}/log/levels`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                try {
+                    setLogLevels(req.body);
+                    res.json(logLevels());
+                } catch (err) {
+                    res.status(400).json({ message: err.message });
+                }
+            });
+
+        if (this.options.dashboard && this.options.dashboard.enabled) {
+            const history = new InvocationHistory(globals.invocationStream());
+
+            exp.get(`${ApiBase}/log/invocations`, cors(), this.adminRoute, this.authenticate,
+                (req, res) => {
+                    res.json(history.invocations(req.query.correlation_id as string));
+                });
+
+            exp.get(`${ApiBase}/dashboard`, cors(), this.adminRoute, this.authenticate,
+                (req, res) => {
+                    res.type("html").send(dashboard(
+                        `${automations.automations.name}@${automations.automations.version}`, ApiBase));
+                });
+        }
+
+        exp.get(`${ApiBase}/openapi.json`, cors(), this.authenticate,
+            (req, res) => {
+                res.json(openApiDocument(automations.automations, ApiBase, this.options.auth));
+            });
+
+        exp.get(`${ApiBase}/api-docs`, cors(), this.authenticate,
+            (req, res) => {
+                res.type("html").send(openApiUi(automations.automations.name, `${ApiBase}/openapi.json`,
+                    `${ApiBase}/api-docs/assets`));
+            });
+
+        exp.use(`${ApiBase}/api-docs/assets`, express.static(openApiUiAssets(), { index: false }));
+
+        exp.get(`${ApiBase}/jobs`, cors(), this.authenticate,
+            (req, res) => {
+                res.json(this.jobs.list().filter(job => isJobOwner(job, req.user ? req.user.identity : undefined)));
+            });
+
+        exp.get(`${ApiBase}/jobs/:id`, cors(), this.authenticate,
+            (req, res) => {
+                const job = this.ownedJob(req);
+                if (!job) {
+                    res.sendStatus(404);
+                    return;
+                }
+                res.json(job);
+            });
+
+        exp.delete(`${ApiBase}/jobs/:id`, cors(), this.authenticate,
+            (req, res) => {
+                const job = this.ownedJob(req);
+                if (!job) {
+                    res.sendStatus(404);
+                    return;
+                } else if (job.finished) {
+                    res.status(409).json({ message: `Job '${job.id}' already ${job.status}` });
+                    return;
+                }
+                this.jobs.cancel(job.id, "Cancelled via HTTP")
+                    .then(cancelled => res.json(cancelled));
             });
 
         exp.get(`${ApiBase}/series/events`, cors(), this.adminRoute, this.authenticate,
@@ -110,10 +268,120 @@ export class ExpressServer {
                 res.json(globals.eventStore().commandSeries());
             });
 
+        exp.post(`${ApiBase}/replay/commands/:id`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const command = globals.eventStore().findCommand(req.params.id);
+                if (!command) {
+                    res.sendStatus(404);
+                    return;
+                }
+                const processor = this.options.requestProcessor
+                    || new ExpressRequestProcessor(req.user ? req.user.token : undefined, command,
+                        this.automations, this.listeners, this.options);
+                replayCommand(command, processor, replayOptions(req))
+                    .then(result => res.json(result), err => res.status(500).json({ message: err.message }));
+            });
+
+        exp.post(`${ApiBase}/replay/events/:id`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const event = globals.eventStore().findEvent(req.params.id);
+                if (!event) {
+                    res.sendStatus(404);
+                    return;
+                }
+                const ro = replayOptions(req);
+                if (!this.options.requestProcessor && !ro.dryRun) {
+                    res.status(400).json({ message: "Events can only be replayed as dry-run without WebSocket connection" });
+                    return;
+                }
+                const processor = this.options.requestProcessor
+                    || new ExpressRequestProcessor(req.user ? req.user.token : undefined, null,
+                        this.automations, this.listeners, this.options);
+                replayEvent(event, processor, ro)
+                    .then(result => res.json(result), err => res.status(500).json({ message: err.message }));
+            });
+
+        exp.get(`${ApiBase}/deadletter/events`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                if (!globals.deadLetterStore()) {
+                    res.sendStatus(404);
+                    return;
+                }
+                res.json(globals.deadLetterStore().list());
+            });
+
+        exp.get(`${ApiBase}/deadletter/events/:id`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const entry = globals.deadLetterStore() ? globals.deadLetterStore().find(req.params.id) : undefined;
+                if (!entry) {
+                    res.sendStatus(404);
+                    return;
+                }
+                res.json(entry);
+            });
+
+        exp.post(`${ApiBase}/deadletter/events/:id/retry`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                if (!this.options.requestProcessor) {
+                    res.status(400).json({ message: "Events can only be retried with WebSocket connection" });
+                    return;
+                }
+                const entry = globals.deadLetterStore() ? globals.deadLetterStore().remove(req.params.id) : undefined;
+                if (!entry) {
+                    res.sendStatus(404);
+                    return;
+                }
+                retryDeadLetter(entry, this.options.requestProcessor)
+                    .then(result => res.json({ id: entry.id, result }),
+                        err => res.status(500).json({ message: err.message }));
+            });
+
+        exp.delete(`${ApiBase}/deadletter/events/:id`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const entry = globals.deadLetterStore() ? globals.deadLetterStore().remove(req.params.id) : undefined;
+                if (!entry) {
+                    res.sendStatus(404);
+                    return;
+                }
+                logger.info("Discarded dead-lettered event subscription '%s' with correlation id '%s'",
+                    entry.event.extensions.operationName, entry.event.extensions.correlation_id);
+                res.sendStatus(204);
+            });
+
+        if (this.options.webhook && this.options.webhook.enabled) {
+            exp.post(`${ApiBase}/webhook/:name`, cors(), this.accepting, this.verifyWebhook,
+                (req, res) => {
+                    const teamIds = this.automations.automations.team_ids || [];
+                    if (teamIds.length === 0) {
+                        res.status(400).json({ message: "Webhook events can only be fired for a configured team" });
+                        return;
+                    }
+                    const events = webhookEvents(req.params.name, req.body, this.automations.automations, teamIds[0]);
+                    if (events.length === 0) {
+                        res.status(404).json({ message: `No event handler subscribed to '${req.params.name}'` });
+                        return;
+                    }
+
+                    const processor = this.options.requestProcessor
+                        || new ExpressRequestProcessor(undefined, null, this.automations, this.listeners, this.options);
+                    events.forEach(e => {
+                        logger.info("Firing event subscription '%s' from webhook with correlation id '%s'",
+                            e.extensions.operationName, e.extensions.correlation_id);
+                        processor.processEvent(e, results => results.catch(err =>
+                            logger.warn("Event subscription '%s' fired from webhook failed: %s",
+                                e.extensions.operationName, err.message)));
+                    });
+                    res.status(202).json(events.map(e => ({
+                        operation_name: e.extensions.operationName,
+                        correlation_id: e.extensions.correlation_id,
+                    })));
+                });
+        }
+
         automations.automations.commands.forEach(
             h => {
                 this.exposeCommandHandlerInvocationRoute(exp,
-                    `${ApiBase}/command/${_.kebabCase(h.name)}`, h, cors,
+                    `${ApiBase}${commandPath(h)}`, h, cors,
                     (req, res, result) => {
                         if (result.redirect && !req.get("x-atomist-no-redirect")) {
                             res.redirect(result.redirect);
@@ -159,7 +427,7 @@ export class ExpressServer {
                                                 cors,
                                                 handle: (req, res, result) => any) {
 
-        exp.post(url, cors(), this.authenticate,
+        exp.post(url, cors(), this.authenticate, this.authorized(h.name), this.accepting, this.rateLimited(h.name),
             (req, res) => {
                 const id = this.automations.automations.team_ids
                     ? this.automations.automations.team_ids[0] : "Txxxxxxxx";
@@ -176,16 +444,10 @@ export class ExpressServer {
                     ...req.body,
                 };
 
-                const token = req.user ? req.user.token : undefined;
-                const handler = new ExpressRequestProcessor(token, payload,
-                    this.automations, this.listeners, this.options);
-
-                handler.processCommand(payload, result => {
-                    result.then(r => handle(req, res, r));
-                });
+                this.invokeCommand(req, res, payload, handle);
             });
 
-        exp.get(url, this.authenticate,
+        exp.get(url, this.authenticate, this.authorized(h.name), this.accepting, this.rateLimited(h.name),
             (req, res) => {
                 const parameters = h.parameters.filter(p => {
                     const value = req.query[p.name];
@@ -226,14 +488,32 @@ export class ExpressServer {
                     },
                 };
 
-                const token = req.user ? req.user.token : undefined;
-                const handler = new ExpressRequestProcessor(token, payload,
-                    this.automations, this.listeners, this.options);
+                this.invokeCommand(req, res, payload, handle);
+            });
+    }
+
+    /**
+     * Invoke the command and respond with its result, or, if asynchronous execution was requested
+     * with async=true or a Prefer: respond-async header, respond with the job running the command
+     */
+    private invokeCommand(req, res, payload: CommandIncoming, handle: (req, res, result) => any) {
+        const token = req.user ? req.user.token : undefined;
+        const identity = req.user ? req.user.identity : undefined;
+
+        if (req.query.async === "true" || /respond-async/.test(req.get("prefer") || "")) {
+            const job = this.jobs.create(payload, identity);
+            const processor = new ExpressRequestProcessor(token, payload,
+                this.automations, [...this.listeners, this.jobs.listener(job.id)], this.options, identity);
+            processor.processCommand(payload, result => this.jobs.complete(job.id, result));
+            res.status(202).location(`${ApiBase}/jobs/${job.id}`).json(job);
+        } else {
+            const handler = new ExpressRequestProcessor(token, payload,
+                this.automations, this.listeners, this.options, identity);
 
-                handler.processCommand(payload, result => {
-                    result.then(r => handle(req, res, r));
-                });
+            handler.processCommand(payload, result => {
+                result.then(r => handle(req, res, r));
             });
+        }
     }
 
     private setupAuthentication() {
@@ -245,7 +525,7 @@ export class ExpressServer {
             passport.use(new http.BasicStrategy(
                 (username, password, done) => {
                     if (user === username && pwd === password) {
-                        done(null, { user: username });
+                        done(null, { user: username, identity: { name: username, via: "basic", scopes: [] } });
                     } else {
                         done(null, false);
                     }
@@ -290,7 +570,7 @@ export class ExpressServer {
                             }
                         })
                         .then(user => {
-                            done(null, { token, user });
+                            done(null, { token, user, identity: { name: user.login, via: "github", scopes: [] } });
                         })
                         .catch(err => {
                             console.log(err);
@@ -299,6 +579,58 @@ export class ExpressServer {
                 },
             ));
         }
+
+        if (this.options.auth && this.options.auth.jwt && this.options.auth.jwt.enabled) {
+            const options = this.options.auth.jwt;
+
+            passport.use("jwt", new bearer.Strategy({
+                passReqToCallback: true,
+            } as IStrategyOptions,
+                (req, token, done) => {
+                    try {
+                        const identity = jwtIdentity(verifyJwt(token, options), options);
+                        if (!isAuthorized(identity, req.__admin)) {
+                            logger.debug("Rejected JWT of '%s' without '%s' scope for admin route", identity.name, AdminScope);
+                            done(null, false);
+                            return;
+                        }
+                        done(null, { identity });
+                    } catch (err) {
+                        logger.debug("Rejected JWT: %s", err.message);
+                        done(null, false);
+                    }
+                },
+            ));
+        }
+
+        if (this.options.auth && this.options.auth.apiKey && this.options.auth.apiKey.enabled) {
+            const keys = this.options.auth.apiKey.keys || {};
+
+            passport.use("apikey", new bearer.Strategy({
+                passReqToCallback: true,
+            } as IStrategyOptions,
+                (req, token, done) => {
+                    const identity = apiKeyIdentity(token, keys);
+                    if (identity && !isAuthorized(identity, req.__admin)) {
+                        logger.debug("Rejected API key '%s' without '%s' scope for admin route", identity.name, AdminScope);
+                        done(null, false);
+                    } else if (identity) {
+                        done(null, { identity });
+                    } else {
+                        done(null, false);
+                    }
+                },
+            ));
+        }
+    }
+
+    /**
+     * Job with the id of the request path if it was started by the authenticated user;
+     * jobs of other users are reported as not found
+     */
+    private ownedJob(req): Job {
+        const job = this.jobs.find(req.params.id);
+        return job && isJobOwner(job, req.user ? req.user.identity : undefined) ? job : undefined;
     }
 
     private adminRoute = (req, res, next) => {
@@ -306,9 +638,76 @@ export class ExpressServer {
         next();
     }
 
+    private accepting = (req, res, next) => {
+        if (globals.invocationTracker().draining) {
+            res.status(503).json({ message: "Not accepting invocations during shutdown" });
+        } else {
+            next();
+        }
+    }
+
+    private verifyWebhook = (req, res, next) => {
+        const webhook = this.options.webhook;
+        const secret = webhook.secrets && webhook.secrets[req.params.name]
+            ? webhook.secrets[req.params.name] : webhook.secret;
+        if (verifyWebhookSignature(secret, req.headers, req.rawBody)) {
+            next();
+        } else {
+            logger.warn("Rejected webhook '%s' with missing or invalid signature", req.params.name);
+            res.status(401).json({ message: "Missing or invalid webhook signature" });
+        }
+    }
+
+    private authorized = (name: string) => (req, res, next) => {
+        const required = this.options.auth && this.options.auth.scopes ? this.options.auth.scopes[name] || [] : [];
+        const identity = req.user ? req.user.identity : undefined;
+        const missing = required.filter(scope => !identity || identity.scopes.indexOf(scope) < 0);
+        if (missing.length === 0) {
+            next();
+        } else {
+            res.status(403).json({ message: `Missing scopes '${missing.join(", ")}' to invoke command '${name}'` });
+        }
+    }
+
+    private rateLimited = (name: string) => (req, res, next) => {
+        if (!this.rateLimiter) {
+            next();
+            return;
+        }
+
+        const user = _.get(req, "user.identity.name") || req.ip;
+        const decision = this.rateLimiter.take(user, name);
+        if (decision.limit !== undefined) {
+            res.set("X-RateLimit-Limit", String(decision.limit));
+            res.set("X-RateLimit-Remaining", String(decision.remaining));
+        }
+        if (decision.allowed) {
+            next();
+            return;
+        }
+
+        const retryAfter = Math.ceil(decision.retryAfter / 1000);
+        increment(`rate_limit.${decision.scope}.rejected`);
+        incrementCounter("atomist_http_rate_limited_total",
+            "Number of HTTP command handler invocations rejected by rate limits", { handler: name, scope: decision.scope });
+        logger.debug("Rate limited invocation of '%s' by '%s' on %s limit", name, user, decision.scope);
+        res.set("Retry-After", String(retryAfter)).status(429).json({
+            message: `Rate limit of ${decision.scope} exceeded for command '${name}'; retry in ${retryAfter}s`,
+            scope: decision.scope,
+            retry_after: decision.retryAfter,
+        });
+    }
+
     private authenticate = (req, res, next) => {
         if (this.options.auth) {
+            // Try the strategies that verify locally before asking GitHub about a bearer token
             const strategies = [];
+            if (this.options.auth.apiKey && this.options.auth.apiKey.enabled === true) {
+                strategies.push("apikey");
+            }
+            if (this.options.auth.jwt && this.options.auth.jwt.enabled === true) {
+                strategies.push("jwt");
+            }
             if (this.options.auth.bearer && this.options.auth.bearer.enabled === true) {
                 strategies.push("bearer");
             }
@@ -328,6 +727,36 @@ export class ExpressServer {
 
 const ApiBase = "";
 
+/**
+ * Interval in milliseconds of comments sent to keep idle event streams open
+ */
+const StreamKeepAlive = 15000;
+
+function toNumber(value: any): number {
+    const n = parseInt(value, 10);
+    return isNaN(n) ? undefined : n;
+}
+
+function fromQuery(req: express.Request): number {
+    return toNumber(req.query.from);
+}
+
+function replayOptions(req: express.Request): ReplayOptions {
+    const body = req.body || {};
+    return {
+        dryRun: body.dry_run === true || req.query.dry_run === "true",
+        secrets: body.secrets,
+    };
+}
+
+function eventStoreQuery(req: express.Request): EventStoreQuery {
+    return {
+        to: toNumber(req.query.to),
+        offset: toNumber(req.query.offset),
+        limit: toNumber(req.query.limit),
+    };
+}
+
 export interface ExpressServerOptions {
 
     port: number;
@@ -344,8 +773,29 @@ export interface ExpressServerOptions {
             org?: string;
             adminOrg?: string;
         },
+        jwt?: JwtOptions & {
+            enabled: boolean;
+        };
+        apiKey?: {
+            enabled: boolean;
+            keys: { [name: string]: { key: string, scopes?: string[] } };
+        };
+        scopes?: { [name: string]: string[] };
+    };
+    webhook?: {
+        enabled: boolean;
+        secret?: string;
+        secrets?: { [name: string]: string };
+    };
+    jobs?: {
+        retention?: number;
+    };
+    dashboard?: {
+        enabled: boolean;
     };
+    rateLimit?: RateLimitOptions;
     endpoint: {
         graphql: string;
     };
+    requestProcessor?: RequestProcessor;
 }
@@ -0,0 +1,34 @@
+import * as _ from "lodash";
+import { Identity } from "../../../HandlerContext";
+import { safeEquals } from "../../util/string";
+
+/**
+ * Scope JWTs and API keys need to be granted to access admin routes
+ */
+export const AdminScope = "admin";
+
+/**
+ * Resolve the identity of the API key matching the given bearer token.
+ * @param {string} token bearer token of the request
+ * @param {{[p: string]: {key: string; scopes?: string[]}}} keys configured API keys by name
+ * @returns {Identity} identity of the matching key or undefined if no key matches
+ */
+export function apiKeyIdentity(token: string,
+                               keys: { [name: string]: { key: string, scopes?: string[] } }): Identity {
+    const name = _.findKey(keys || {}, k => safeEquals(k.key, token));
+    return name ? { name, via: "apikey", scopes: keys[name].scopes || [] } : undefined;
+}
+
+/**
+ * Is the given identity allowed to access a route?
+ * Admin routes require the identity to be granted the admin scope; all other routes accept any identity.
+ * @param {Identity} identity identity resolved from a JWT or API key
+ * @param {boolean} admin true if the requested route is an admin route
+ * @returns {boolean}
+ */
+export function isAuthorized(identity: Identity, admin: boolean): boolean {
+    if (!identity) {
+        return false;
+    }
+    return admin !== true || (identity.scopes || []).indexOf(AdminScope) >= 0;
+}
@@ -0,0 +1,126 @@
+import * as _ from "lodash";
+
+/**
+ * HTML page of the operator dashboard. The page charts the command and event series, lists the
+ * registered handlers and the recent invocations by polling the admin endpoints mounted at base.
+ * @param {string} title
+ * @param {string} base path the admin endpoints are mounted at
+ * @returns {string}
+ */
+export function dashboard(title: string, base: string = ""): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${_.escape(title)}</title>
+    <style>
+        body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 2em; color: #333; }
+        h1 { font-weight: normal; }
+        section { margin-bottom: 2em; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+        .charts { display: flex; }
+        .chart { flex: 1; margin-right: 2em; }
+        .chart rect { fill: #5a9bd4; }
+        .success { color: #2e7d32; }
+        .failure { color: #c62828; }
+        .running { color: #999; }
+        .messages { font-size: smaller; color: #666; }
+    </style>
+</head>
+<body>
+<h1>${_.escape(title)}</h1>
+<section class="charts">
+    <div class="chart"><h2>Commands</h2><svg id="commands" width="100%" height="120"></svg></div>
+    <div class="chart"><h2>Events</h2><svg id="events" width="100%" height="120"></svg></div>
+</section>
+<section>
+    <h2>Recent Invocations</h2>
+    <table>
+        <thead><tr><th>Started</th><th>Type</th><th>Handler</th><th>Team</th><th>Outcome</th><th>Duration</th>
+        <th>Correlation Id</th></tr></thead>
+        <tbody id="invocations"></tbody>
+    </table>
+</section>
+<section>
+    <h2>Command Handlers</h2>
+    <table><tbody id="commandHandlers"></tbody></table>
+</section>
+<section>
+    <h2>Event Handlers</h2>
+    <table><tbody id="eventHandlers"></tbody></table>
+</section>
+<script>
+    var base = ${JSON.stringify(base)};
+
+    function get(path) {
+        return fetch(base + path, { credentials: "same-origin" }).then(function (res) { return res.json(); });
+    }
+
+    function escape(value) {
+        var div = document.createElement("div");
+        div.textContent = value === undefined || value === null ? "" : String(value);
+        return div.innerHTML;
+    }
+
+    function chart(id, series) {
+        var values = series[0] || [];
+        var max = Math.max.apply(null, [1].concat(values));
+        var width = 100 / Math.max(values.length, 1);
+        document.getElementById(id).innerHTML = values.map(function (v, i) {
+            var height = 100 * v / max;
+            return '<rect x="' + (i * width) + '%" y="' + (100 - height) + '%" width="' + (width * 0.8)
+                + '%" height="' + height + '%"><title>' + v + " at " + new Date(series[1][i] * 1000).toLocaleTimeString()
+                + '</title></rect>';
+        }).join("");
+    }
+
+    function outcome(i) {
+        if (!i.finished) {
+            return '<span class="running">running</span>';
+        }
+        return i.code === 0 ? '<span class="success">success</span>'
+            : '<span class="failure">failure ' + escape(i.error || "code " + i.code) + "</span>";
+    }
+
+    function refresh() {
+        get("/series/commands").then(function (s) { chart("commands", s); });
+        get("/series/events").then(function (s) { chart("events", s); });
+        get("/log/invocations").then(function (invocations) {
+            document.getElementById("invocations").innerHTML = invocations.map(function (i) {
+                var messages = i.messages.map(function (m) {
+                    return "<div>" + escape(typeof m.message === "string" ? m.message : JSON.stringify(m.message)) + "</div>";
+                }).join("");
+                return "<tr><td>" + new Date(i.started).toLocaleString() + "</td><td>" + i.type + "</td><td>"
+                    + escape(i.operation) + '<div class="messages">' + messages + "</div></td><td>" + escape(i.team_id)
+                    + "</td><td>" + outcome(i) + "</td><td>" + (i.finished ? i.duration + "ms" : "") + "</td>"
+                    + '<td><a href="' + base + "/log/invocations?correlation_id=" + encodeURIComponent(i.correlation_id)
+                    + '">' + escape(i.correlation_id) + "</a></td></tr>";
+            }).join("");
+        });
+    }
+
+    get("/registration").then(function (registration) {
+        document.getElementById("commandHandlers").innerHTML = registration.commands.map(function (c) {
+            return "<tr><td>" + escape(c.name) + "</td><td>" + escape(c.description) + "</td><td>"
+                + escape((c.intent || []).join(", ")) + "</td></tr>";
+        }).join("");
+        document.getElementById("eventHandlers").innerHTML = registration.events.map(function (e) {
+            var name = /subscription\\s+(\\w+)/.exec(e.subscription);
+            return "<tr><td>" + escape(name ? name[1] : "") + "</td><td><code>" + escape(e.subscription)
+                + "</code></td></tr>";
+        }).join("");
+    });
+
+    refresh();
+    setInterval(refresh, ${DashboardRefresh});
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Interval in milliseconds the dashboard polls for new data
+ */
+const DashboardRefresh = 10000;
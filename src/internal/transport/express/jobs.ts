@@ -0,0 +1,201 @@
+import {
+    HandlerContext,
+    Identity,
+} from "../../../HandlerContext";
+import { HandlerResult } from "../../../HandlerResult";
+import {
+    AutomationEventListener,
+    AutomationEventListenerSupport,
+} from "../../../server/AutomationEventListener";
+import {
+    Destination,
+    MessageOptions,
+} from "../../../spi/message/MessageClient";
+import { CommandInvocation } from "../../invoker/Payload";
+import { CapturedMessage } from "../../message/CapturingMessageClient";
+import { redactDestinations } from "../../message/redaction";
+import { logger } from "../../util/logger";
+import { guid } from "../../util/string";
+import { CommandIncoming } from "../RequestProcessor";
+
+export type JobStatus = "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * Command invocation running asynchronously to the HTTP request that started it.
+ */
+export interface Job {
+    id: string;
+    command: string;
+    correlation_id: string;
+
+    /**
+     * pending while waiting for a free invocation slot, running once the handler has been invoked
+     */
+    status: JobStatus;
+
+    /**
+     * Timestamps in milliseconds
+     */
+    created: number;
+    started?: number;
+    finished?: number;
+
+    result?: HandlerResult;
+
+    /**
+     * Messages sent by the command handler so far
+     */
+    messages: CapturedMessage[];
+
+    /**
+     * Authenticated user that started the job; undefined if the request wasn't authenticated
+     */
+    owner?: {
+        name: string;
+        via: string;
+    };
+}
+
+/**
+ * Only the user that started a job may see and cancel it. Jobs started without authentication
+ * are visible to everyone.
+ * @param {Job} job
+ * @param {Identity} identity authenticated user of the request
+ * @returns {boolean}
+ */
+export function isJobOwner(job: Job, identity: Identity): boolean {
+    return !job.owner || (!!identity && identity.name === job.owner.name && identity.via === job.owner.via);
+}
+
+interface JobEntry {
+    job: Job;
+    ctx?: HandlerContext;
+}
+
+/**
+ * Keeps track of asynchronous command invocations. Jobs are evicted once the retention
+ * period after their completion has passed.
+ */
+export class JobStore {
+
+    private jobs: Map<string, JobEntry> = new Map();
+
+    constructor(private retention: number = DefaultJobRetention) {
+    }
+
+    public create(command: CommandIncoming, identity?: Identity): Job {
+        const job: Job = {
+            id: guid(),
+            command: command.command,
+            correlation_id: command.correlation_id,
+            status: "pending",
+            created: Date.now(),
+            messages: [],
+            owner: identity ? { name: identity.name, via: identity.via } : undefined,
+        };
+        this.jobs.set(job.id, { job });
+        return job;
+    }
+
+    public find(id: string): Job {
+        const entry = this.jobs.get(id);
+        return entry ? entry.job : undefined;
+    }
+
+    public list(): Job[] {
+        return Array.from(this.jobs.values()).map(e => e.job);
+    }
+
+    /**
+     * Listener to register with the RequestProcessor running the job in order to track
+     * its progress and capture the messages it sends
+     * @param {string} id
+     * @returns {AutomationEventListener}
+     */
+    public listener(id: string): AutomationEventListener {
+        return new JobListener(this.jobs.get(id));
+    }
+
+    /**
+     * Record the result of the job once the invocation completes
+     * @param {string} id
+     * @param {Promise<HandlerResult>} result
+     */
+    public complete(id: string, result: Promise<HandlerResult>) {
+        const entry = this.jobs.get(id);
+        result
+            .catch(err => ({ code: 1, message: err.message }))
+            .then(r => {
+                entry.job.result = r;
+                if (entry.job.status !== "cancelled") {
+                    entry.job.status = r.code === 0 ? "succeeded" : "failed";
+                    this.finish(entry);
+                }
+            });
+    }
+
+    /**
+     * Cancel a pending or running job through the lifecycle of its HandlerContext.
+     * Jobs that already finished are returned unchanged.
+     * @param {string} id
+     * @param {string} reason
+     * @returns {Promise<Job>} undefined if there is no job with the given id
+     */
+    public cancel(id: string, reason: string): Promise<Job> {
+        const entry = this.jobs.get(id);
+        if (!entry) {
+            return Promise.resolve(undefined);
+        } else if (entry.job.finished) {
+            return Promise.resolve(entry.job);
+        }
+
+        const ctx = entry.ctx;
+        entry.job.status = "cancelled";
+        this.finish(entry);
+        const cancellation = ctx && ctx.lifecycle ? ctx.lifecycle.cancel(reason) : Promise.resolve();
+        return cancellation
+            .catch(err => logger.warn("Failed to cancel job '%s': %s", id, err.message))
+            .then(() => entry.job);
+    }
+
+    private finish(entry: JobEntry) {
+        entry.job.finished = Date.now();
+        entry.ctx = undefined;
+        setTimeout(() => this.jobs.delete(entry.job.id), this.retention).unref();
+    }
+}
+
+class JobListener extends AutomationEventListenerSupport {
+
+    constructor(private entry: JobEntry) {
+        super();
+    }
+
+    public contextCreated(context: HandlerContext) {
+        this.entry.ctx = context;
+    }
+
+    public commandStarting(payload: CommandInvocation, ctx: HandlerContext) {
+        if (this.entry.job.status === "pending") {
+            this.entry.job.status = "running";
+            this.entry.job.started = Date.now();
+        }
+    }
+
+    public messageSent(message: any,
+                       destinations: Destination | Destination[],
+                       options: MessageOptions,
+                       ctx: HandlerContext) {
+        this.entry.job.messages.push({
+            message,
+            destinations: redactDestinations(destinations),
+            options,
+            ts: Date.now(),
+        });
+    }
+}
+
+/**
+ * Keep finished jobs for one hour by default
+ */
+const DefaultJobRetention = 60 * 60 * 1000;
@@ -0,0 +1,266 @@
+import * as crypto from "crypto";
+import * as _ from "lodash";
+import { Identity } from "../../../HandlerContext";
+
+export interface JwtOptions {
+
+    /**
+     * Keys to verify token signatures keyed by key id: shared secrets for HS256, HS384 and HS512,
+     * PEM encoded RSA public keys for RS256, RS384 and RS512, or PEM encoded EC public keys on
+     * the P-256, P-384 and P-521 curves for ES256, ES384 and ES512.
+     * Tokens without kid header are verified with the only key if exactly one is configured.
+     */
+    keys: { [kid: string]: string };
+
+    /**
+     * Required value of the iss claim
+     */
+    issuer?: string;
+
+    /**
+     * Required value, or one of the values, of the aud claim
+     */
+    audience?: string;
+
+    /**
+     * Names of the claims carrying the user name and the granted scopes; default to sub and scope.
+     * Scopes can either be a space-separated string or an array.
+     */
+    claims?: {
+        name?: string;
+        scopes?: string;
+    };
+
+    /**
+     * Tolerated clock skew in seconds when checking exp and nbf
+     */
+    leeway?: number;
+}
+
+/**
+ * Verify signature and registered claims of a compact serialized JWT.
+ * @param {string} token
+ * @param {JwtOptions} options
+ * @param {number} now current time in milliseconds
+ * @returns {{[p: string]: any}} the claims of the verified token
+ * @throws Error if the token is malformed, its signature is invalid or any of its claims doesn't validate
+ */
+export function verifyJwt(token: string, options: JwtOptions, now: number = Date.now()): { [claim: string]: any } {
+    const parts = (token || "").split(".");
+    if (parts.length !== 3) {
+        throw new Error("Malformed JWT");
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+        header = JSON.parse(base64UrlDecode(parts[0]).toString("utf8"));
+        claims = JSON.parse(base64UrlDecode(parts[1]).toString("utf8"));
+    } catch (err) {
+        throw new Error("Malformed JWT");
+    }
+
+    const keys = options.keys || {};
+    const kids = Object.keys(keys);
+    const key = header.kid ? keys[header.kid] : (kids.length === 1 ? keys[kids[0]] : undefined);
+    if (!key) {
+        throw new Error(`No key to verify JWT with kid '${header.kid}'`);
+    }
+    if (!verifySignature(header.alg, key, `${parts[0]}.${parts[1]}`, base64UrlDecode(parts[2]))) {
+        throw new Error("Invalid JWT signature");
+    }
+
+    const seconds = Math.floor(now / 1000);
+    const leeway = options.leeway || 0;
+    if (claims.exp !== undefined && seconds > claims.exp + leeway) {
+        throw new Error("JWT expired");
+    }
+    if (claims.nbf !== undefined && seconds < claims.nbf - leeway) {
+        throw new Error("JWT not yet valid");
+    }
+    if (options.issuer && claims.iss !== options.issuer) {
+        throw new Error(`JWT issuer '${claims.iss}' not accepted`);
+    }
+    if (options.audience && _.flatten([claims.aud]).indexOf(options.audience) < 0) {
+        throw new Error(`JWT audience '${claims.aud}' not accepted`);
+    }
+    return claims;
+}
+
+/**
+ * Map the claims of a verified JWT to the user identity
+ * @param {{[p: string]: any}} claims
+ * @param {JwtOptions} options
+ * @returns {Identity}
+ */
+export function jwtIdentity(claims: { [claim: string]: any }, options: JwtOptions): Identity {
+    const nameClaim = options.claims && options.claims.name ? options.claims.name : "sub";
+    const scopesClaim = options.claims && options.claims.scopes ? options.claims.scopes : "scope";
+    const scopes = claims[scopesClaim];
+    return {
+        name: claims[nameClaim],
+        via: "jwt",
+        scopes: typeof scopes === "string" ? scopes.split(" ").filter(s => s.length > 0) : (scopes || []),
+        claims,
+    };
+}
+
+function verifySignature(alg: string, key: string, input: string, signature: Buffer): boolean {
+    const algorithm = Algorithms.hasOwnProperty(alg) ? Algorithms[alg] : undefined;
+    if (!algorithm) {
+        return false;
+    }
+
+    // Only verify signatures with keys of the type the algorithm calls for: never HMAC signatures with a
+    // public key, public key signatures with a shared secret, RSA signatures with EC keys or ES256 with a P-384 key
+    if (keyType(key) !== algorithm.key) {
+        return false;
+    }
+
+    if (algorithm.key === "secret") {
+        const expected = crypto.createHmac(algorithm.hash, key).update(input).digest();
+        return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+    }
+
+    try {
+        const verifier = crypto.createVerify(algorithm.hash).update(input);
+        if (algorithm.key === "RSA") {
+            return verifier.verify(key, signature);
+        }
+        const der = ecdsaSignatureToDer(signature, CurveSizes[algorithm.key]);
+        return !!der && verifier.verify(key, der);
+    } catch (err) {
+        return false;
+    }
+}
+
+/**
+ * Determine the type of a configured key: a shared secret, an RSA public key or an EC public key on one of the
+ * curves supported by JWS. Returns undefined for PEM encoded keys of other types.
+ * @param {string} key
+ * @returns {string}
+ */
+function keyType(key: string): string {
+    const pem = /^-----BEGIN ([A-Z ]+)-----([\s\S]*?)-----END \1-----$/.exec(key.trim());
+    if (!pem) {
+        return key.trim().startsWith("-----") ? undefined : "secret";
+    }
+    if (pem[1] === "RSA PUBLIC KEY") {
+        return "RSA";
+    }
+    if (pem[1] !== "PUBLIC KEY") {
+        return undefined;
+    }
+
+    // SubjectPublicKeyInfo ::= SEQUENCE { algorithm SEQUENCE { algorithm OID, parameters ANY }, subjectPublicKey BIT STRING }
+    try {
+        const der = Buffer.from(pem[2].replace(/\s/g, ""), "base64");
+        const spki = readDer(der, 0, 0x30);
+        const algorithm = readDer(der, spki.start, 0x30);
+        const oid = readDer(der, algorithm.start, 0x06);
+        const id = der.slice(oid.start, oid.end).toString("hex");
+        if (id === RsaEncryption) {
+            return "RSA";
+        } else if (id === EcPublicKey) {
+            const curve = readDer(der, oid.end, 0x06);
+            return Curves[der.slice(curve.start, curve.end).toString("hex")];
+        }
+    } catch (err) {
+        // Not a well-formed key
+    }
+    return undefined;
+}
+
+/**
+ * Read the header of the DER encoded element at the given offset
+ * @returns {{start: number; end: number}} offsets of the element's content
+ * @throws Error if the element doesn't have the expected tag or exceeds the buffer
+ */
+function readDer(der: Buffer, offset: number, tag: number): { start: number, end: number } {
+    if (der[offset] !== tag) {
+        throw new Error(`Expected DER tag ${tag} at offset ${offset}`);
+    }
+    let length = der[offset + 1];
+    let start = offset + 2;
+    if (length >= 0x80) {
+        const bytes = length - 0x80;
+        if (bytes === 0 || bytes > 4) {
+            throw new Error("Unsupported DER length");
+        }
+        length = 0;
+        for (let i = 0; i < bytes; i++) {
+            length = length * 256 + der[start + i];
+        }
+        start += bytes;
+    }
+    if (start + length > der.length) {
+        throw new Error("DER element exceeds buffer");
+    }
+    return { start, end: start + length };
+}
+
+/**
+ * JWS encodes ECDSA signatures as the fixed-size concatenation r || s while crypto.Verify expects
+ * a DER encoded ECDSA-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER }.
+ * @param {Buffer} signature JWS signature
+ * @param {number} size size of r and s in bytes
+ * @returns {Buffer} DER encoded signature, or undefined if the signature doesn't have the expected size
+ */
+function ecdsaSignatureToDer(signature: Buffer, size: number): Buffer {
+    if (signature.length !== 2 * size) {
+        return undefined;
+    }
+    const r = derInteger(signature.slice(0, size));
+    const s = derInteger(signature.slice(size));
+    return Buffer.from([0x30, ...derLength(r.length + s.length), ...r, ...s]);
+}
+
+function derInteger(value: Buffer): number[] {
+    let offset = 0;
+    while (offset < value.length - 1 && value[offset] === 0) {
+        offset++;
+    }
+    // Integers are signed: prefix a zero byte to keep values with the high bit set positive
+    const bytes = value[offset] >= 0x80 ? [0, ...value.slice(offset)] : [...value.slice(offset)];
+    return [0x02, ...derLength(bytes.length), ...bytes];
+}
+
+function derLength(length: number): number[] {
+    return length < 0x80 ? [length] : [0x81, length];
+}
+
+function base64UrlDecode(value: string): Buffer {
+    return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+const Algorithms: { [alg: string]: { hash: string, key: string } } = {
+    HS256: { hash: "sha256", key: "secret" },
+    HS384: { hash: "sha384", key: "secret" },
+    HS512: { hash: "sha512", key: "secret" },
+    RS256: { hash: "RSA-SHA256", key: "RSA" },
+    RS384: { hash: "RSA-SHA384", key: "RSA" },
+    RS512: { hash: "RSA-SHA512", key: "RSA" },
+    ES256: { hash: "sha256", key: "P-256" },
+    ES384: { hash: "sha384", key: "P-384" },
+    ES512: { hash: "sha512", key: "P-521" },
+};
+
+/**
+ * Size in bytes of r and s of ECDSA signatures by curve
+ */
+const CurveSizes: { [curve: string]: number } = {
+    "P-256": 32,
+    "P-384": 48,
+    "P-521": 66,
+};
+
+/**
+ * Hex encoded OIDs of the key algorithms and named curves of SubjectPublicKeyInfo
+ */
+const RsaEncryption = "2a864886f70d010101";
+const EcPublicKey = "2a8648ce3d0201";
+const Curves: { [oid: string]: string } = {
+    "2a8648ce3d030107": "P-256",
+    "2b81040022": "P-384",
+    "2b81040023": "P-521",
+};
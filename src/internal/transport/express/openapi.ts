@@ -0,0 +1,314 @@
+import * as _ from "lodash";
+import {
+    Chooser,
+    CommandHandlerMetadata,
+    FreeChoices,
+    Parameter,
+} from "../../../metadata/automationMetadata";
+import { Automations } from "../../metadata/metadata";
+import { ExpressServerOptions } from "./ExpressServer";
+
+/**
+ * Subset of the OpenAPI 3 document structure produced for the command handler routes
+ */
+export interface OpenApiDocument {
+    openapi: string;
+    info: {
+        title: string;
+        version: string;
+        description?: string;
+    };
+    tags: Array<{ name: string, description?: string }>;
+    paths: { [path: string]: { [method: string]: any } };
+    components: {
+        schemas: { [name: string]: any };
+        securitySchemes: { [name: string]: any };
+    };
+    security: Array<{ [name: string]: string[] }>;
+}
+
+/**
+ * Path of the HTTP route invoking the given command handler
+ * @param {CommandHandlerMetadata} h
+ * @returns {string}
+ */
+export function commandPath(h: CommandHandlerMetadata): string {
+    return `/command/${_.kebabCase(h.name)}`;
+}
+
+/**
+ * Build the OpenAPI 3 document describing the GET and POST invocation routes of all command handlers.
+ * Parameters of GET requests are passed by name, mapped parameters prefixed with mp_ and secrets
+ * prefixed with s_ followed by the secret uri.
+ * @param {Automations} automations
+ * @param {string} base path the routes are mounted at
+ * @param auth authentication options of the HTTP server declaring the security schemes of the routes
+ * @returns {OpenApiDocument}
+ */
+export function openApiDocument(automations: Automations,
+                                base: string = "",
+                                auth?: ExpressServerOptions["auth"]): OpenApiDocument {
+    const securitySchemes = securitySchemesOf(auth);
+    const paths: { [path: string]: any } = {};
+    const tags: { [name: string]: { name: string, description?: string } } = {};
+
+    automations.commands.forEach(h => {
+        const operationTags = (h.tags || []).map(t => {
+            tags[t.name] = { name: t.name, description: t.description };
+            return t.name;
+        });
+        const operation = {
+            summary: h.description,
+            tags: operationTags,
+            responses: responses(),
+        };
+        operation[IntentExtension] = h.intent || [];
+
+        paths[`${base}${commandPath(h)}`] = {
+            get: {
+                ...operation,
+                operationId: `invoke${h.name}ByQuery`,
+                parameters: [
+                    ...(h.parameters || []).map(queryParameter),
+                    ...(h.mapped_parameters || []).map(mp => ({
+                        name: `mp_${mp.name}`,
+                        in: "query",
+                        required: mp.required,
+                        description: `Mapped parameter ${mp.uri}`,
+                        schema: { type: "string" },
+                    })),
+                    ...(h.secrets || []).map(s => ({
+                        name: `s_${s.uri}`,
+                        in: "query",
+                        required: false,
+                        description: `Secret ${s.uri} bound to ${s.name}`,
+                        schema: { type: "string", format: "password" },
+                    })),
+                    AsyncParameter,
+                ],
+            },
+            post: {
+                ...operation,
+                operationId: `invoke${h.name}`,
+                parameters: [AsyncParameter],
+                requestBody: {
+                    required: true,
+                    content: {
+                        "application/json": {
+                            schema: requestBody(h),
+                        },
+                    },
+                },
+            },
+        };
+    });
+
+    return {
+        openapi: "3.0.0",
+        info: {
+            title: automations.name,
+            version: automations.version,
+            description: `Command handlers of ${automations.name}@${automations.version}`,
+        },
+        tags: _.values(tags),
+        paths,
+        components: {
+            schemas: {
+                HandlerResult: {
+                    type: "object",
+                    properties: {
+                        code: { type: "integer", description: "0 for success" },
+                        message: { type: "string" },
+                        correlation_id: { type: "string" },
+                        invocation_id: { type: "string" },
+                    },
+                    required: ["code"],
+                },
+                Job: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                        command: { type: "string" },
+                        correlation_id: { type: "string" },
+                        status: { type: "string", enum: ["pending", "running", "succeeded", "failed", "cancelled"] },
+                        created: { type: "integer" },
+                        started: { type: "integer" },
+                        finished: { type: "integer" },
+                        result: { $ref: "#/components/schemas/HandlerResult" },
+                        messages: { type: "array", items: { type: "object" } },
+                    },
+                },
+                Error: {
+                    type: "object",
+                    properties: {
+                        message: { type: "string" },
+                    },
+                },
+            },
+            securitySchemes,
+        },
+        security: Object.keys(securitySchemes).map(name => ({ [name]: [] })),
+    };
+}
+
+/**
+ * Security schemes of the enabled authentication methods; any of them grants access
+ */
+function securitySchemesOf(auth: ExpressServerOptions["auth"]): { [name: string]: any } {
+    const schemes: { [name: string]: any } = {};
+    if (!auth) {
+        return schemes;
+    }
+    if (auth.basic && auth.basic.enabled) {
+        schemes.basic = { type: "http", scheme: "basic" };
+    }
+    if (auth.bearer && auth.bearer.enabled) {
+        schemes.github = { type: "http", scheme: "bearer", description: "GitHub token" };
+    }
+    if (auth.jwt && auth.jwt.enabled) {
+        schemes.jwt = { type: "http", scheme: "bearer", bearerFormat: "JWT" };
+    }
+    if (auth.apiKey && auth.apiKey.enabled) {
+        schemes.apiKey = { type: "http", scheme: "bearer", description: "API key" };
+    }
+    return schemes;
+}
+
+/**
+ * JSON schema of a parameter value honouring type, pattern, length and choices
+ */
+export function parameterSchema(p: Parameter): any {
+    let schema: any;
+    if (p.type === "number" || p.type === "boolean") {
+        schema = { type: p.type };
+    } else if (p.type === FreeChoices) {
+        schema = { type: "array", items: { type: "string" } };
+    } else if (p.type && typeof p.type === "object") {
+        const chooser = p.type as Chooser;
+        const choices = chooser.choices.map(c => c.value);
+        schema = chooser.pickOne
+            ? { type: "string", enum: choices }
+            : { type: "array", items: { type: "string", enum: choices }, uniqueItems: true };
+    } else {
+        schema = {
+            type: "string",
+            pattern: p.pattern,
+            minLength: p.min_length,
+            maxLength: p.max_length && p.max_length > 0 ? p.max_length : undefined,
+        };
+    }
+    return _.omitBy({
+        ...schema,
+        default: p.default_value,
+        description: p.valid_input,
+    }, _.isUndefined);
+}
+
+function queryParameter(p: Parameter): any {
+    return _.omitBy({
+        name: p.name,
+        in: "query",
+        required: p.required,
+        description: p.description,
+        schema: parameterSchema(p),
+        explode: (p.type && typeof p.type === "object") || p.type === FreeChoices ? true : undefined,
+    }, _.isUndefined);
+}
+
+function requestBody(h: CommandHandlerMetadata): any {
+    const named = (names: string[], key: string, description: string) => ({
+        type: "array",
+        description,
+        items: {
+            type: "object",
+            properties: {
+                [key]: names.length > 0 ? { type: "string", enum: names } : { type: "string" },
+                value: {},
+            },
+            required: [key, "value"],
+        },
+    });
+
+    const schema = {
+        type: "object",
+        properties: {
+            command: { type: "string", enum: [h.name] },
+            parameters: named((h.parameters || []).map(p => p.name), "name",
+                "Parameter values by name; see the query parameters of the GET route for the schema of each value"),
+            mapped_parameters: named((h.mapped_parameters || []).map(mp => mp.name), "name",
+                "Mapped parameter values by name"),
+            secrets: named((h.secrets || []).map(s => s.uri), "uri", "Secret values by uri"),
+        },
+        required: ["command"],
+    };
+    schema[ParametersExtension] = _.fromPairs((h.parameters || []).map(p => [p.name, parameterSchema(p)]));
+    return schema;
+}
+
+function responses(): any {
+    const json = (ref: string) => ({ "application/json": { schema: { $ref: `#/components/schemas/${ref}` } } });
+    return {
+        200: { description: "Command handler succeeded", content: json("HandlerResult") },
+        202: { description: "Job started for asynchronous invocation; see /jobs/{id}", content: json("Job") },
+        302: { description: "Redirect requested by the command handler" },
+        401: { description: "Authentication failed" },
+        403: { description: "Missing scopes required to invoke the command handler", content: json("Error") },
+        429: { description: "Rate limit exceeded; retry after the seconds given in the Retry-After header", content: json("Error") },
+        500: { description: "Command handler failed", content: json("HandlerResult") },
+        503: { description: "Not accepting invocations during shutdown", content: json("Error") },
+    };
+}
+
+/**
+ * HTML page rendering the OpenAPI document with Swagger UI
+ * @param {string} title
+ * @param {string} documentUrl
+ * @param {string} assetsUrl base url the files of the swagger-ui-dist package are served from
+ * @returns {string}
+ */
+export function openApiUi(title: string, documentUrl: string, assetsUrl: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${_.escape(title)}</title>
+    <link rel="stylesheet" href="${_.escape(assetsUrl)}/swagger-ui.css">
+</head>
+<body>
+<div id="swagger-ui"></div>
+<script src="${_.escape(assetsUrl)}/swagger-ui-bundle.js"></script>
+<script>
+    window.onload = function () {
+        SwaggerUIBundle({ url: ${JSON.stringify(documentUrl)}, dom_id: "#swagger-ui" });
+    };
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Directory of the Swagger UI files bundled with the swagger-ui-dist package
+ * @returns {string}
+ */
+export function openApiUiAssets(): string {
+    return require("swagger-ui-dist").getAbsoluteFSPath();
+}
+
+const AsyncParameter = {
+    name: "async",
+    in: "query",
+    required: false,
+    description: "Run the command handler as job and respond right away with the job",
+    schema: { type: "boolean" },
+};
+
+/**
+ * Vendor extension listing the intents of a command handler
+ */
+const IntentExtension = "x-atomist-intent";
+
+/**
+ * Vendor extension of the POST request body holding the schema of each parameter value by name
+ */
+const ParametersExtension = "x-atomist-parameters";
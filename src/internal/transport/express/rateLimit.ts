@@ -0,0 +1,183 @@
+import * as _ from "lodash";
+
+/**
+ * Allow limit requests per interval milliseconds, with bursts of up to limit requests.
+ */
+export interface RateLimit {
+    limit: number;
+
+    /**
+     * Defaults to one minute
+     */
+    interval?: number;
+}
+
+export interface RateLimitOptions {
+
+    /**
+     * Limit applied across all users and command handlers
+     */
+    global?: RateLimit;
+
+    /**
+     * Limit applied to every authenticated user individually; unauthenticated requests are
+     * limited by client address
+     */
+    user?: RateLimit;
+
+    /**
+     * Limits for individual command handlers keyed by handler name
+     */
+    handlers?: { [name: string]: RateLimit };
+}
+
+export type RateLimitScope = "global" | "user" | "handler";
+
+/**
+ * Outcome of taking a token for a request.
+ */
+export interface RateLimitDecision {
+    allowed: boolean;
+
+    /**
+     * Scope of the most restrictive limit, i.e. the one that rejected the request
+     */
+    scope?: RateLimitScope;
+    limit?: number;
+    remaining?: number;
+
+    /**
+     * Milliseconds until the request may be retried; 0 if allowed
+     */
+    retryAfter: number;
+}
+
+/**
+ * Bucket holding up to capacity tokens that refills continuously at the given rate.
+ */
+export class TokenBucket {
+
+    private tokens: number;
+    private last: number;
+
+    constructor(public readonly capacity: number,
+                private refillPerMs: number,
+                private clock: () => number = Date.now) {
+        this.tokens = capacity;
+        this.last = clock();
+    }
+
+    get available(): number {
+        this.refill();
+        return Math.floor(this.tokens);
+    }
+
+    get full(): boolean {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    /**
+     * Milliseconds until a token is available; 0 if one is available right now
+     */
+    public wait(): number {
+        this.refill();
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    }
+
+    public take() {
+        this.refill();
+        this.tokens -= 1;
+    }
+
+    private refill() {
+        const now = this.clock();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.last) * this.refillPerMs);
+        this.last = now;
+    }
+}
+
+/**
+ * Enforces global, per user and per command handler rate limits with in-memory token buckets.
+ * A request consumes a token from every applicable bucket, and only if all of them have one available.
+ */
+export class RateLimiter {
+
+    private global: TokenBucket;
+    private users: Map<string, TokenBucket> = new Map();
+    private handlers: Map<string, TokenBucket> = new Map();
+
+    constructor(private options: RateLimitOptions, private clock: () => number = Date.now) {
+        this.global = options.global ? bucket(options.global, clock) : undefined;
+    }
+
+    /**
+     * Take a token for a request by the given user to the given command handler
+     * @param {string} user
+     * @param {string} handler
+     * @returns {RateLimitDecision}
+     */
+    public take(user: string, handler: string): RateLimitDecision {
+        const buckets: Array<{ scope: RateLimitScope, bucket: TokenBucket }> = [];
+        if (this.global) {
+            buckets.push({ scope: "global", bucket: this.global });
+        }
+        if (this.options.user) {
+            buckets.push({ scope: "user", bucket: this.userBucket(user) });
+        }
+        if (this.options.handlers && this.options.handlers[handler]) {
+            if (!this.handlers.has(handler)) {
+                this.handlers.set(handler, bucket(this.options.handlers[handler], this.clock));
+            }
+            buckets.push({ scope: "handler", bucket: this.handlers.get(handler) });
+        }
+
+        if (buckets.length === 0) {
+            return { allowed: true, retryAfter: 0 };
+        }
+
+        const rejecting = _.maxBy(buckets.filter(b => b.bucket.wait() > 0), b => b.bucket.wait());
+        if (rejecting) {
+            return {
+                allowed: false,
+                scope: rejecting.scope,
+                limit: rejecting.bucket.capacity,
+                remaining: 0,
+                retryAfter: rejecting.bucket.wait(),
+            };
+        }
+
+        buckets.forEach(b => b.bucket.take());
+        const limiting = _.minBy(buckets, b => b.bucket.available);
+        return {
+            allowed: true,
+            scope: limiting.scope,
+            limit: limiting.bucket.capacity,
+            remaining: limiting.bucket.available,
+            retryAfter: 0,
+        };
+    }
+
+    private userBucket(user: string): TokenBucket {
+        if (!this.users.has(user)) {
+            if (this.users.size >= MaxUserBuckets) {
+                // Buckets that refilled completely carry no state worth keeping
+                this.users.forEach((b, u) => {
+                    if (b.full) {
+                        this.users.delete(u);
+                    }
+                });
+            }
+            this.users.set(user, bucket(this.options.user, this.clock));
+        }
+        return this.users.get(user);
+    }
+}
+
+function bucket(limit: RateLimit, clock: () => number): TokenBucket {
+    return new TokenBucket(limit.limit, limit.limit / (limit.interval || DefaultInterval), clock);
+}
+
+const DefaultInterval = 60 * 1000;
+
+const MaxUserBuckets = 10000;
@@ -0,0 +1,114 @@
+import * as crypto from "crypto";
+import * as _ from "lodash";
+import { rootType } from "../../../graph/graphQL";
+import { EventHandlerMetadata } from "../../../metadata/automationMetadata";
+import {
+    Automations,
+    isSubscribedTo,
+} from "../../metadata/metadata";
+import { logger } from "../../util/logger";
+import {
+    guid,
+    safeEquals,
+} from "../../util/string";
+import { EventIncoming } from "../RequestProcessor";
+
+/**
+ * Verify the signature of an inbound webhook request against the shared secret.
+ *
+ * Supported are GitHub's X-Hub-Signature-256 and X-Hub-Signature headers, the generic
+ * X-Atomist-Signature header carrying a sha256= or sha1= prefixed HMAC hex digest of the body,
+ * and GitLab's X-Gitlab-Token header which carries the secret itself.
+ * @param {string} secret
+ * @param {{[p: string]: string | string[]}} headers request headers with lower-case names
+ * @param {Buffer} body raw request body
+ * @returns {boolean}
+ */
+export function verifyWebhookSignature(secret: string,
+                                       headers: { [name: string]: string | string[] },
+                                       body: Buffer): boolean {
+    if (!secret) {
+        return false;
+    }
+
+    const token = header(headers, "x-gitlab-token");
+    if (token) {
+        return safeEquals(token, secret);
+    }
+
+    const signature = header(headers, "x-hub-signature-256")
+        || header(headers, "x-hub-signature")
+        || header(headers, "x-atomist-signature");
+    if (!signature || signature.indexOf("=") < 0) {
+        return false;
+    }
+
+    const algorithm = signature.slice(0, signature.indexOf("="));
+    if (algorithm !== "sha256" && algorithm !== "sha1") {
+        return false;
+    }
+    const digest = crypto.createHmac(algorithm, secret).update(body || Buffer.alloc(0)).digest("hex");
+    return safeEquals(signature, `${algorithm}=${digest}`);
+}
+
+/**
+ * Map the payload of an inbound webhook to the events to dispatch.
+ *
+ * If name is the root type of a registered ingester, the payload is wrapped as { [rootType]: [payload] }
+ * and fired for every subscription selecting that root type. Otherwise, if name is the subscription name
+ * of an event handler, the payload becomes the data of one event for that subscription.
+ * @param {string} name subscription name or ingester root type
+ * @param payload parsed request body
+ * @param {Automations} automations
+ * @param {string} teamId
+ * @returns {EventIncoming[]} empty if no event handler matches
+ */
+export function webhookEvents(name: string,
+                              payload: any,
+                              automations: Automations,
+                              teamId: string): EventIncoming[] {
+    const event = (operationName: string, data: any): EventIncoming => ({
+        data,
+        extensions: {
+            team_id: teamId,
+            operationName,
+            correlation_id: guid(),
+        },
+        secrets: [],
+    });
+
+    if ((automations.ingesters || []).some(i => ingesterRootType(i) === name)) {
+        return _.uniq(automations.events
+            .filter(eh => subscriptionRootType(eh) === name)
+            .map(eh => eh.subscriptionName))
+            .map(subscriptionName => event(subscriptionName, { [name]: [payload] }));
+    }
+
+    if (automations.events.some(eh => isSubscribedTo(eh, name))) {
+        return [event(name, payload)];
+    }
+
+    return [];
+}
+
+function ingesterRootType(ingester: any): string {
+    try {
+        return typeof ingester === "string" ? JSON.parse(ingester).root_type : ingester.root_type;
+    } catch (err) {
+        return undefined;
+    }
+}
+
+function subscriptionRootType(eh: EventHandlerMetadata): string {
+    try {
+        return rootType(eh.subscription);
+    } catch (err) {
+        logger.debug("Failed to read root type of subscription '%s': %s", eh.subscriptionName, err.message);
+        return undefined;
+    }
+}
+
+function header(headers: { [name: string]: string | string[] }, name: string): string {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
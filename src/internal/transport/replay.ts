@@ -0,0 +1,144 @@
+import * as _ from "lodash";
+import { HandlerResult } from "../../HandlerResult";
+import {
+    CapturedMessage,
+    CapturingMessageClient,
+} from "../message/CapturingMessageClient";
+import { Deferred } from "../util/Deferred";
+import { logger } from "../util/logger";
+import { guid } from "../util/string";
+import {
+    CommandIncoming,
+    EventIncoming,
+    isCommandIncoming,
+    Replay,
+    RequestProcessor,
+    Secret,
+} from "./RequestProcessor";
+
+export interface ReplayOptions {
+
+    /**
+     * Capture messages instead of sending them and don't report any status
+     */
+    dryRun?: boolean;
+
+    /**
+     * Secrets to pass to the handlers; values are not kept in the EventStore
+     */
+    secrets?: Secret[];
+}
+
+export interface ReplayResult {
+
+    /**
+     * Correlation id of the replayed invocation
+     */
+    correlation_id: string;
+
+    replay: Replay;
+
+    result: HandlerResult | HandlerResult[];
+
+    /**
+     * Messages sent during a dry-run
+     */
+    messages?: CapturedMessage[];
+}
+
+const Captures = new Map<string, CapturingMessageClient>();
+
+/**
+ * Re-submit a recorded command to the given RequestProcessor.
+ * The replayed command gets a new correlation id.
+ * @param {CommandIncoming} original the command as recorded in the EventStore
+ * @param {RequestProcessor} processor
+ * @param {ReplayOptions} options
+ * @returns {Promise<ReplayResult>}
+ */
+export function replayCommand(original: CommandIncoming,
+                              processor: RequestProcessor,
+                              options: ReplayOptions = {}): Promise<ReplayResult> {
+    const command: CommandIncoming = {
+        ..._.cloneDeep(original),
+        correlation_id: guid(),
+        secrets: options.secrets,
+        replay: {
+            correlation_id: original.correlation_id,
+            dry_run: options.dryRun === true,
+        },
+    };
+    logger.info("Replaying command '%s' with correlation id '%s' as '%s'",
+        command.command, original.correlation_id, command.correlation_id);
+
+    const deferred = new Deferred<HandlerResult>();
+    processor.processCommand(command, result => result.then(r => deferred.resolve(r), err => deferred.reject(err)));
+    return complete(command, command.correlation_id, deferred.promise);
+}
+
+/**
+ * Re-submit a recorded event to the given RequestProcessor.
+ * The replayed event gets a new correlation id.
+ * @param {EventIncoming} original the event as recorded in the EventStore
+ * @param {RequestProcessor} processor
+ * @param {ReplayOptions} options
+ * @returns {Promise<ReplayResult>}
+ */
+export function replayEvent(original: EventIncoming,
+                            processor: RequestProcessor,
+                            options: ReplayOptions = {}): Promise<ReplayResult> {
+    const event: EventIncoming = {
+        ..._.cloneDeep(original),
+        secrets: options.secrets,
+        replay: {
+            correlation_id: original.extensions.correlation_id,
+            dry_run: options.dryRun === true,
+        },
+    };
+    event.extensions.correlation_id = guid();
+    logger.info("Replaying event '%s' with correlation id '%s' as '%s'",
+        event.extensions.operationName, original.extensions.correlation_id, event.extensions.correlation_id);
+
+    const deferred = new Deferred<HandlerResult[]>();
+    processor.processEvent(event, results => results.then(r => deferred.resolve(r), err => deferred.reject(err)));
+    return complete(event, event.extensions.correlation_id, deferred.promise);
+}
+
+/**
+ * Get the MessageClient capturing messages of a dry-run replay.
+ * @param {EventIncoming | CommandIncoming} request
+ * @returns {CapturingMessageClient}
+ */
+export function replayMessageClient(request: EventIncoming | CommandIncoming): CapturingMessageClient {
+    const id = isCommandIncoming(request) ? request.correlation_id : request.extensions.correlation_id;
+    if (!Captures.has(id)) {
+        Captures.set(id, new CapturingMessageClient());
+    }
+    return Captures.get(id);
+}
+
+function complete(request: EventIncoming | CommandIncoming,
+                  correlationId: string,
+                  result: Promise<HandlerResult | HandlerResult[]>): Promise<ReplayResult> {
+    const messages = () => {
+        const messageClient = Captures.get(correlationId);
+        Captures.delete(correlationId);
+        return messageClient ? messageClient.messages : [];
+    };
+
+    return result
+        .then(r => {
+            const replayResult: ReplayResult = {
+                correlation_id: correlationId,
+                replay: request.replay,
+                result: r,
+            };
+            if (request.replay.dry_run) {
+                replayResult.messages = messages();
+            }
+            return replayResult;
+        }, err => {
+            messages();
+            throw err;
+        });
+}
@@ -1,5 +1,4 @@
 import * as stringify from "json-stringify-safe";
-import * as WebSocket from "ws";
 import * as global from "../../../globals";
 import {
     AutomationContextAware,
@@ -9,7 +8,6 @@ import { AutomationEventListener } from "../../../server/AutomationEventListener
 import { AutomationServer } from "../../../server/AutomationServer";
 import { GraphClient } from "../../../spi/graph/GraphClient";
 import { MessageClient } from "../../../spi/message/MessageClient";
-import { HealthStatus, registerHealthIndicator } from "../../util/health";
 import { logger } from "../../util/logger";
 import { AbstractRequestProcessor } from "../AbstractRequestProcessor";
 import {
@@ -24,6 +22,7 @@ import {
     sendMessage,
     WebSocketCommandMessageClient,
     WebSocketEventMessageClient,
+    WebSocketSender,
 } from "./WebSocketMessageClient";
 import {
     RegistrationConfirmation,
@@ -35,20 +34,12 @@ export class DefaultWebSocketRequestProcessor extends AbstractRequestProcessor
 
     private graphClients: GraphClientFactory;
     private registration?: RegistrationConfirmation;
-    private webSocket?: WebSocket;
+    private webSocket?: WebSocketSender;
 
     constructor(protected automations: AutomationServer,
                 protected options: WebSocketClientOptions,
                 protected listeners: AutomationEventListener[] = []) {
         super(automations, listeners);
-
-        registerHealthIndicator(() => {
-            if (this.webSocket && this.registration) {
-                return { status: HealthStatus.Up, detail: "WebSocket connection established" };
-            } else {
-                return { status: HealthStatus.Down, detail: "WebSocket disconnected" };
-            }
-        });
     }
 
     public onRegistration(registration: RegistrationConfirmation) {
@@ -58,14 +49,14 @@ export class DefaultWebSocketRequestProcessor extends AbstractRequestProcessor
         this.graphClients = new GraphClientFactory(this.registration, this.options);
     }
 
-    public onConnect(ws: WebSocket) {
+    public onConnect(ws: WebSocketSender) {
         logger.info("WebSocket connection established. Listening for incoming messages");
         this.webSocket = ws;
         this.listeners.forEach(l => l.registrationSuccessful(this));
     }
 
     public onDisconnect() {
-        this.webSocket = null;
+        // Keep the sender; it buffers messages until the connection is back
         this.registration = null;
     }
 
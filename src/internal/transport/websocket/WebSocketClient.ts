@@ -6,7 +6,12 @@ import * as serializeError from "serialize-error";
 import * as url from "url";
 import * as WebSocket from "ws";
 import * as zlib from "zlib";
+import { AutomationEventListener } from "../../../server/AutomationEventListener";
 import { Deferred } from "../../util/Deferred";
+import {
+    HealthStatus,
+    registerHealthIndicator,
+} from "../../util/health";
 import { logger } from "../../util/logger";
 import Timer = NodeJS.Timer;
 import { registerShutdownHook } from "../../util/shutdown";
@@ -17,76 +22,130 @@ import {
     isCommandIncoming,
     isEventIncoming,
 } from "../RequestProcessor";
-import { sendMessage } from "./WebSocketMessageClient";
+import {
+    sendMessage,
+    WebSocketSender,
+} from "./WebSocketMessageClient";
 import {
     RegistrationConfirmation,
     WebSocketRequestProcessor,
 } from "./WebSocketRequestProcessor";
 
-export class WebSocketClient {
+/**
+ * State of the connection to Atomist.
+ * A new client starts registering, then connecting and is connected once the WebSocket is open.
+ * A dropped connection is reconnecting until the backoff delay passed; it then registers and connects again.
+ * The connection is closed on shutdown.
+ */
+export type WebSocketState = "registering" | "connecting" | "connected" | "reconnecting" | "closed";
+
+export const DefaultReconnectOptions = {
+    initialDelay: 1000,
+    maxDelay: 60000,
+    jitter: 0.5,
+};
+
+export const DefaultBufferSize = 1000;
+
+/**
+ * Connection to Atomist that reconnects with exponential backoff and buffers outbound messages
+ * while disconnected. Request processors send their messages through the client so that messages
+ * of in-flight invocations survive a reconnect.
+ */
+export class WebSocketClient implements WebSocketSender {
+
+    private ws: WebSocket;
+    private currentState: WebSocketState;
+    private attempts: number = 0;
+    private reconnectTimer: Timer;
+    private buffer: string[] = [];
+    private connected = new Deferred<void>();
 
     public constructor(private registrationCallback: () => any,
                        private options: WebSocketClientOptions,
-                       private requestProcessor: WebSocketRequestProcessor) {
+                       private requestProcessor: WebSocketRequestProcessor,
+                       private listeners: AutomationEventListener[] = []) {
+        registerHealthIndicator(() => {
+            if (this.currentState === "connected") {
+                return { status: HealthStatus.Up, detail: "WebSocket connection established" };
+            } else {
+                return {
+                    status: HealthStatus.Down,
+                    detail: `WebSocket ${this.currentState || "disconnected"} with ${this.buffer.length} buffered messages`,
+                };
+            }
+        });
     }
 
-    public start(): Promise<void> {
+    get state(): WebSocketState {
+        return this.currentState;
+    }
 
-        const connection = register(this.registrationCallback, this.options, this.requestProcessor, 5)
-            .then(registration =>
-                connect(this.registrationCallback, registration, this.options, this.requestProcessor));
-        return connection.then(() => {
+    /**
+     * Number of outbound messages waiting for the connection to come back
+     */
+    get buffered(): number {
+        return this.buffer.length;
+    }
 
-            registerShutdownHook(() => {
-                reconnect = false;
-
-                if (this.options.termination && this.options.termination.graceful === true) {
-                    logger.info("Initiating WebSocket connection shutdown");
-
-                    // Now wait for configured timeout to let in-flight messages finish processing
-                    const deferred = new Deferred<number>();
-                    setTimeout(() => {
-                        ws.close();
-                        logger.info("Closing WebSocket connection");
-                        deferred.resolve(0);
-                    }, this.options.termination.gracePeriod || 60000);
-
-                    return deferred.promise
-                        .then(code => {
-                            return code;
-                        });
-                } else {
-                    ws.close();
-                    logger.info("Closing WebSocket connection");
-                    return Promise.resolve(0);
-                }
+    public start(): Promise<void> {
+        this.transition("registering");
+        register(this.registrationCallback, this.options, this.requestProcessor, 5)
+            .then(registration => this.connect(registration))
+            .catch(() => {
+                logger.error("Persistent error registering with Atomist. Exiting...");
+                process.exit(1);
             });
 
-        }).catch(() => {
-            logger.error("Persistent error registering with Atomist. Exiting...");
-            process.exit(1);
+        return this.connected.promise.then(() => {
+            // In-flight invocations have been drained by now; see drainTimeout
+            registerShutdownHook(() => {
+                this.close();
+                return Promise.resolve(0);
+            });
         });
     }
-}
-
-let reconnect = true;
-let ping = 0;
-let pong;
-let ws;
 
-function connect(registrationCallback: () => any, registration: RegistrationConfirmation,
-                 options: WebSocketClientOptions, requestProcessor: WebSocketRequestProcessor): Promise<WebSocket> {
+    /**
+     * Send the payload over the WebSocket or buffer it until the connection is back.
+     * Once the buffer is full, the oldest messages get dropped.
+     * @param {string} payload
+     */
+    public send(payload: string) {
+        if (this.currentState === "connected" && this.ws.readyState === WebSocket.OPEN) {
+            this.ws.send(payload);
+            return;
+        }
 
-    // Functions are inline to avoid "this" peculiarities
-    function invokeCommandHandler(chr: CommandIncoming) {
-        requestProcessor.processCommand(chr);
+        this.buffer.push(payload);
+        const size = this.options.bufferSize !== undefined ? this.options.bufferSize : DefaultBufferSize;
+        if (this.buffer.length > size) {
+            this.buffer.shift();
+            logger.warn("Outbound message buffer exceeded %s messages. Dropping oldest message", size);
+        }
     }
 
-    function invokeEventHandler(e: EventIncoming) {
-        requestProcessor.processEvent(e);
+    /**
+     * Close the connection without reconnecting
+     */
+    public close() {
+        this.transition("closed");
+        clearTimeout(this.reconnectTimer);
+        if (this.buffer.length > 0) {
+            logger.warn("Dropping %s buffered outbound messages", this.buffer.length);
+            this.buffer = [];
+        }
+        if (this.ws) {
+            this.ws.close();
+        }
+        logger.info("Closing WebSocket connection");
     }
 
-    return new Promise<WebSocket>(resolve => {
+    private connect(registration: RegistrationConfirmation) {
+        if (this.currentState === "closed") {
+            return;
+        }
+        this.transition("connecting");
 
         if (process.env.HTTPS_PROXY || process.env.https_proxy) {
             const proxy = process.env.HTTPS_PROXY || process.env.https_proxy;
@@ -97,24 +156,31 @@ function connect(registrationCallback: () => any, registration: RegistrationConf
                 port: +proxyOptions.port,
                 secureProxy: proxyOptions.protocol === "https" ? true : false,
             });
-            ws = new WebSocket(registration.url, { agent });
+            this.ws = new WebSocket(registration.url, { agent });
         } else {
             logger.info(`Opening WebSocket connection`);
-            ws = new WebSocket(registration.url);
+            this.ws = new WebSocket(registration.url);
         }
 
+        const ws = this.ws;
+        let ping = 0;
+        let pong = 0;
         let timer: Timer;
 
-        ws.on("open", function open() {
-            requestProcessor.onConnect(this);
-            resolve(ws);
+        ws.on("open", () => {
+            this.attempts = 0;
+            this.transition("connected");
+            this.requestProcessor.onConnect(this);
+            this.flush();
+            if (!this.connected.isResolved()) {
+                this.connected.resolve();
+            }
 
-            // Install ping/pong timer and shutdown hooks
+            // Install ping/pong timer
             timer = setInterval(() => {
                 if (pong + 1 < ping) {
-                    reset();
-                    ws.terminate();
                     logger.error("Missing ping/pong from the server. Closing WebSocket");
+                    ws.terminate();
                 } else {
                     sendMessage({ ping }, ws, false);
                     ping++;
@@ -122,9 +188,9 @@ function connect(registrationCallback: () => any, registration: RegistrationConf
             }, 10000);
         });
 
-        ws.on("message", function incoming(data: WebSocket.Data) {
+        ws.on("message", (data: WebSocket.Data) => {
 
-            function handleMessage(request: string) {
+            const handleMessage = (request: string) => {
                 try {
                     request = JSON.parse(request);
                 } catch (err) {
@@ -136,14 +202,14 @@ function connect(registrationCallback: () => any, registration: RegistrationConf
                     if (isPing(request)) {
                         sendMessage({ pong: request.ping }, ws, false);
                     } else if (isPong(request)) {
-                        pong = request.pong;
+                        pong = +request.pong;
                     } else if (isControl(request)) {
                         logger.info("WebSocket connection stopped listening for incoming messages");
                     } else {
                         if (isCommandIncoming(request)) {
-                            invokeCommandHandler(request);
+                            this.requestProcessor.processCommand(request);
                         } else if (isEventIncoming(request)) {
-                            invokeEventHandler(request);
+                            this.requestProcessor.processEvent(request);
                         } else {
                             logger.error(`Unknown message payload received: ${data}`);
                         }
@@ -151,9 +217,9 @@ function connect(registrationCallback: () => any, registration: RegistrationConf
                 } catch (err) {
                     console.error("Failed processing of message payload with: %s", JSON.stringify(serializeError(err)));
                 }
-            }
+            };
 
-            if (options.compress) {
+            if (this.options.compress) {
                 zlib.gunzip(data as Buffer, (err, result) => {
                     if (!err) {
                         handleMessage(result.toString());
@@ -167,28 +233,70 @@ function connect(registrationCallback: () => any, registration: RegistrationConf
             }
         });
 
+        ws.on("error", err => {
+            logger.warn("WebSocket connection failed: %s", err.message);
+        });
+
         // On close this websocket is meant to reconnect
-        ws.on("close", function close(code: number, message: string) {
+        ws.on("close", (code: number, message: string) => {
             if (code) {
                 logger.warn(`WebSocket connection closed with ${code}: ${message}`);
             } else {
                 logger.warn(`WebSocket connection closed`);
             }
-            reset();
+            clearInterval(timer);
+            this.requestProcessor.onDisconnect();
             // Only attempt to reconnect if we aren't shutting down
-            if (reconnect) {
-                register(registrationCallback, options, requestProcessor)
-                    .then(reg => connect(registrationCallback, reg, options, requestProcessor));
+            if (this.currentState !== "closed") {
+                this.reconnect();
             }
         });
+    }
 
-        function reset() {
-            requestProcessor.onDisconnect();
-            clearInterval(timer);
-            ping = 0;
-            pong = 0;
+    private reconnect() {
+        const delay = backoff(this.attempts++, { ...DefaultReconnectOptions, ...this.options.reconnect });
+        logger.info("Reconnecting WebSocket in %sms", delay);
+        this.transition("reconnecting");
+        this.reconnectTimer = setTimeout(() => {
+            this.transition("registering");
+            register(this.registrationCallback, this.options, this.requestProcessor, 0)
+                .then(registration => this.connect(registration))
+                .catch(() => {
+                    if (this.currentState !== "closed") {
+                        this.reconnect();
+                    }
+                });
+        }, delay);
+    }
+
+    private flush() {
+        if (this.buffer.length > 0) {
+            logger.info("Sending %s buffered outbound messages", this.buffer.length);
         }
-    });
+        while (this.buffer.length > 0 && this.ws.readyState === WebSocket.OPEN) {
+            this.ws.send(this.buffer.shift());
+        }
+    }
+
+    private transition(state: WebSocketState) {
+        const previous = this.currentState;
+        if (previous === state || previous === "closed") {
+            return;
+        }
+        this.currentState = state;
+        logger.debug("WebSocket connection state changed from '%s' to '%s'", previous, state);
+        this.listeners.forEach(l => l.connectionStateChanged && l.connectionStateChanged(state, previous));
+    }
+}
+
+/**
+ * Delay in milliseconds before the given reconnection attempt: exponential up to maxDelay and
+ * randomly reduced by up to the jitter fraction.
+ */
+export function backoff(attempt: number,
+                        options: { initialDelay: number, maxDelay: number, jitter: number }): number {
+    const delay = Math.min(options.initialDelay * Math.pow(2, attempt), options.maxDelay);
+    return Math.round(delay * (1 - options.jitter * Math.random()));
 }
 
 function register(registrationCallback: () => any, options: WebSocketClientOptions,
@@ -277,11 +385,43 @@ export interface WebSocketClientOptions {
     registrationUrl: string;
     graphUrl: string;
     token: string;
+
+    /**
+     * With graceful termination, in-flight invocations get up to gracePeriod milliseconds to complete
+     * on shutdown; otherwise they are abandoned right away.
+     */
     termination?: {
         gracePeriod?: number;
         graceful?: boolean;
     };
     compress?: boolean;
+
+    /**
+     * Backoff for reconnecting a dropped connection. Delays start at initialDelay milliseconds and double
+     * up to maxDelay; each delay is randomly reduced by up to the jitter fraction.
+     */
+    reconnect?: {
+        initialDelay?: number;
+        maxDelay?: number;
+        jitter?: number;
+    };
+
+    /**
+     * Maximum number of outbound messages buffered while disconnected
+     */
+    bufferSize?: number;
+}
+
+/**
+ * Deadline in milliseconds for draining in-flight invocations on shutdown
+ * @param {WebSocketClientOptions} options
+ * @returns {number}
+ */
+export function drainTimeout(options: WebSocketClientOptions): number {
+    if (options.termination && options.termination.graceful === true) {
+        return options.termination.gracePeriod || 60000;
+    }
+    return 0;
 }
 
 function isPing(a: any): a is Ping {
@@ -3,7 +3,6 @@ import {
     SlackMessage,
 } from "@atomist/slack-messages/SlackMessages";
 import * as _ from "lodash";
-import * as WebSocket from "ws";
 import {
     CommandReferencingAction,
     CustomEventDestination,
@@ -12,7 +11,10 @@ import {
     isSlackMessage,
     MessageMimeTypes,
     MessageOptions,
+    MessageReference,
+    messageReference,
     SlackDestination,
+    threadId,
 } from "../../../spi/message/MessageClient";
 import { MessageClientSupport } from "../../../spi/message/MessageClientSupport";
 import { logger } from "../../util/logger";
@@ -25,9 +27,17 @@ import {
     Source,
 } from "../RequestProcessor";
 
+/**
+ * Sends payloads to Atomist; either the WebSocket itself or the WebSocketClient buffering
+ * messages while the connection is down.
+ */
+export interface WebSocketSender {
+    send(payload: string): void;
+}
+
 export abstract class AbstractWebSocketMessageClient extends MessageClientSupport {
 
-    constructor(private ws: WebSocket,
+    constructor(private ws: WebSocketSender,
                 private request: CommandIncoming | EventIncoming,
                 private correlationId: string,
                 private team: { id: string, name?: string },
@@ -37,12 +47,13 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
 
     protected async doSend(msg: string | SlackMessage,
                            destinations: Destination | Destination[],
-                           options: MessageOptions = {}): Promise<any> {
+                           options: MessageOptions = {}): Promise<HandlerResponse & MessageReference> {
         const ts = this.ts(options);
 
         if (!Array.isArray(destinations)) {
             destinations = [destinations];
         }
+        const reference = messageReference(options, destinations);
 
         let destinationIdentifier: "slack" | "ingester";
         const responseDestinations = [];
@@ -62,6 +73,7 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
                             channel: {
                                 name: c,
                             },
+                            thread: thread(sd, options),
                         },
                     });
                 });
@@ -76,6 +88,7 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
                             user: {
                                 name: c,
                             },
+                            thread: thread(sd, options),
                         },
                     });
                 });
@@ -97,7 +110,10 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
             if (responseDestination.slack) {
                 delete responseDestination.slack.user;
             }
-            responseDestinations.push(this.source);
+            const responseThread = thread(undefined, options);
+            responseDestinations.push(responseThread && this.source.slack
+                ? { ...this.source, slack: { ...this.source.slack, thread: responseThread } }
+                : this.source);
         }
 
         const response: HandlerResponse = {
@@ -139,7 +155,7 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
             response.body = JSON.stringify(msg);
         }
         sendMessage(response, this.ws);
-        return Promise.resolve(response);
+        return Promise.resolve({ ...response, ...reference });
     }
 
     private ts(options: MessageOptions): number {
@@ -157,7 +173,7 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
 
 export class WebSocketCommandMessageClient extends AbstractWebSocketMessageClient {
 
-    constructor(request: CommandIncoming, ws: WebSocket) {
+    constructor(request: CommandIncoming, ws: WebSocketSender) {
         super(ws, request, request.correlation_id, request.team, request.source);
     }
 
@@ -170,7 +186,7 @@ export class WebSocketCommandMessageClient extends AbstractWebSocketMessageClien
 
 export class WebSocketEventMessageClient extends AbstractWebSocketMessageClient {
 
-    constructor(request: EventIncoming, ws: WebSocket) {
+    constructor(request: EventIncoming, ws: WebSocketSender) {
         super(ws, request, request.extensions.correlation_id,
             { id: request.extensions.team_id, name: request.extensions.team_name }, null);
     }
@@ -190,6 +206,19 @@ export class WebSocketEventMessageClient extends AbstractWebSocketMessageClient
     }
 }
 
+/**
+ * Thread a message to a Slack destination is posted in; the thread of the destination
+ * takes precedence over the one in the options
+ */
+function thread(destination: SlackDestination, options: MessageOptions): { message_id: string, broadcast: boolean } {
+    if (destination && destination.thread) {
+        return { message_id: destination.thread, broadcast: !!destination.broadcast };
+    } else if (options.thread) {
+        return { message_id: threadId(options.thread), broadcast: !!options.broadcast };
+    }
+    return undefined;
+}
+
 export function mapActions(msg: SlackMessage): Action[] {
     const actions: Action[] = [];
 
@@ -240,7 +269,7 @@ function mapParameters(data: {}): Parameter[] {
     return parameters;
 }
 
-export function sendMessage(message: any, ws: WebSocket, log: boolean = true) {
+export function sendMessage(message: any, ws: WebSocketSender, log: boolean = true) {
     const payload = JSON.stringify(message);
     if (log) {
         logger.debug(`Sending message '${payload}'`);
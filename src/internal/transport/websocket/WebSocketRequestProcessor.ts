@@ -1,11 +1,15 @@
-import * as WebSocket from "ws";
 import { RequestProcessor } from "../RequestProcessor";
+import { WebSocketSender } from "./WebSocketMessageClient";
 
 export interface WebSocketRequestProcessor extends RequestProcessor {
 
     onRegistration(registration: RegistrationConfirmation);
 
-    onConnect(ws: WebSocket);
+    /**
+     * Called once the connection is established. The sender stays valid across reconnects and
+     * buffers messages while disconnected.
+     */
+    onConnect(ws: WebSocketSender);
 
     onDisconnect();
 }
@@ -35,4 +35,10 @@ export interface AutomationContext {
     invocationId: string;
     ts: number;
 
+    /**
+     * Id of the trace and the span of the current invocation if tracing is enabled
+     */
+    traceId?: string;
+    spanId?: string;
+
 }
@@ -3,15 +3,33 @@ import * as stringify from "json-stringify-safe";
 import * as _ from "lodash";
 import * as serializeError from "serialize-error";
 import * as winston from "winston";
+import { broadcast } from "../transport/cluster/messages";
 import * as context from "./cls";
 
 export let LoggingConfig = {
     format: "logger",
 };
 
+/**
+ * Default log level and log levels of individual modules
+ */
+export interface LogLevels {
+
+    level: string;
+
+    /**
+     * Log levels keyed by module path, eg. 'src/commands' or
+     * '@atomist/automation-client/internal/transport'.
+     * A module path matches all files below it; the longest matching path wins.
+     */
+    modules: { [module: string]: string };
+}
+
 export function formatter(options: any): string {
     if (LoggingConfig.format === "cli") {
         return options.message;
+    } else if (LoggingConfig.format === "json") {
+        return jsonFormatter(options);
     }
 
     const executionContext = context.get();
@@ -59,6 +77,34 @@ export function formatter(options: any): string {
     return formatted;
 }
 
+/**
+ * Format the log entry as single-line JSON object carrying the fields of the current
+ * AutomationContext as separate properties.
+ */
+function jsonFormatter(options: any): string {
+    const executionContext = context.get();
+    const entry: any = {
+        timestamp: new Date().toISOString(),
+        level: options.level,
+        message: options.message,
+        process: cluster.isMaster ? "master" : "worker",
+        pid: process.pid,
+    };
+    if (executionContext) {
+        entry.correlationId = executionContext.correlationId;
+        entry.teamId = executionContext.teamId;
+        entry.teamName = executionContext.teamName;
+        entry.operation = executionContext.operation;
+        entry.invocationId = executionContext.invocationId;
+        entry.traceId = executionContext.traceId;
+        entry.duration = executionContext.ts ? new Date().getTime() - executionContext.ts : undefined;
+    }
+    if (options.meta && (options.meta instanceof Error || Object.keys(options.meta).length)) {
+        entry.meta = serializeError(options.meta);
+    }
+    return stringify(entry);
+}
+
 const winstonLogger = new winston.Logger({
     level: "debug",
     // handleExceptions: true,
@@ -82,6 +128,90 @@ const winstonLogger = new winston.Logger({
 
 export const logger: Logger = winstonLogger;
 
+const LevelValues: { [level: string]: number } = (winstonLogger as any).levels;
+
+const levels: LogLevels = {
+    level: winstonLogger.level,
+    modules: {},
+};
+
+/**
+ * Value of the most severe level in use; entries at least as severe are enabled for all modules
+ */
+let enabledForAllModules: number = LevelValues[levels.level];
+
+// Filter entries of modules that have their own log level before handing them to winston.
+// Determining the calling module requires capturing a stack trace, so only do that if the
+// level of the entry is enabled for some modules but not for others.
+const winstonLog: any = winstonLogger.log;
+winstonLogger.log = function(level: string) {
+    if (Object.keys(levels.modules).length > 0 && LevelValues[level] > enabledForAllModules
+        && !isLevelEnabled(level, callerModule())) {
+        return this;
+    }
+    return winstonLog.apply(this, arguments);
+};
+
+/**
+ * Return the current default and module log levels
+ * @returns {LogLevels}
+ */
+export function logLevels(): LogLevels {
+    return {
+        // Without module levels the level of winston is the default level and might have been set directly
+        level: Object.keys(levels.modules).length > 0 ? levels.level : winstonLogger.level,
+        modules: { ...levels.modules },
+    };
+}
+
+/**
+ * Set the default log level and replace all module log levels.
+ * In the cluster master the new levels are sent to all workers.
+ * @param {Partial<LogLevels>} newLevels the default level remains unchanged if not provided
+ */
+export function setLogLevels(newLevels: Partial<LogLevels>) {
+    const modules = newLevels.modules || {};
+    [newLevels.level, ..._.values(modules)].filter(l => l !== undefined).forEach(l => {
+        if (LevelValues[l] === undefined) {
+            throw new Error(`Invalid log level '${l}'`);
+        }
+    });
+
+    levels.level = newLevels.level || logLevels().level;
+    levels.modules = { ...modules };
+    enabledForAllModules = _.min([levels.level, ..._.values(levels.modules)].map(l => LevelValues[l]));
+    // winston needs to let through entries of the most verbose level in use
+    winstonLogger.level = _.maxBy([levels.level, ..._.values(levels.modules)], l => LevelValues[l]);
+
+    broadcast({ type: "log_levels", data: logLevels() });
+}
+
+function isLevelEnabled(level: string, module: string): boolean {
+    const match = _.maxBy(Object.keys(levels.modules).filter(m => module === m || module.startsWith(m + "/")),
+        m => m.length);
+    return LevelValues[level] <= LevelValues[match ? levels.modules[match] : levels.level];
+}
+
+/**
+ * Determine the module path of the file calling into the logger: the path below the last
+ * node_modules folder or otherwise below the current working directory, without extension.
+ */
+function callerModule(): string {
+    const frame = new Error().stack.split("\n").slice(1)
+        .find(l => !l.includes(__filename) && !/[\\/]node_modules[\\/]winston[\\/]/.test(l));
+    const file = frame ? /\(?([^()\s]+):\d+:\d+\)?$/.exec(frame) : null;
+    if (!file) {
+        return "";
+    }
+    const path = file[1].replace(/\\/g, "/").replace(/\.[jt]s$/, "");
+    const nodeModules = path.lastIndexOf("/node_modules/");
+    if (nodeModules >= 0) {
+        return path.slice(nodeModules + "/node_modules/".length);
+    }
+    const cwd = process.cwd().replace(/\\/g, "/") + "/";
+    return path.startsWith(cwd) ? path.slice(cwd.length) : path;
+}
+
 // Redirect console logging methods to our logging setup
 console.error = (message?: any, ...optionalParams: any[]) => {
     winstonLogger.error(message, ...optionalParams);
@@ -1,5 +1,9 @@
 import * as _metrics from "metrics";
 import * as os from "os";
+import {
+    invocationLimiter,
+    workerLoad,
+} from "../../globals";
 
 const report = new _metrics.Report();
 
@@ -38,5 +42,11 @@ export function metrics() {
         },
         uptime: process.uptime(),
     };
+    if (invocationLimiter()) {
+        m.invocations = invocationLimiter().stats();
+    }
+    if (workerLoad()) {
+        m.workers = workerLoad();
+    }
     return m;
 }
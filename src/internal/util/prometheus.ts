@@ -0,0 +1,217 @@
+import * as os from "os";
+import {
+    eventStore,
+    invocationLimiter,
+    workerLoad,
+} from "../../globals";
+
+/**
+ * Label names and values of a single time series
+ */
+export interface Labels {
+    [name: string]: string;
+}
+
+/**
+ * Default histogram buckets in seconds
+ */
+export const DefaultBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+interface Series<T> {
+    labels: Labels;
+    value: T;
+}
+
+interface HistogramValue {
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+abstract class Metric<T> {
+
+    protected series: Map<string, Series<T>> = new Map();
+
+    constructor(public name: string, public help: string) { }
+
+    public abstract render(): string[];
+
+    protected get(labels: Labels): Series<T> {
+        const key = labelsString(labels);
+        if (!this.series.has(key)) {
+            this.series.set(key, { labels, value: this.initial() });
+        }
+        return this.series.get(key);
+    }
+
+    protected abstract initial(): T;
+}
+
+class Counter extends Metric<number> {
+
+    public inc(labels: Labels, value: number = 1) {
+        this.get(labels).value += value;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} counter`];
+        this.series.forEach(s => lines.push(`${this.name}${labelsString(s.labels)} ${s.value}`));
+        return lines;
+    }
+
+    protected initial(): number {
+        return 0;
+    }
+}
+
+class Histogram extends Metric<HistogramValue> {
+
+    constructor(name: string, help: string, private buckets: number[] = DefaultBuckets) {
+        super(name, help);
+    }
+
+    public observe(labels: Labels, value: number) {
+        const h = this.get(labels).value;
+        this.buckets.forEach((b, i) => {
+            if (value <= b) {
+                h.buckets[i]++;
+            }
+        });
+        h.sum += value;
+        h.count++;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} histogram`];
+        this.series.forEach(s => {
+            this.buckets.forEach((b, i) => lines.push(
+                `${this.name}_bucket${labelsString({ ...s.labels, le: b.toString() })} ${s.value.buckets[i]}`));
+            lines.push(`${this.name}_bucket${labelsString({ ...s.labels, le: "+Inf" })} ${s.value.count}`);
+            lines.push(`${this.name}_sum${labelsString(s.labels)} ${s.value.sum}`);
+            lines.push(`${this.name}_count${labelsString(s.labels)} ${s.value.count}`);
+        });
+        return lines;
+    }
+
+    protected initial(): HistogramValue {
+        return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    }
+}
+
+const Metrics: Map<string, Metric<any>> = new Map();
+
+/**
+ * Increment the Prometheus counter with the given name and labels.
+ * @param {string} name metric name; should end in _total
+ * @param {string} help description of the metric
+ * @param {Labels} labels
+ * @param {number} value
+ */
+export function incrementCounter(name: string, help: string, labels: Labels = {}, value: number = 1) {
+    if (!Metrics.has(name)) {
+        Metrics.set(name, new Counter(name, help));
+    }
+    (Metrics.get(name) as Counter).inc(labels, value);
+}
+
+/**
+ * Record an observation in the Prometheus histogram with the given name and labels.
+ * @param {string} name metric name; should include the unit, eg. _seconds
+ * @param {string} help description of the metric
+ * @param {Labels} labels
+ * @param {number} value
+ */
+export function observeHistogram(name: string, help: string, labels: Labels, value: number) {
+    if (!Metrics.has(name)) {
+        Metrics.set(name, new Histogram(name, help));
+    }
+    (Metrics.get(name) as Histogram).observe(labels, value);
+}
+
+/**
+ * Render all counters and histograms together with process, memory and event series gauges
+ * in the Prometheus text exposition format.
+ * @returns {string}
+ */
+export function prometheusMetrics(): string {
+    const lines: string[] = [];
+    Metrics.forEach(m => lines.push(...m.render()));
+    lines.push(...gauges());
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Remove all recorded counters and histograms
+ */
+export function resetPrometheusMetrics() {
+    Metrics.clear();
+}
+
+function gauges(): string[] {
+    const lines: string[] = [];
+    const gauge = (name: string, help: string, values: Array<Series<number>>) => {
+        lines.push(`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} gauge`);
+        values.forEach(v => lines.push(`${name}${labelsString(v.labels)} ${v.value}`));
+    };
+
+    const mem = process.memoryUsage();
+    gauge("process_start_time_seconds", "Start time of the process since unix epoch in seconds",
+        [{ labels: {}, value: Math.round(Date.now() / 1000 - process.uptime()) }]);
+    gauge("process_uptime_seconds", "Uptime of the process in seconds", [{ labels: {}, value: process.uptime() }]);
+    gauge("process_resident_memory_bytes", "Resident memory size in bytes", [{ labels: {}, value: mem.rss }]);
+    gauge("nodejs_heap_size_total_bytes", "Process heap size from Node.js in bytes",
+        [{ labels: {}, value: mem.heapTotal }]);
+    gauge("nodejs_heap_size_used_bytes", "Process heap size used from Node.js in bytes",
+        [{ labels: {}, value: mem.heapUsed }]);
+    gauge("nodejs_external_memory_bytes", "Node.js external memory size in bytes",
+        [{ labels: {}, value: mem.external }]);
+    gauge("os_memory_free_bytes", "Free system memory in bytes", [{ labels: {}, value: os.freemem() }]);
+    gauge("os_memory_total_bytes", "Total system memory in bytes", [{ labels: {}, value: os.totalmem() }]);
+
+    const [events] = eventStore().eventSeries();
+    const [commands] = eventStore().commandSeries();
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+    const last = (values: number[]) => values.length > 0 ? values[values.length - 1] : 0;
+    gauge("atomist_incoming_requests", "Number of incoming events and commands per time window", [
+        { labels: { type: "event", window: "5m" }, value: last(events) },
+        { labels: { type: "event", window: "3h" }, value: sum(events) },
+        { labels: { type: "command", window: "5m" }, value: last(commands) },
+        { labels: { type: "command", window: "3h" }, value: sum(commands) },
+    ]);
+
+    if (invocationLimiter()) {
+        const stats = invocationLimiter().stats();
+        gauge("atomist_invocations_running", "Number of running handler invocations",
+            [{ labels: {}, value: stats.running }]);
+        gauge("atomist_invocations_queued", "Number of handler invocations waiting for a free slot",
+            [{ labels: {}, value: stats.queued }]);
+    }
+
+    if (workerLoad()) {
+        const workers = workerLoad();
+        gauge("atomist_worker_invocations_in_flight", "Number of invocations running in a cluster worker",
+            workers.map(w => ({ labels: { worker: w.id.toString() }, value: w.inFlight })));
+        gauge("atomist_worker_invocations", "Number of invocations dispatched to a cluster worker since it started",
+            workers.map(w => ({ labels: { worker: w.id.toString() }, value: w.invocations })));
+        gauge("atomist_worker_resident_memory_bytes", "Resident memory size of a cluster worker in bytes",
+            workers.filter(w => w.memory !== undefined)
+                .map(w => ({ labels: { worker: w.id.toString() }, value: w.memory })));
+    }
+    return lines;
+}
+
+function labelsString(labels: Labels): string {
+    const names = Object.keys(labels).filter(l => labels[l] !== undefined && labels[l] !== null);
+    if (names.length === 0) {
+        return "";
+    }
+    return `{${names.map(l => `${l}="${escapeLabelValue(labels[l])}"`).join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+    return value.toString().replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, "\\\"");
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -1,16 +1,29 @@
 import * as exitHook from "async-exit-hook";
+import * as _ from "lodash";
 import { logger } from "./logger";
 
-const shutdownHooks: Array<() => Promise<number>> = [];
+interface ShutdownHook {
+    cb: () => Promise<number>;
+    priority: number;
+}
+
+const shutdownHooks: ShutdownHook[] = [];
 
-export function registerShutdownHook(cb: () => Promise<number>) {
-    shutdownHooks.push(cb);
+/**
+ * Register a callback to run on shutdown. Hooks run one after the other in order of
+ * ascending priority; hooks of the same priority run in order of registration.
+ * @param {() => Promise<number>} cb
+ * @param {number} priority
+ */
+export function registerShutdownHook(cb: () => Promise<number>, priority: number = 1000) {
+    shutdownHooks.push({ cb, priority });
 }
 
 exitHook.forceExitTimeout(60000 * 2);
 exitHook(callback => {
     logger.info("Shutdown initiated. Calling shutdown hooks");
-    shutdownHooks.reduce((p, c, i, result) => p.then(c), Promise.resolve(0))
+    _.sortBy(shutdownHooks, h => h.priority)
+        .reduce((p, c) => p.then(c.cb), Promise.resolve(0))
         .then(result => {
             logger.info("Shutdown hooks completed. Exiting...");
             callback();
@@ -1,3 +1,5 @@
+import * as crypto from "crypto";
+import * as _ from "lodash";
 import * as uuid from "uuid/v4";
 
 export function hideString(value) {
@@ -21,6 +23,18 @@ export function guid() {
     return uuid();
 }
 
+/**
+ * Compare the given strings in constant time so that secrets can't be guessed from response times
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+export function safeEquals(a: string, b: string): boolean {
+    const ab = Buffer.from(a || "");
+    const bb = Buffer.from(b || "");
+    return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
 export function findLine(str, idx) {
     const first = str.substring(0, idx);
     const last = str.substring(idx);
@@ -48,10 +62,12 @@ export function toStringArray(strings: string | string[]): string[] {
 }
 
 export function obfuscateJson(key: string, value: any) {
-    if (key === "token" || key === "password" || key === "jwt" || key === "url"
+    if (key === "token" || key === "password" || key === "jwt" || key === "url" || key === "key"
         || key.toLowerCase().includes("secret")
         || key.toLowerCase().includes("authorization")) {
         return hideString(value);
+    } else if (key === "keys" && value && typeof value === "object") {
+        return _.mapValues(value, v => typeof v === "string" ? hideString(v) : v);
     } else if (key === "commands") {
         return undefined;
     } else if (key === "events") {
@@ -86,6 +86,14 @@ export interface AutomationMetadata {
     name: string;
     description: string;
     tags?: Tag[];
+    /**
+     * Maximum number of concurrent invocations of this automation
+     */
+    concurrency?: number;
+    /**
+     * Timeout in milliseconds for invocations of this automation
+     */
+    timeout?: number;
 }
 
 export interface MappedParameterDeclaration {
@@ -5,6 +5,7 @@ import { Project } from "../Project";
 
 import { ActionResult, successOn } from "../../action/ActionResult";
 import { CommandResult, runCommand } from "../../action/cli/commandLine";
+import { traced } from "../../internal/trace/tracing";
 import { logger } from "../../internal/util/logger";
 import { ProjectOperationCredentials } from "../../operations/common/ProjectOperationCredentials";
 import { isRemoteRepoRef, RemoteRepoRef, RepoRef } from "../../operations/common/RepoId";
@@ -232,7 +233,7 @@ export class GitCommandGitProject extends NodeFsLocalProject implements GitProje
     }
 
     private runCommandInCurrentWorkingDirectory(cmd: string): Promise<CommandResult<this>> {
-        return runCommand(cmd, { cwd: this.baseDir })
+        return runIn(this.baseDir, cmd)
             .then(result => {
                 return {
                     target: this,
@@ -323,7 +324,9 @@ function clean(repoDir: string) {
 }
 
 function runIn(baseDir: string, command: string) {
-    return runCommand(command, { cwd: baseDir });
+    return traced(`git ${command.split(" ")[1]}`, () => runCommand(command, { cwd: baseDir }),
+        // Remove credentials from clone and remote urls
+        { tags: { "git.command": command.replace(/\/\/[^@\/\s]+@/g, "//") } });
 }
 
 function pwd(baseDir) {
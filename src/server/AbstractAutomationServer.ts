@@ -1,11 +1,15 @@
 import { EventFired } from "../HandleEvent";
 import { HandlerContext } from "../HandlerContext";
 import { HandlerResult } from "../HandlerResult";
+import { scopeCancellation } from "../internal/invoker/cancellation";
 import {
     Arg,
     CommandInvocation,
 } from "../internal/invoker/Payload";
-import { Automations } from "../internal/metadata/metadata";
+import {
+    Automations,
+    isSubscribedTo,
+} from "../internal/metadata/metadata";
 import {
     CommandHandlerMetadata,
     EventHandlerMetadata,
@@ -24,20 +28,35 @@ export abstract class AbstractAutomationServer implements AutomationServer {
         return this.invokeCommandHandler(payload, h, ctx);
     }
 
-    public onEvent(payload: EventFired<any>, ctx: HandlerContext): Promise<HandlerResult[]> {
-        const h = this.automations.events.filter(eh => {
-            if (eh.subscriptionName === payload.extensions.operationName) {
-                return true;
-            } else {
-                const trimmedName = eh.subscriptionName.slice(0, eh.subscriptionName.lastIndexOf("_"));
-                return payload.extensions.operationName === trimmedName;
-            }
-        });
+    public onEvent(payload: EventFired<any>, ctx: HandlerContext, handlers?: string[]): Promise<HandlerResult[]> {
+        const h = this.automations.events.filter(eh => isSubscribedTo(eh, payload.extensions.operationName)
+            && (!handlers || handlers.includes(eh.name)));
         if (h.length === 0) {
             throw new Error(`No event handler with name '${payload.extensions.operationName}'` +
                 `: Known event handlers are '${this.automations.events.map(e => e.subscriptionName)}'`);
         } else {
-            return Promise.all(h.map(eh => this.invokeEventHandler(payload, eh, ctx)));
+            // All handlers get to complete so that it is known which of them failed
+            const failed: string[] = [];
+            FailedEventHandlers.set(ctx, failed);
+            // A handler timing out must not cancel the other handlers invoked for the event
+            const scoped = scopeCancellation(ctx, h.length);
+            return Promise.all(h.map((eh, i) => Promise.resolve()
+                .then(() => this.invokeEventHandler(payload, eh, scoped[i].ctx))
+                .then(result => scoped[i].done().then(() => result),
+                    error => scoped[i].done().then(() => Promise.reject(error)))
+                .then(result => {
+                    if (result && result.code !== 0) {
+                        failed.push(eh.name);
+                    }
+                    return { result, error: undefined, failed: false };
+                }, error => {
+                    failed.push(eh.name);
+                    return { result: undefined, error, failed: true };
+                })))
+                .then(outcomes => {
+                    const rejected = outcomes.find(o => o.failed);
+                    return rejected ? Promise.reject(rejected.error) : outcomes.map(o => o.result);
+                });
         }
     }
 
@@ -72,3 +91,18 @@ export abstract class AbstractAutomationServer implements AutomationServer {
                                           ctx: HandlerContext): Promise<HandlerResult>;
 
 }
+
+/**
+ * Names of the event handlers that rejected or returned a result with a non-zero code
+ * during the last invocation of onEvent with the given context
+ * @param {HandlerContext} ctx
+ * @returns {string[]}
+ */
+export function failedEventHandlers(ctx: HandlerContext): string[] {
+    return FailedEventHandlers.get(ctx) || [];
+}
+
+/**
+ * Names of the failed event handlers by the context they were invoked with
+ */
+const FailedEventHandlers = new WeakMap<HandlerContext, string[]>();
@@ -10,6 +10,7 @@ import {
     EventIncoming,
     RequestProcessor,
 } from "../internal/transport/RequestProcessor";
+import { WebSocketState } from "../internal/transport/websocket/WebSocketClient";
 import {
     Destination,
     MessageOptions,
@@ -19,6 +20,11 @@ export interface AutomationEventListener {
 
     registrationSuccessful(handler: RequestProcessor): void;
 
+    /**
+     * State of the WebSocket connection changed; optional to not break existing listeners
+     */
+    connectionStateChanged?(state: WebSocketState, previous: WebSocketState): void;
+
     contextCreated(context: HandlerContext): void;
 
     commandIncoming(payload: CommandIncoming): void;
@@ -31,10 +37,21 @@ export interface AutomationEventListener {
     eventSuccessful(payload: EventFired<any>, ctx: HandlerContext, result: HandlerResult[]): Promise<any>;
     eventFailed(payload: EventFired<any>, ctx: HandlerContext, err: any): Promise<any>;
 
+    /**
+     * Event was not processed because an event with the same deduplication key was seen before;
+     * optional to not break existing listeners
+     */
+    eventSkipped?(payload: EventFired<any>, ctx: HandlerContext, key: string): void;
+
+    /**
+     * Message was delivered to its destinations, or its delivery failed with the given error.
+     * Invoked once delivery completed; err is undefined if the message was delivered.
+     */
     messageSent(message: any,
                 destinations: Destination | Destination[],
                 options: MessageOptions,
-                ctx: HandlerContext): void;
+                ctx: HandlerContext,
+                err?: any): void;
 
 }
 
@@ -44,6 +61,10 @@ export class AutomationEventListenerSupport implements AutomationEventListener {
         // This is intentionally left empty
     }
 
+    public connectionStateChanged(state: WebSocketState, previous: WebSocketState) {
+        // This is intentionally left empty
+    }
+
     public contextCreated(context: HandlerContext) {
         // This is intentionally left empty
     }
@@ -80,10 +101,15 @@ export class AutomationEventListenerSupport implements AutomationEventListener {
         return Promise.resolve();
     }
 
+    public eventSkipped(payload: EventFired<any>, ctx: HandlerContext, key: string) {
+        // This is intentionally left empty
+    }
+
     public messageSent(message: any,
                        destinations: Destination | Destination[],
                        options: MessageOptions,
-                       ctx: HandlerContext) {
+                       ctx: HandlerContext,
+                       err?: any) {
         // This is intentionally left empty
     }
 }
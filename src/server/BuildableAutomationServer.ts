@@ -17,6 +17,7 @@ import {
     CommandInvocation,
     Invocation, Secret,
 } from "../internal/invoker/Payload";
+import { invokeWithTimeout } from "../internal/invoker/timeout";
 import { Automations, isCommandHandlerMetadata } from "../internal/metadata/metadata";
 import { metadataFromInstance } from "../internal/metadata/metadataReading";
 import { populateParameters } from "../internal/parameterPopulation";
@@ -33,6 +34,10 @@ import {
     Maker,
     toFactory,
 } from "../util/constructionUtils";
+import {
+    doWithRetry,
+    RetryPolicy,
+} from "../util/retry";
 import { AbstractAutomationServer } from "./AbstractAutomationServer";
 import { AutomationServerOptions } from "./options";
 
@@ -141,15 +146,53 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
     protected invokeCommandHandler(invocation: CommandInvocation, metadata: CommandHandlerMetadata,
                                    ctx: HandlerContext): Promise<HandlerResult> {
         const handler = this.commandHandlers.find(a => a.metadata.name === invocation.name);
+        if (!!ctx.lifecycle && !!ctx.lifecycle.cancelled && ctx.lifecycle.cancelled()) {
+            return Promise.reject(new Error(`Invocation of command handler '${metadata.name}' was cancelled`));
+        }
         logger.info("Invoking command handler '%s'", metadata.name);
-        return handler.invoke(invocation, ctx);
+        return invokeWithTimeout(() => handler.invoke(invocation, ctx), metadata.name, this.timeout(metadata), ctx);
     }
 
     protected invokeEventHandler(e: EventFired<any>, metadata: EventHandlerMetadata,
                                  ctx: HandlerContext): Promise<HandlerResult> {
         const handler = this.eventHandlers.find(a => a.metadata.name === metadata.name);
         logger.info("Invoking event handler '%s'", metadata.name);
-        return handler.invoke(e, ctx);
+        const policy = this.retryPolicy(metadata.name);
+        // Stop retrying once the invocation got cancelled, e.g. because it timed out
+        const isCancelled = () => !!ctx.lifecycle && !!ctx.lifecycle.cancelled && ctx.lifecycle.cancelled();
+        const invoke = policy
+            ? () => doWithRetry(() => isCancelled()
+                ? Promise.reject(new Error(`Invocation of event handler '${metadata.name}' was cancelled`))
+                : Promise.resolve().then(() => handler.invoke(e, ctx)).then(rejectFailedResult),
+                `Invoking event handler '${metadata.name}'`,
+                { ...policy, retryable: err => !isCancelled() && (!policy.retryable || policy.retryable(err)) })
+                .catch(err => err.failedResult ? err.failedResult : Promise.reject(err))
+            : () => handler.invoke(e, ctx);
+        return invokeWithTimeout(invoke, metadata.name, this.timeout(metadata), ctx);
+    }
+
+    private timeout(metadata: CommandHandlerMetadata | EventHandlerMetadata): number {
+        const timeouts = this.opts.timeout || {};
+        if (timeouts.handlers && timeouts.handlers[metadata.name] !== undefined) {
+            return timeouts.handlers[metadata.name];
+        } else if (metadata.timeout !== undefined) {
+            return metadata.timeout;
+        }
+        return timeouts.global;
+    }
+
+    private retryPolicy(name: string): RetryPolicy {
+        if (!this.opts.retry) {
+            return undefined;
+        }
+        const policy = this.opts.retry.handlers ? this.opts.retry.handlers[name] : undefined;
+        if (!policy && !this.opts.retry.events) {
+            return undefined;
+        }
+        return {
+            ...this.opts.retry.events,
+            ...policy,
+        };
     }
 
     /**
@@ -287,3 +330,16 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
     }
 
 }
+
+/**
+ * Results with a non-zero code are failures and get retried like errors.
+ * Once retries are exhausted, the last result is returned.
+ */
+function rejectFailedResult(result: HandlerResult): Promise<HandlerResult> {
+    if (result && result.code !== 0) {
+        const err: any = new Error(result.message || `Event handler failed with code ${result.code}`);
+        err.failedResult = result;
+        return Promise.reject(err);
+    }
+    return Promise.resolve(result);
+}
@@ -1,4 +1,7 @@
 import * as exp from "express";
+import { JwtOptions } from "../internal/transport/express/jwt";
+import { RateLimitOptions } from "../internal/transport/express/rateLimit";
+import { RetryPolicy } from "../util/retry";
 
 /**
  * Customize the express server configuration: For example to add custom routes
@@ -39,15 +42,87 @@ export interface RunOptions {
                 org?: string;
                 adminOrg?: string;
             };
+
+            /**
+             * Accept bearer tokens that are JWTs signed with one of the configured keys
+             */
+            jwt?: JwtOptions & {
+                enabled: boolean;
+            };
+
+            /**
+             * Accept static API keys as bearer tokens; keyed by name of the key
+             */
+            apiKey?: {
+                enabled: boolean;
+                keys: { [name: string]: { key: string, scopes?: string[] } };
+            };
+
+            /**
+             * Scopes a user needs to be granted to invoke individual command handlers keyed by handler name
+             */
+            scopes?: { [name: string]: string[] };
+        };
+
+        /**
+         * Accept signed webhooks at /webhook/:name firing the event handlers subscribed to
+         * the subscription or ingester root type name. Requests are verified with the secret
+         * configured for name, falling back to the default secret.
+         */
+        webhook?: {
+            enabled: boolean;
+            secret?: string;
+            secrets?: { [name: string]: string };
+        };
+
+        /**
+         * Command handlers invoked asynchronously with async=true or a Prefer: respond-async header
+         * run as jobs; results of finished jobs are kept for retention milliseconds
+         */
+        jobs?: {
+            retention?: number;
         };
+
+        /**
+         * Serve the operator dashboard at /dashboard and the recent invocations it shows at /log/invocations;
+         * both are admin endpoints
+         */
+        dashboard?: {
+            enabled: boolean;
+        };
+
+        /**
+         * Token bucket rate limits for invoking command handlers over HTTP; requests exceeding
+         * a limit are rejected with 429
+         */
+        rateLimit?: RateLimitOptions;
     };
     ws?: {
         enabled: boolean;
+
+        /**
+         * On shutdown the client stops accepting invocations and, if graceful, waits up to
+         * gracePeriod milliseconds for in-flight invocations to complete
+         */
         termination?: {
             gracePeriod?: number;
             graceful?: boolean;
         };
         compress?: boolean;
+
+        /**
+         * Backoff for reconnecting a dropped connection; see WebSocketClientOptions
+         */
+        reconnect?: {
+            initialDelay?: number;
+            maxDelay?: number;
+            jitter?: number;
+        };
+
+        /**
+         * Maximum number of outbound messages buffered while disconnected
+         */
+        bufferSize?: number;
     };
     endpoints?: {
         graphql?: string;
@@ -58,4 +133,34 @@ export interface RunOptions {
 export interface AutomationServerOptions extends RunOptions {
 
     keywords?: string[];
+
+    /**
+     * Retry policies for failed event handler invocations. Event handlers without
+     * a policy are invoked only once.
+     */
+    retry?: {
+        /**
+         * Policy applied to all event handlers
+         */
+        events?: RetryPolicy;
+        /**
+         * Policies for individual event handlers keyed by handler name
+         */
+        handlers?: { [name: string]: RetryPolicy };
+    };
+
+    /**
+     * Timeouts in milliseconds for command and event handler invocations
+     */
+    timeout?: {
+        /**
+         * Timeout applied to all handlers that don't declare their own
+         */
+        global?: number;
+        /**
+         * Timeouts for individual handlers keyed by handler name; these take precedence
+         * over the timeout declared in the handler metadata
+         */
+        handlers?: { [name: string]: number };
+    };
 }
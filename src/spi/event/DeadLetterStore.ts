@@ -0,0 +1,64 @@
+import { EventIncoming } from "../../internal/transport/RequestProcessor";
+
+/**
+ * Event that failed processing after all retries were exhausted.
+ */
+export interface DeadLetter {
+
+    id: string;
+
+    /**
+     * Timestamp in milliseconds when the event was dead-lettered
+     */
+    ts: number;
+
+    event: EventIncoming;
+
+    /**
+     * Serialized error the event handler rejected with, or the failed {HandlerResult} it returned
+     */
+    error: any;
+
+    /**
+     * Names of the event handlers that failed; only these are invoked when the event is retried.
+     * All handlers subscribed to the event are invoked if not set.
+     */
+    handlers?: string[];
+}
+
+/**
+ * Implementations of {DeadLetterStore} keep events that event handlers failed to process
+ * so that they can be inspected, retried or discarded later.
+ */
+export interface DeadLetterStore {
+
+    /**
+     * Add a failed event to the store.
+     * @param {EventIncoming} event
+     * @param error
+     * @param {string[]} handlers names of the event handlers that failed
+     * @returns {string} id of the new entry
+     */
+    add(event: EventIncoming, error: any, handlers?: string[]): string;
+
+    /**
+     * List all entries. Secret values are masked.
+     * @returns {DeadLetter[]}
+     */
+    list(): DeadLetter[];
+
+    /**
+     * Find an entry by its id. Secret values are masked.
+     * @param {string} id
+     * @returns {DeadLetter} the entry or undefined if not found
+     */
+    find(id: string): DeadLetter;
+
+    /**
+     * Remove an entry from the store. The returned entry contains the unmasked secrets
+     * so that the event can be processed again.
+     * @param {string} id
+     * @returns {DeadLetter} the removed entry or undefined if not found
+     */
+    remove(id: string): DeadLetter;
+}
@@ -0,0 +1,21 @@
+/**
+ * Implementations of {DeduplicationStore} remember the keys of processed events so that
+ * events delivered more than once can be detected.
+ * Adding a key needs to be atomic: only one of several concurrent adds of the same key may succeed.
+ */
+export interface DeduplicationStore {
+
+    /**
+     * Record a key unless it was already recorded within the given window.
+     * @param {string} key
+     * @param {number} window in milliseconds
+     * @returns {boolean} true if the key was recorded; false if it was seen within the window
+     */
+    add(key: string, window: number): boolean;
+
+    /**
+     * Forget a key so that an event with the same key can be processed again.
+     * @param {string} key
+     */
+    remove(key: string): void;
+}
@@ -11,13 +11,48 @@ export interface EventStore {
 
     recordMessage(id: string, message: any): string;
 
-    events(from?: number): any[];
+    events(from?: number, query?: EventStoreQuery): any[];
 
     eventSeries(): [number[], number[]];
 
-    commands(from?: number): any[];
+    commands(from?: number, query?: EventStoreQuery): any[];
 
     commandSeries(): [number[], number[]];
 
-    messages(from?: number): any[];
+    messages(from?: number, query?: EventStoreQuery): any[];
+
+    /**
+     * Find a recorded event by its id. Secret values are masked.
+     * @param {string} id the id returned when recording the event
+     * @returns {EventIncoming} the event or undefined if not found
+     */
+    findEvent(id: string): EventIncoming;
+
+    /**
+     * Find a recorded command by its id. Secret values are masked.
+     * @param {string} id the id returned when recording the command
+     * @returns {CommandIncoming} the command or undefined if not found
+     */
+    findCommand(id: string): CommandIncoming;
+}
+
+/**
+ * Additional criteria to restrict and page entries returned from an {EventStore}.
+ */
+export interface EventStoreQuery {
+
+    /**
+     * Only return entries recorded at or before this timestamp (in milliseconds)
+     */
+    to?: number;
+
+    /**
+     * Number of matching entries to skip
+     */
+    offset?: number;
+
+    /**
+     * Maximum number of entries to return
+     */
+    limit?: number;
 }
@@ -0,0 +1,61 @@
+import {
+    Destination,
+    MessageOptions,
+} from "./MessageClient";
+
+/**
+ * Implementations of {DestinationSender} render and deliver messages to destinations of one
+ * user agent directly instead of sending them through Atomist.
+ */
+export interface DestinationSender {
+
+    /**
+     * User agent of the destinations this sender delivers to
+     */
+    userAgent: string;
+
+    /**
+     * Render the message for the destination and deliver it.
+     * @param msg string, SlackMessage or SlackFileMessage
+     * @param {Destination} destination
+     * @param {MessageOptions} options
+     * @returns {Promise<any>}
+     */
+    send(msg: any, destination: Destination, options: MessageOptions): Promise<any>;
+}
+
+/**
+ * Registry of {DestinationSender}s keyed by user agent. Messages to destinations without a
+ * registered sender are sent through Atomist.
+ */
+export class DestinationRegistry {
+
+    private senders: Map<string, DestinationSender> = new Map();
+
+    /**
+     * Register a sender, replacing any sender previously registered for the same user agent
+     * @param {DestinationSender} sender
+     * @returns {this}
+     */
+    public register(sender: DestinationSender): this {
+        this.senders.set(sender.userAgent, sender);
+        return this;
+    }
+
+    public unregister(userAgent: string) {
+        this.senders.delete(userAgent);
+    }
+
+    /**
+     * Find the sender for a user agent
+     * @param {string} userAgent
+     * @returns {DestinationSender} the sender or undefined if none is registered
+     */
+    public find(userAgent: string): DestinationSender {
+        return this.senders.get(userAgent);
+    }
+
+    get userAgents(): string[] {
+        return Array.from(this.senders.keys());
+    }
+}
@@ -4,6 +4,8 @@ import {
 } from "@atomist/slack-messages/SlackMessages";
 import * as _ from "lodash";
 import { metadataFromInstance } from "../../internal/metadata/metadataReading";
+import { guid } from "../../internal/util/string";
+import { RetryPolicy } from "../../util/retry";
 
 /**
  * Implemented by classes that can send bot messages, whether to
@@ -13,6 +15,7 @@ export interface MessageClient {
 
     /**
      * Send a response back to where this command request originated.
+     * Resolves to a {MessageReference} that threaded replies can refer to.
      * @param msg
      * @param {MessageOptions} options
      * @returns {Promise<any>}
@@ -22,6 +25,7 @@ export interface MessageClient {
 
     /**
      * Send a message to any given destination.
+     * Resolves to a {MessageReference} that threaded replies can refer to.
      * @param msg
      * @param {Destination | Destination[]} destinations
      * @param {MessageOptions} options
@@ -68,6 +72,12 @@ export class SlackDestination implements Destination {
     public users: string[] = [];
     public channels: string[] = [];
 
+    /**
+     * Id of the message to reply to in its thread; overrides the thread in {MessageOptions}
+     */
+    public thread: string;
+    public broadcast: boolean;
+
     constructor(public team: string) { }
 
     /**
@@ -89,6 +99,18 @@ export class SlackDestination implements Destination {
         this.channels.push(channel);
         return this;
     }
+
+    /**
+     * Reply in the thread of an earlier message in the addressed channels or direct messages.
+     * @param {string | MessageReference} message id of the message or reference returned when sending it
+     * @param {boolean} broadcast also post the reply to the channel
+     * @returns {SlackDestination}
+     */
+    public replyInThread(message: string | MessageReference, broadcast: boolean = false): SlackDestination {
+        this.thread = threadId(message);
+        this.broadcast = broadcast;
+        return this;
+    }
 }
 
 /**
@@ -131,6 +153,151 @@ export function addressEvent(rootType: string): CustomEventDestination {
     return new CustomEventDestination(rootType);
 }
 
+/**
+ * Message Destination for a Microsoft Teams channel. Messages are rendered as cards
+ * and posted directly to the channel's incoming webhook.
+ */
+export class MicrosoftTeamsDestination implements Destination {
+
+    public static MICROSOFT_TEAMS_USER_AGENT: string = "msteams";
+
+    public userAgent: string = MicrosoftTeamsDestination.MICROSOFT_TEAMS_USER_AGENT;
+
+    constructor(public webhookUrl: string) { }
+}
+
+export function addressMicrosoftTeams(webhookUrl: string): MicrosoftTeamsDestination {
+    return new MicrosoftTeamsDestination(webhookUrl);
+}
+
+/**
+ * Message Destination for Mattermost. Messages are posted directly to the incoming webhook;
+ * without channel they end up in the webhook's default channel.
+ */
+export class MattermostDestination implements Destination {
+
+    public static MATTERMOST_USER_AGENT: string = "mattermost";
+
+    public userAgent: string = MattermostDestination.MATTERMOST_USER_AGENT;
+
+    constructor(public webhookUrl: string, public channel?: string) { }
+}
+
+export function addressMattermost(webhookUrl: string, channel?: string): MattermostDestination {
+    return new MattermostDestination(webhookUrl, channel);
+}
+
+/**
+ * Message Destination for email recipients. Messages are rendered as HTML and plain text
+ * and delivered over SMTP.
+ */
+export class EmailDestination implements Destination {
+
+    public static EMAIL_USER_AGENT: string = "email";
+
+    public userAgent: string = EmailDestination.EMAIL_USER_AGENT;
+
+    public to: string[] = [];
+    public cc: string[] = [];
+    public bcc: string[] = [];
+
+    /**
+     * Subject of the email; defaults to the first line of the message
+     */
+    public subject: string;
+
+    /**
+     * Address certain recipients by their email address.
+     * @param {string} recipient
+     * @returns {EmailDestination}
+     */
+    public addressTo(recipient: string): EmailDestination {
+        this.to.push(recipient);
+        return this;
+    }
+
+    public addressCc(recipient: string): EmailDestination {
+        this.cc.push(recipient);
+        return this;
+    }
+
+    public addressBcc(recipient: string): EmailDestination {
+        this.bcc.push(recipient);
+        return this;
+    }
+
+    public withSubject(subject: string): EmailDestination {
+        this.subject = subject;
+        return this;
+    }
+}
+
+/**
+ * Shortcut for creating an EmailDestination which addresses the given recipients.
+ * @param {string} recipients
+ * @returns {EmailDestination}
+ */
+export function addressEmail(...recipients: string[]): EmailDestination {
+    const ed = new EmailDestination();
+    recipients.forEach(r => ed.addressTo(r));
+    return ed;
+}
+
+/**
+ * Message Destination for any HTTP endpoint, e.g. of an incident tool or status page. Messages are posted
+ * as JSON; delivery is retried with exponential backoff.
+ */
+export class WebhookDestination implements Destination {
+
+    public static WEBHOOK_USER_AGENT: string = "webhook";
+
+    public userAgent: string = WebhookDestination.WEBHOOK_USER_AGENT;
+
+    constructor(public url: string, public options: WebhookOptions = {}) { }
+}
+
+export function addressWebhook(url: string, options?: WebhookOptions): WebhookDestination {
+    return new WebhookDestination(url, options);
+}
+
+export interface WebhookOptions {
+
+    /**
+     * Additional HTTP headers, e.g. for authorization
+     */
+    headers?: { [name: string]: string };
+
+    /**
+     * Secret to sign the body with; the HMAC SHA-256 hex digest is sent as 'sha256=<digest>'
+     * in the X-Atomist-Signature header
+     */
+    secret?: string;
+
+    /**
+     * Create the body to post from the message; defaults to posting the {WebhookPayload} as is
+     */
+    template?: (payload: WebhookPayload) => any;
+
+    /**
+     * How to retry failed deliveries; requests failing with a 4xx status other than 408 and 429
+     * are not retried by default
+     */
+    retry?: RetryPolicy;
+}
+
+/**
+ * Message as passed to the template of a {WebhookDestination}
+ */
+export interface WebhookPayload {
+
+    /**
+     * Text of the message with Slack markup translated to Markdown
+     */
+    text: string;
+    message: SlackMessage;
+    options: MessageOptions;
+}
+
 /**
  * Message to create a Snippet in Slack
  */
@@ -173,6 +340,62 @@ export interface MessageOptions {
      * if a previous message with the same id exists.
      */
     post?: "update_only" | "always";
+
+    /**
+     * Reply in the thread of an earlier message, given by its id or the
+     * reference returned when sending it.
+     */
+    thread?: string | MessageReference;
+
+    /**
+     * If a threaded reply should also be posted to the channel.
+     */
+    broadcast?: boolean;
+}
+
+/**
+ * Reference to a sent message as returned by respond and send.
+ */
+export interface MessageReference {
+
+    /**
+     * Id of the message. Generated if the message was sent without id; a generated id
+     * isn't sent along with the message and therefore can't be replied to in a thread.
+     */
+    id: string;
+
+    /**
+     * Id of the message whose thread the message was posted in
+     */
+    thread?: string;
+}
+
+/**
+ * Id of the message starting the thread to reply in. Replies to a threaded
+ * message end up in the same thread.
+ * @param {string | MessageReference} message
+ * @returns {string}
+ */
+export function threadId(message: string | MessageReference): string {
+    if (!message) {
+        return undefined;
+    }
+    return typeof message === "string" ? message : (message.thread || message.id);
+}
+
+/**
+ * Reference to a message sent with the given options to the given destinations. The thread is the one
+ * of the options or else of the first Slack destination replying in a thread.
+ * @param {MessageOptions} options
+ * @param {Destination[]} destinations
+ * @returns {MessageReference}
+ */
+export function messageReference(options: MessageOptions = {}, destinations: Destination[] = []): MessageReference {
+    const thread = threadId(options.thread) || destinations
+        .filter(d => d.userAgent === SlackDestination.SLACK_USER_AGENT)
+        .map(d => (d as SlackDestination).thread)
+        .find(t => !!t);
+    return thread ? { id: options.id || guid(), thread } : { id: options.id || guid() };
 }
 
 export class MessageMimeTypes {
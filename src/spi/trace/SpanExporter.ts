@@ -0,0 +1,55 @@
+/**
+ * Finished span in the Zipkin v2 JSON format.
+ */
+export interface Span {
+
+    /**
+     * 32 character lower-hex trace id shared by all spans of an invocation
+     */
+    traceId: string;
+
+    /**
+     * 16 character lower-hex id of this span
+     */
+    id: string;
+
+    /**
+     * Id of the parent span; undefined for the root span of a trace
+     */
+    parentId?: string;
+
+    name: string;
+
+    kind?: "CLIENT" | "SERVER" | "PRODUCER" | "CONSUMER";
+
+    /**
+     * Start of the span in microseconds since epoch
+     */
+    timestamp: number;
+
+    /**
+     * Duration of the span in microseconds
+     */
+    duration: number;
+
+    localEndpoint: {
+        serviceName: string;
+    };
+
+    tags: {
+        [key: string]: string;
+    };
+}
+
+/**
+ * Implementations of {SpanExporter} ship finished spans to a file or tracing backend.
+ */
+export interface SpanExporter {
+
+    /**
+     * Export a finished span.
+     * @param {Span} span
+     * @returns {Promise<void>}
+     */
+    export(span: Span): Promise<void>;
+}
@@ -12,6 +12,7 @@ import {
     gitInfo,
     gqlGen,
     readVersion,
+    replay,
     run,
     start,
 } from "./cli/commands";
@@ -120,6 +121,45 @@ yargs.completion("completion")
                 process.exit(101);
             });
     })
+    .command("replay <type> <id>", "Replay a recorded command or event on a running automation client", ya => {
+        return (ya as any) // positional is not yet supported in @types/yargs
+            .positional("type", {
+                describe: "Type of the recorded payload, either 'command' or 'event'",
+                required: true,
+            })
+            .positional("id", {
+                describe: "Correlation id of the recorded command or event",
+                required: true,
+            })
+            .option("url", {
+                default: "http://localhost:2866",
+                describe: "Base URL of the automation client REST API",
+                type: "string",
+            })
+            .option("dry-run", {
+                default: false,
+                describe: "Capture messages instead of sending them",
+                type: "boolean",
+            })
+            .option("user", {
+                describe: "User name for basic authentication",
+                type: "string",
+            })
+            .option("password", {
+                describe: "Password for basic authentication",
+                type: "string",
+            })
+            .option("token", {
+                describe: "GitHub token for bearer authentication",
+                type: "string",
+            });
+    }, argv => {
+        replay(argv)
+            .then(status => process.exit(status), err => {
+                console.error(`${Package}: Unhandled Error: ${err.message}`);
+                process.exit(101);
+            });
+    })
     .command("config", "Configure environment for running automation clients", ya => {
         return ya
             .option("slack-team", {
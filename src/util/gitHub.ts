@@ -1,4 +1,5 @@
 import axios, { AxiosPromise, AxiosRequestConfig } from "axios";
+import { traced } from "../internal/trace/tracing";
 import { logger } from "../internal/util/logger";
 
 import { decode } from "../internal/util/base64";
@@ -59,7 +60,7 @@ function filePromise(token: string, user: string, repo: string, path: string): A
     const url = `${GitHubDotComBase}/repos/${user}/${repo}/contents/${path}`;
     logger.debug(`Request to '${url}' to check for file existence]`);
     // We only care if it returns 200. Otherwise it isn't there
-    return axios.get(url, authHeaders(token));
+    return http("GET", url, () => axios.get(url, authHeaders(token)));
 }
 
 export interface Issue {
@@ -75,7 +76,7 @@ export function raiseIssue(token: string, rr: RepoRef, issue: Issue): AxiosPromi
     const grr = isGitHubRepoRef(rr) ? rr : new GitHubRepoRef(rr.owner, rr.repo, rr.sha);
     const url = `${grr.apiBase}/repos/${rr.owner}/${rr.repo}/issues`;
     logger.debug(`Request to '${url}' to raise issue`);
-    return axios.post(url, issue, authHeaders(token));
+    return http("POST", url, () => axios.post(url, issue, authHeaders(token)));
 }
 
 export interface GitHubRepoWebhookConfig {
@@ -95,7 +96,7 @@ export interface GitHubRepoWebhookPayload {
 export function addRepoWebhook(token: string, rr: GitHubRepoRef, webhookData: GitHubRepoWebhookPayload): AxiosPromise {
     const url = `${rr.apiBase}/repos/${rr.owner}/${rr.repo}/hooks`;
     logger.debug(`Request to '${url}' to create webhook`);
-    return axios.post(url, webhookData, authHeaders(token));
+    return http("POST", url, () => axios.post(url, webhookData, authHeaders(token)));
 }
 
 /**
@@ -116,12 +117,13 @@ export interface Comment {
 export function createCommitComment(token: string, rr: GitHubRepoRef, comment: Comment): AxiosPromise {
     const url = `${rr.apiBase}/repos/${rr.owner}/${rr.repo}/commits/${rr.sha}/comments`;
     logger.debug(`Request to '${url}' to create comment`);
-    return axios.post(url, comment, authHeaders(token));
+    return http("POST", url, () => axios.post(url, comment, authHeaders(token)));
 }
 
 export function createRepo(token: string, rr: GitHubRepoRef, description: string, priv: boolean): AxiosPromise {
     const config = authHeaders(token);
-    return axios.get(`${rr.apiBase}/orgs/${rr.owner}`, config)
+    const orgUrl = `${rr.apiBase}/orgs/${rr.owner}`;
+    return http("GET", orgUrl, () => axios.get(orgUrl, config))
         .then(result => {
             // We now know the owner is an org
             return `${rr.apiBase}/orgs/${rr.owner}/repos`;
@@ -136,10 +138,26 @@ export function createRepo(token: string, rr: GitHubRepoRef, description: string
                 private: priv,
             };
             logger.debug(`Request to '${url}' to create repo`);
-            return axios.post(url, payload, config);
+            return http("POST", url, () => axios.post(url, payload, config));
         });
 }
 
+/**
+ * Run the given request in a tracing span of the current invocation
+ */
+function http(method: string, url: string, request: () => AxiosPromise): AxiosPromise {
+    return traced(`http ${method}`, span => request()
+        .then(response => {
+            span.tag("http.status_code", response.status);
+            return response;
+        }, err => {
+            if (err.response) {
+                span.tag("http.status_code", err.response.status);
+            }
+            throw err;
+        }), { kind: "CLIENT", tags: { "http.method": method, "http.url": url } });
+}
+
 function authHeaders(token: string): AxiosRequestConfig {
     return token ? {
         headers: {
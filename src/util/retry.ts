@@ -11,6 +11,17 @@ export interface RetryOptions {
     randomize: boolean;
 }
 
+/**
+ * Retry options extended by a predicate selecting the errors that should be retried.
+ */
+export interface RetryPolicy extends Partial<RetryOptions> {
+
+    /**
+     * Return false if the given error should not be retried; all errors are retried by default
+     */
+    retryable?: (err: any) => boolean;
+}
+
 const DefaultRetryOptions: RetryOptions = {
     retries: 5,
     factor: 3,
@@ -28,16 +39,20 @@ const DefaultRetryOptions: RetryOptions = {
  * @return {Promise<R>}
  */
 export function doWithRetry<R>(what: () => Promise<R>, description: string,
-                               opts: Partial<RetryOptions> = {}): Promise<R> {
+                               opts: RetryPolicy = {}): Promise<R> {
+    const { retryable, ...options } = opts;
     const retryOptions: RetryOptions = {
         ...DefaultRetryOptions,
-        ...opts,
+        ...options,
     };
     logger.debug(`${description} with retry options '%j'`, retryOptions);
     return promiseRetry(retryOptions, retry => {
         return what()
             .catch(err => {
                 logger.warn(`Error occurred attempting '${description}'. '${err.message}'`);
+                if (retryable && !retryable(err)) {
+                    throw err;
+                }
                 retry(err);
             });
     });
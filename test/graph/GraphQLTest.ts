@@ -139,4 +139,9 @@ query Repos($teamId: ID!, $offset: Int!) {
         console.log(query);
         assert.equal(query, ReplaceQuery1);
     });
+
+    it("should extract root type of subscription", () => {
+        assert(GraphQL.rootType("subscription GitLabPush { GitLabPush { id } }") === "GitLabPush");
+        assert(GraphQL.rootType(InvalidQuery) === "ChatTeam");
+    });
 });
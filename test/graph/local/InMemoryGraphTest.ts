@@ -0,0 +1,43 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    InMemoryGraph,
+    NodeReference,
+} from "../../../src/graph/local/InMemoryGraph";
+
+describe("InMemoryGraph", () => {
+
+    it("should load fixtures from file", () => {
+        const graph = InMemoryGraph.fromFile("graph.json", __dirname);
+        assert.deepEqual(graph.ids("Repo"), ["repo1", "repo2"]);
+        assert(graph.node("Repo", "repo1").name === "automation-client-ts");
+        assert.deepEqual(graph.ids("ChatChannel"), ["C1"]);
+        assert(graph.node("Org", "org1").owner === "atomist");
+    });
+
+    it("should store nested nodes as references", () => {
+        const graph = new InMemoryGraph();
+        const id = graph.add("Issue", { number: 1, repo: { id: "repo1", name: "client" } });
+        const issue = graph.node("Issue", id);
+        assert(issue.repo instanceof NodeReference);
+        assert(issue.repo.type === "Repo");
+        assert(graph.node("Repo", "repo1").name === "client");
+    });
+
+    it("should merge nodes with the same id", () => {
+        const graph = new InMemoryGraph();
+        graph.add("Repo", { id: "repo1", name: "client" });
+        graph.add("Repo", { id: "repo1", owner: "atomist" });
+        assert.deepEqual(graph.node("Repo", "repo1"), { id: "repo1", name: "client", owner: "atomist" });
+    });
+
+    it("should notify subscribers of added nodes", () => {
+        const graph = new InMemoryGraph();
+        const added: string[] = [];
+        const unsubscribe = graph.subscribe((type, id) => added.push(`${type}:${id}`));
+        graph.add("Issue", { id: "1", repo: { id: "repo1" } });
+        unsubscribe();
+        graph.add("Issue", { id: "2" });
+        assert.deepEqual(added, ["Issue:1"]);
+    });
+});
@@ -0,0 +1,79 @@
+import "mocha";
+import * as assert from "power-assert";
+import { subscriptionFromFile } from "../../../src/graph/graphQL";
+import { InMemoryGraph } from "../../../src/graph/local/InMemoryGraph";
+import { SubscriptionEvaluator } from "../../../src/graph/local/SubscriptionEvaluator";
+import { EventFired } from "../../../src/HandleEvent";
+import { HelloIssue } from "../../event/HelloIssue";
+
+describe("SubscriptionEvaluator", () => {
+
+    const subscription = subscriptionFromFile("pushSubscription", __dirname);
+
+    function push(id: string, branch: string, repo: string = "repo1") {
+        return {
+            id,
+            branch,
+            after: { sha: `${id}-sha`, message: "Fix tests", author: { login: "cd" } },
+            repo: { id: repo },
+            commits: [{ sha: `${id}-sha` }, { sha: `${id}-parent` }],
+        };
+    }
+
+    it("should produce event for added node", () => {
+        const graph = InMemoryGraph.fromFile("graph.json", __dirname);
+        const evaluator = new SubscriptionEvaluator(graph, subscription);
+        const events: Array<EventFired<any>> = [];
+        evaluator.subscribe(e => events.push(e));
+
+        graph.add("Push", push("p1", "master"));
+
+        assert(events.length === 1);
+        assert.deepEqual(events[0], {
+            data: {
+                Push: [{
+                    __typename: "Push",
+                    branch: "master",
+                    after: { sha: "p1-sha", message: "Fix tests" },
+                    repo: { name: "automation-client-ts", channels: [{ name: "automation-client" }] },
+                    commits: [{ sha: "p1-sha" }],
+                }],
+            },
+            extensions: { operationName: "PushToMaster" },
+            secrets: [],
+        });
+    });
+
+    it("should filter nodes by arguments", () => {
+        const graph = InMemoryGraph.fromFile("graph.json", __dirname);
+        graph.load({ Repo: [{ id: "repo3", owner: "other", name: "fork" }] });
+        const evaluator = new SubscriptionEvaluator(graph, subscription);
+        graph.add("Push", push("p1", "master"));
+        graph.add("Push", push("p2", "feature"));
+        graph.add("Push", push("p3", "master", "repo3"));
+        graph.add("Push", push("p4", "master", "repo2"));
+
+        const events = evaluator.evaluateAll();
+        assert.deepEqual(events.map(e => e.data.Push[0].after.sha), ["p1-sha", "p4-sha"]);
+        assert.deepEqual(events[1].data.Push[0].repo.channels, []);
+    });
+
+    it("should return null for missing fields", () => {
+        const graph = new InMemoryGraph();
+        const evaluator = new SubscriptionEvaluator(graph, `subscription Issues {
+            Issue { number title repo { name } labels { name } }
+        }`);
+        const id = graph.add("Issue", { number: 1 });
+        assert.deepEqual(evaluator.evaluate(id).data, { Issue: [{ number: 1, title: null, repo: null, labels: [] }] });
+    });
+
+    it("should run subscription of event handler", () => {
+        const graph = InMemoryGraph.fromFile("graph.json", __dirname);
+        const evaluator = SubscriptionEvaluator.forHandler(graph, new HelloIssue());
+        assert(evaluator.rootType === "Issue");
+        const id = graph.add("Issue", { number: 12, title: "Broken", repo: { id: "repo1" } });
+        const issue = evaluator.evaluate(id).data.Issue[0];
+        assert(issue.repo.channels[0].name === "automation-client");
+        assert(issue.repo.org.provider === null);
+    });
+});
@@ -0,0 +1,57 @@
+import "mocha";
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { FileDeduplicationStore } from "../../../src/internal/event/FileDeduplicationStore";
+import { guid } from "../../../src/internal/util/string";
+
+describe("FileDeduplicationStore", () => {
+
+    let directory: string;
+    let file: string;
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(() => {
+        directory = path.join(os.tmpdir(), `atomist-dedup-store-${guid()}`);
+        file = path.join(directory, "dedup.log");
+        now = Date.now();
+    });
+
+    afterEach(() => {
+        fs.removeSync(directory);
+    });
+
+    it("should detect keys seen within the window", () => {
+        const store = new FileDeduplicationStore({ file }, clock);
+        assert(store.add("a", 100));
+        assert(!store.add("a", 100));
+        now += 100;
+        assert(store.add("a", 100));
+    });
+
+    it("should keep keys across restarts", () => {
+        const store = new FileDeduplicationStore({ file }, clock);
+        store.add("a", 100);
+        store.add("b", 100);
+        store.remove("b");
+
+        const restarted = new FileDeduplicationStore({ file }, clock);
+        assert(!restarted.add("a", 100));
+        assert(restarted.add("b", 100));
+    });
+
+    it("should drop expired keys on compaction", () => {
+        const store = new FileDeduplicationStore({ file, maxAge: 1000 }, clock);
+        store.add("a", 5000);
+        now += 500;
+        store.add("b", 5000);
+        now += 600;
+        store.compact();
+        assert(fs.readFileSync(file, "utf8").trim().split("\n").length === 1);
+        assert(store.add("a", 5000));
+        assert(!store.add("b", 5000));
+    });
+});
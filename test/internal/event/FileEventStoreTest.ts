@@ -0,0 +1,136 @@
+import "mocha";
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { FileEventStore } from "../../../src/internal/event/FileEventStore";
+import { CommandIncoming, EventIncoming } from "../../../src/internal/transport/RequestProcessor";
+import { guid } from "../../../src/internal/util/string";
+
+describe("FileEventStore", () => {
+
+    let directory: string;
+
+    beforeEach(() => {
+        directory = path.join(os.tmpdir(), `atomist-event-store-${guid()}`);
+    });
+
+    afterEach(() => {
+        fs.removeSync(directory);
+    });
+
+    function event(id: string): EventIncoming {
+        return {
+            data: { Push: [{ sha: id }] },
+            extensions: {
+                team_id: "T123",
+                operationName: "HelloWorld",
+                correlation_id: id,
+            },
+            secrets: [{ uri: "github://org_token", value: "abcdefghij" }],
+        };
+    }
+
+    function command(id: string): CommandIncoming {
+        return {
+            command: "HelloWorld",
+            correlation_id: id,
+            team: { id: "T123" },
+            source: null,
+            parameters: [],
+            mapped_parameters: [],
+            secrets: [],
+        };
+    }
+
+    it("should record and read events, commands and messages", () => {
+        const store = new FileEventStore({ directory });
+        store.recordEvent(event("1"));
+        store.recordCommand(command("2"));
+        store.recordMessage("3", { text: "Hello" });
+
+        const events = store.events();
+        assert(events.length === 1);
+        assert(events[0].key.guid === "1");
+        assert(events[0].value.data.Push[0].sha === "1");
+        assert(store.commands().length === 1);
+        assert(store.commands()[0].key.guid === "2");
+        assert.deepEqual(store.messages()[0].value, { text: "Hello" });
+    });
+
+    it("should not write secrets to disk", () => {
+        const store = new FileEventStore({ directory });
+        store.recordEvent(event("1"));
+        const content = fs.readFileSync(path.join(directory, "events.log"), "utf8");
+        assert(!content.includes("abcdefghij"));
+        assert(store.events()[0].value.secrets[0].value === "a********j");
+    });
+
+    it("should keep entries across instances", () => {
+        new FileEventStore({ directory }).recordEvent(event("1"));
+        const store = new FileEventStore({ directory });
+        assert(store.events().length === 1);
+    });
+
+    it("should page and filter entries by time range", () => {
+        const store = new FileEventStore({ directory });
+        for (let i = 0; i < 10; i++) {
+            store.recordCommand(command(i.toString()));
+        }
+        const page = store.commands(-1, { offset: 2, limit: 3 });
+        assert.deepEqual(page.map(c => c.key.guid), ["2", "3", "4"]);
+        assert(store.commands(Date.now()).length === 0);
+        assert(store.commands(-1, { to: 0 }).length === 0);
+        const last = store.commands()[9];
+        assert(store.commands(-1, { to: last.key.ts }).map(c => c.key.guid).includes("9"));
+        assert(store.commands(last.key.ts).length === 0);
+    });
+
+    it("should rotate and compact log files", () => {
+        const store = new FileEventStore({ directory, maxFileSize: 500, maxFiles: 2 });
+        for (let i = 0; i < 20; i++) {
+            store.recordCommand(command((i % 5).toString()));
+        }
+        return store.compact()
+            .then(() => {
+                const files = fs.readdirSync(directory);
+                assert(files.length <= 3);
+                assert(files.includes("events.log"));
+
+                // superseded entries with the same id have been removed
+                const commands = store.commands();
+                const ids = commands.map(c => c.key.guid);
+                assert(commands.length < 20);
+                assert(ids.includes("4"));
+            });
+    });
+
+    it("should read entries outside the tail from compacted log files", () => {
+        const store = new FileEventStore({ directory, maxFileSize: 500, tailSize: 1 });
+        for (let i = 0; i < 10; i++) {
+            store.recordCommand(command(i.toString()));
+        }
+        return store.rotate()
+            .then(() => {
+                assert(fs.readdirSync(directory).every(f => f !== "events.log"));
+                const commands = store.commands();
+                assert.deepEqual(commands.map(c => c.key.guid), ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+                assert(commands.every(c => c.value.correlation_id === c.key.guid));
+                assert(store.findCommand("3").correlation_id === "3");
+
+                const reloaded = new FileEventStore({ directory, tailSize: 1 });
+                assert.deepEqual(reloaded.commands().map(c => c.value.correlation_id), commands.map(c => c.key.guid));
+            });
+    });
+
+    it("should report series of events", () => {
+        const store = new FileEventStore({ directory });
+        store.recordEvent(event("1"));
+        store.recordEvent(event("2"));
+        const [values, timestamps] = store.eventSeries();
+        assert(values.length === 36);
+        assert(timestamps.length === 36);
+        assert(values[values.length - 1] === 2);
+    });
+});
@@ -0,0 +1,61 @@
+import "mocha";
+import * as assert from "power-assert";
+import { InMemoryDeadLetterStore } from "../../../src/internal/event/InMemoryDeadLetterStore";
+import { EventIncoming } from "../../../src/internal/transport/RequestProcessor";
+
+describe("InMemoryDeadLetterStore", () => {
+
+    function event(correlationId: string): EventIncoming {
+        return {
+            data: { Issue: [{ title: "test" }] },
+            extensions: {
+                operationName: "IssueHandler",
+                team_id: "T123",
+                correlation_id: correlationId,
+            },
+            secrets: [{ uri: "github://org_token", value: "super-secret-token" }],
+        };
+    }
+
+    it("should add and list dead letters with masked secrets", () => {
+        const store = new InMemoryDeadLetterStore();
+        const id = store.add(event("a"), new Error("failed"));
+        const entries = store.list();
+        assert(entries.length === 1);
+        assert(entries[0].id === id);
+        assert(entries[0].error.message === "failed");
+        assert(entries[0].event.secrets[0].value !== "super-secret-token");
+    });
+
+    it("should keep names of failed handlers", () => {
+        const store = new InMemoryDeadLetterStore();
+        const id = store.add(event("a"), "failed", ["IssueHandler"]);
+        assert.deepEqual(store.find(id).handlers, ["IssueHandler"]);
+        assert.deepEqual(store.remove(id).handlers, ["IssueHandler"]);
+    });
+
+    it("should find dead letter by id", () => {
+        const store = new InMemoryDeadLetterStore();
+        store.add(event("a"), "failed");
+        const id = store.add(event("b"), "failed");
+        assert(store.find(id).event.extensions.correlation_id === "b");
+        assert(!store.find("unknown"));
+    });
+
+    it("should remove dead letter keeping its secrets", () => {
+        const store = new InMemoryDeadLetterStore();
+        const id = store.add(event("a"), "failed");
+        const entry = store.remove(id);
+        assert(entry.event.secrets[0].value === "super-secret-token");
+        assert(store.list().length === 0);
+        assert(!store.remove(id));
+    });
+
+    it("should drop oldest entries when full", () => {
+        const store = new InMemoryDeadLetterStore(2);
+        store.add(event("a"), "failed");
+        store.add(event("b"), "failed");
+        store.add(event("c"), "failed");
+        assert.deepEqual(store.list().map(e => e.event.extensions.correlation_id), ["b", "c"]);
+    });
+});
@@ -0,0 +1,41 @@
+import "mocha";
+import * as assert from "power-assert";
+import { InMemoryDeduplicationStore } from "../../../src/internal/event/InMemoryDeduplicationStore";
+
+describe("InMemoryDeduplicationStore", () => {
+
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(() => {
+        now = 1000;
+    });
+
+    it("should detect keys seen within the window", () => {
+        const store = new InMemoryDeduplicationStore(10, clock);
+        assert(store.add("a", 100));
+        assert(!store.add("a", 100));
+        assert(store.add("b", 100));
+        now += 100;
+        assert(store.add("a", 100));
+    });
+
+    it("should forget removed keys", () => {
+        const store = new InMemoryDeduplicationStore(10, clock);
+        assert(store.add("a", 100));
+        store.remove("a");
+        assert(store.add("a", 100));
+    });
+
+    it("should drop oldest keys when full", () => {
+        const store = new InMemoryDeduplicationStore(2, clock);
+        assert(store.add("a", 100));
+        now++;
+        assert(store.add("b", 100));
+        now++;
+        assert(store.add("c", 100));
+        assert(!store.add("c", 100));
+        assert(!store.add("b", 100));
+        assert(store.add("a", 100));
+    });
+});
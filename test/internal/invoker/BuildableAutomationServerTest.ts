@@ -1,11 +1,31 @@
 import stringify = require("json-stringify-safe");
 import "mocha";
 import * as assert from "power-assert";
-import { CommandHandler, EventHandler, MappedParameter, Parameter, Parameters, Secret } from "../../../src/decorators";
+import {
+    CommandHandler,
+    EventHandler,
+    MappedParameter,
+    Parameter,
+    Parameters,
+    Secret,
+    Timeout,
+} from "../../../src/decorators";
 import { HandleCommand, SelfDescribingHandleCommand } from "../../../src/HandleCommand";
 import { HandleEvent } from "../../../src/HandleEvent";
+import { HandlerContext } from "../../../src/HandlerContext";
+import { isHandlerTimeoutError } from "../../../src/HandlerResult";
+import {
+    cancel,
+    cancelled,
+    registerCancellation,
+} from "../../../src/internal/invoker/cancellation";
+import {
+    dispose,
+    registerDisposable,
+} from "../../../src/internal/invoker/disposable";
 import { consoleMessageClient } from "../../../src/internal/message/ConsoleMessageClient";
 import { succeed } from "../../../src/operations/support/contextUtils";
+import { failedEventHandlers } from "../../../src/server/AbstractAutomationServer";
 import { AutomationServer } from "../../../src/server/AutomationServer";
 import { BuildableAutomationServer } from "../../../src/server/BuildableAutomationServer";
 import { SmartParameters } from "../../../src/SmartParameters";
@@ -587,4 +607,228 @@ describe("BuildableAutomationServer", () => {
             },
             done);
     });
+
+    describe("retry", () => {
+
+        let attempts: number;
+
+        @EventHandler("fails twice", "subscription Test { Issue { title }}")
+        class FailsTwice implements HandleEvent<any> {
+
+            public handle(ch, params) {
+                attempts++;
+                if (attempts <= 2) {
+                    return Promise.reject(new Error(`attempt ${attempts} failed`));
+                }
+                return Promise.resolve({ code: 0, attempts });
+            }
+        }
+
+        const event = {
+            data: {
+                Issue: [{
+                    title: "test",
+                }],
+            },
+            extensions: {
+                operationName: "FailsTwice",
+            },
+        };
+
+        const ctx = {
+            teamId: "T666",
+            correlationId: "555",
+            messageClient,
+        };
+
+        beforeEach(() => attempts = 0);
+
+        it("should not retry event handler without retry policy", done => {
+            const s = new BuildableAutomationServer({ name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [] });
+            s.registerEventHandler(FailsTwice);
+            s.onEvent(event, ctx)
+                .then(() => done(new Error("Should have failed")), err => {
+                    assert(attempts === 1);
+                    assert(err.message === "attempt 1 failed");
+                    done();
+                });
+        });
+
+        it("should retry event handler with handler retry policy", done => {
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: { handlers: { FailsTwice: { retries: 3, minTimeout: 1, maxTimeout: 1, randomize: false } } },
+            });
+            s.registerEventHandler(FailsTwice);
+            s.onEvent(event, ctx)
+                .then(hr => {
+                    assert(attempts === 3);
+                    assert((hr[0] as any).attempts === 3);
+                })
+                .then(() => done(), done);
+        });
+
+        it("should give up after retries are exhausted", done => {
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: { events: { retries: 1, minTimeout: 1, maxTimeout: 1, randomize: false } },
+            });
+            s.registerEventHandler(FailsTwice);
+            s.onEvent(event, ctx)
+                .then(() => done(new Error("Should have failed")), err => {
+                    assert(attempts === 2);
+                    assert(err.message === "attempt 2 failed");
+                    done();
+                });
+        });
+
+        it("should retry event handler returning failed result", done => {
+            @EventHandler("fails once", "subscription Test { Issue { title }}")
+            class FailsOnce implements HandleEvent<any> {
+
+                public handle(ch, params) {
+                    attempts++;
+                    return Promise.resolve({ code: attempts === 1 ? 1 : 0, attempts });
+                }
+            }
+
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: { events: { retries: 3, minTimeout: 1, maxTimeout: 1, randomize: false } },
+            });
+            s.registerEventHandler(FailsOnce);
+            s.onEvent({ ...event, extensions: { operationName: "FailsOnce" } }, ctx)
+                .then(hr => {
+                    assert(attempts === 2);
+                    assert(hr[0].code === 0);
+                })
+                .then(() => done(), done);
+        });
+
+        it("should return failed result after retries are exhausted", done => {
+            @EventHandler("always fails", "subscription Test { Issue { title }}")
+            class AlwaysFails implements HandleEvent<any> {
+
+                public handle(ch, params) {
+                    attempts++;
+                    return Promise.resolve({ code: 1, message: "Failed", attempts });
+                }
+            }
+
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: { events: { retries: 2, minTimeout: 1, maxTimeout: 1, randomize: false } },
+            });
+            s.registerEventHandler(AlwaysFails);
+            s.onEvent({ ...event, extensions: { operationName: "AlwaysFails" } }, ctx)
+                .then(hr => {
+                    assert(attempts === 3);
+                    assert(hr[0].code === 1);
+                    assert((hr[0] as any).attempts === 3);
+                    assert.deepEqual(failedEventHandlers(ctx as any), ["AlwaysFails"]);
+                })
+                .then(() => done(), done);
+        });
+
+        it("should not retry errors that are not retryable", done => {
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: {
+                    events: { retries: 3, minTimeout: 1, maxTimeout: 1 },
+                    handlers: { FailsTwice: { retryable: err => !err.message.endsWith("1 failed") } },
+                },
+            });
+            s.registerEventHandler(FailsTwice);
+            s.onEvent(event, ctx)
+                .then(() => done(new Error("Should have failed")), err => {
+                    assert(attempts === 1);
+                    done();
+                });
+        });
+    });
+
+    describe("timeout", () => {
+
+        @EventHandler("hangs", "subscription Test { Issue { title }}")
+        @Timeout(20)
+        class Hangs implements HandleEvent<any> {
+
+            public handle(ch, params) {
+                // tslint:disable-next-line:no-empty
+                return new Promise<any>(() => { });
+            }
+        }
+
+        const event = {
+            data: {
+                Issue: [{
+                    title: "test",
+                }],
+            },
+            extensions: {
+                operationName: "Hangs",
+            },
+        };
+
+        it("should fail event handler exceeding declared timeout", done => {
+            const s = new BuildableAutomationServer({ name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [] });
+            s.registerEventHandler(Hangs);
+            s.onEvent(event, { teamId: "T666", correlationId: "555", messageClient })
+                .then(() => done(new Error("Should have timed out")), err => {
+                    assert(isHandlerTimeoutError(err));
+                    assert(err.timeout === 20);
+                    done();
+                });
+        });
+
+        it("should stop retrying once timed out", done => {
+            let attempts = 0;
+
+            @EventHandler("fails slowly", "subscription Test { Issue { title }}")
+            @Timeout(50)
+            class FailsSlowly implements HandleEvent<any> {
+
+                public handle(ch, params) {
+                    attempts++;
+                    return new Promise<any>((resolve, reject) => setTimeout(() => reject(new Error("failed")), 20));
+                }
+            }
+
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                retry: { events: { retries: 10, minTimeout: 1, maxTimeout: 1, randomize: false } },
+            });
+            s.registerEventHandler(FailsSlowly);
+            const ctx: HandlerContext = { teamId: "T666", correlationId: "555", messageClient };
+            ctx.lifecycle = {
+                registerDisposable: registerDisposable(ctx),
+                dispose: dispose(ctx),
+                registerCancellation: registerCancellation(ctx),
+                cancelled: cancelled(ctx),
+                cancel: cancel(ctx),
+            };
+            s.onEvent({ ...event, extensions: { operationName: "FailsSlowly" } }, ctx)
+                .then(() => done(new Error("Should have timed out")), err => {
+                    assert(isHandlerTimeoutError(err));
+                    const attemptsAtTimeout = attempts;
+                    setTimeout(() => {
+                        assert(attempts === attemptsAtTimeout);
+                        done();
+                    }, 100);
+                });
+        });
+
+        it("should let configured timeout override declared timeout", done => {
+            const s = new BuildableAutomationServer({
+                name: "foobar", version: "1.0.0", teamIds: ["bar"], keywords: [],
+                timeout: { handlers: { Hangs: 30 } },
+            });
+            s.registerEventHandler(Hangs);
+            s.onEvent(event, { teamId: "T666", correlationId: "555", messageClient })
+                .then(() => done(new Error("Should have timed out")), err => {
+                    assert(err.timeout === 30);
+                    done();
+                });
+        });
+    });
 });
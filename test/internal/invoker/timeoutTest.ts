@@ -0,0 +1,192 @@
+import "mocha";
+import * as assert from "power-assert";
+import { runCommand } from "../../../src/action/cli/commandLine";
+import { HandlerContext } from "../../../src/HandlerContext";
+import {
+    failure,
+    isHandlerTimeoutError,
+} from "../../../src/HandlerResult";
+import {
+    cancel,
+    cancelled,
+    registerCancellation,
+    scopeCancellation,
+} from "../../../src/internal/invoker/cancellation";
+import {
+    dispose,
+    registerDisposable,
+} from "../../../src/internal/invoker/disposable";
+import { invokeWithTimeout } from "../../../src/internal/invoker/timeout";
+import * as namespace from "../../../src/internal/util/cls";
+import { guid } from "../../../src/internal/util/string";
+
+describe("timeout", () => {
+
+    function context(): HandlerContext {
+        const ctx: HandlerContext = {
+            messageClient: undefined,
+            teamId: "Txxxxxx",
+            correlationId: guid(),
+            invocationId: guid(),
+        };
+        ctx.lifecycle = {
+            registerDisposable: registerDisposable(ctx),
+            dispose: dispose(ctx),
+            registerCancellation: registerCancellation(ctx),
+            cancelled: cancelled(ctx),
+            cancel: cancel(ctx),
+        };
+        return ctx;
+    }
+
+    it("should complete invocation within timeout", done => {
+        const ctx = context();
+        invokeWithTimeout(() => Promise.resolve({ code: 0 }), "Fast", 500, ctx)
+            .then(result => {
+                assert(result.code === 0);
+                assert(!ctx.lifecycle.cancelled());
+            })
+            .then(() => done(), done);
+    });
+
+    it("should pass through errors of invocation within timeout", done => {
+        const ctx = context();
+        invokeWithTimeout(() => Promise.reject(new Error("failed")), "Failing", 500, ctx)
+            .then(() => done(new Error("Should have failed")), err => {
+                assert(err.message === "failed");
+                assert(!isHandlerTimeoutError(err));
+                done();
+            });
+    });
+
+    it("should fail with timeout error and cancel invocation", done => {
+        const ctx = context();
+        let reason: string;
+        let disposed = false;
+        ctx.lifecycle.registerCancellation(r => reason = r, "record reason");
+        ctx.lifecycle.registerDisposable(() => {
+            disposed = true;
+            return Promise.resolve();
+        }, "set disposed");
+
+        // tslint:disable-next-line:no-empty
+        invokeWithTimeout(() => new Promise(() => { }), "Hung", 20, ctx)
+            .then(() => done(new Error("Should have timed out")), err => {
+                assert(isHandlerTimeoutError(err));
+                assert(err.timeout === 20);
+                assert(ctx.lifecycle.cancelled());
+                assert(reason === err.message);
+                assert(disposed);
+
+                const result = failure(err);
+                assert(result.code === 1);
+                assert(isHandlerTimeoutError(result));
+                done();
+            })
+            .catch(done);
+    });
+
+    it("should kill child processes of cancelled invocation", done => {
+        const ctx = context();
+        const ses = namespace.init();
+        ses.run(() => {
+            namespace.set({
+                correlationId: ctx.correlationId,
+                teamId: ctx.teamId,
+                teamName: undefined,
+                operation: "Sleep",
+                name: "test",
+                version: "0.1.0",
+                invocationId: ctx.invocationId,
+                ts: Date.now(),
+            });
+
+            const start = Date.now();
+            let command: Promise<any>;
+            invokeWithTimeout(() => command = runCommand("sleep 20", {}), "Sleep", 200, ctx)
+                .then(() => done(new Error("Should have timed out")), err => {
+                    assert(isHandlerTimeoutError(err));
+                    return command.then(() => done(new Error("Command should have been killed")), () => {
+                        assert(Date.now() - start < 5000);
+                        done();
+                    });
+                })
+                .catch(done);
+        });
+    });
+
+    it("should keep cancellation state off the HandlerContext", () => {
+        const ctx = context();
+        const keys = Object.keys(ctx);
+        const reasons: string[] = [];
+        ctx.lifecycle.registerCancellation(r => reasons.push(r), "record");
+        const [scoped] = scopeCancellation(ctx, 2);
+        scoped.ctx.lifecycle.cancel("timeout");
+        assert(!ctx.lifecycle.cancelled());
+        return scoped.done()
+            .then(() => ctx.lifecycle.cancel("shutdown"))
+            .then(() => {
+                assert(ctx.lifecycle.cancelled());
+                assert.deepEqual(reasons, ["shutdown"]);
+                assert.deepEqual(Object.keys(ctx), keys);
+                assert.deepEqual(Object.keys(scoped.ctx), keys);
+            });
+    });
+
+    describe("scopeCancellation", () => {
+
+        it("should only cancel timed out handler until all handlers completed", done => {
+            const ctx = context();
+            const reasons: string[] = [];
+            let disposed = false;
+            ctx.lifecycle.registerDisposable(() => {
+                disposed = true;
+                return Promise.resolve();
+            }, "set disposed");
+            const [hung, fast] = scopeCancellation(ctx, 2);
+            hung.ctx.lifecycle.registerCancellation(r => reasons.push(`hung: ${r}`), "hung");
+            fast.ctx.lifecycle.registerCancellation(r => reasons.push(`fast: ${r}`), "fast");
+
+            let finish: (value?: any) => void;
+            // tslint:disable-next-line:no-empty
+            invokeWithTimeout(() => new Promise(() => { }), "Hung", 20, hung.ctx)
+                .then(() => done(new Error("Should have timed out")), err => {
+                    assert(hung.ctx.lifecycle.cancelled());
+                    assert(!fast.ctx.lifecycle.cancelled());
+                    assert(!ctx.lifecycle.cancelled());
+                    assert.deepEqual(reasons, [`hung: ${err.message}`]);
+                    assert(!disposed);
+                    return hung.done()
+                        .then(() => {
+                            assert(!ctx.lifecycle.cancelled());
+                            finish();
+                            return fast.done();
+                        })
+                        .then(() => {
+                            assert(ctx.lifecycle.cancelled());
+                            assert(disposed);
+                            assert.deepEqual(reasons, [`hung: ${err.message}`]);
+                            done();
+                        });
+                })
+                .catch(done);
+            invokeWithTimeout(() => new Promise(resolve => finish = resolve), "Fast", 500, fast.ctx);
+        });
+
+        it("should cancel running handlers when shared context is cancelled", done => {
+            const ctx = context();
+            const reasons: string[] = [];
+            const [completed, running] = scopeCancellation(ctx, 2);
+            completed.ctx.lifecycle.registerCancellation(r => reasons.push(`completed: ${r}`), "completed");
+            running.ctx.lifecycle.registerCancellation(r => reasons.push(`running: ${r}`), "running");
+
+            completed.done()
+                .then(() => ctx.lifecycle.cancel("shutdown"))
+                .then(() => {
+                    assert(running.ctx.lifecycle.cancelled());
+                    assert.deepEqual(reasons, ["running: shutdown"]);
+                })
+                .then(() => done(), done);
+        });
+    });
+});
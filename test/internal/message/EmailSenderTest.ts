@@ -0,0 +1,212 @@
+import "mocha";
+import * as net from "net";
+import * as assert from "power-assert";
+import {
+    EmailSender,
+    renderEmail,
+} from "../../../src/internal/message/EmailSender";
+import {
+    addressEmail,
+    buttonForCommand,
+    EmailDestination,
+} from "../../../src/spi/message/MessageClient";
+
+describe("EmailSender", () => {
+
+    it("should render message with attachments", () => {
+        const email = renderEmail({
+            text: "*Release* of <https://github.com/atomist/sdm|sdm>",
+            attachments: [{
+                fallback: "Release",
+                color: "good",
+                title: "1.0.0",
+                title_link: "https://github.com/atomist/sdm/releases/1.0.0",
+                fields: [{ title: "Status", value: "_done_", short: true }],
+                actions: [buttonForCommand({ text: "Deploy" }, "Deploy", { version: "1.0.0" })],
+            }],
+        }, "https://bot.example.com");
+        assert(email.subject === "Release of sdm");
+        assert(email.text === "**Release** of [sdm](https://github.com/atomist/sdm)\n\n" +
+            "1.0.0 (https://github.com/atomist/sdm/releases/1.0.0)\nStatus: _done_\n" +
+            "Deploy: https://bot.example.com/command/deploy?version=1.0.0");
+        assert(email.html.includes("<strong>Release</strong> of <a href=\"https://github.com/atomist/sdm\">sdm</a>"));
+        assert(email.html.includes("border-left: 4px solid #2EB886"));
+        assert(email.html.includes("<td><em>done</em></td>"));
+        assert(email.html.includes("<a href=\"https://bot.example.com/command/deploy?version=1.0.0\""));
+    });
+
+    it("should render snippets as preformatted text", () => {
+        const email = renderEmail({ content: "x < 1", title: "Code" });
+        assert(email.subject === "Code");
+        assert(email.html.includes("<pre>x &lt; 1</pre>"));
+    });
+
+    it("should deliver message to SMTP server", done => {
+        let received: ReceivedMail;
+        const sink = smtpSink(mail => received = mail);
+        sink.listen(0, () => {
+            const sender = new EmailSender({
+                host: "localhost",
+                port: (sink.address() as any).port,
+                auth: { user: "bot", password: "secret" },
+                insecureAuth: true,
+                from: "Bot <bot@example.com>",
+            });
+            const destination = addressEmail("jane@example.com")
+                .addressCc("Joe <joe@example.com>")
+                .addressBcc("ops@example.com")
+                .withSubject("Déploiement");
+            sender.send("..Hello", destination, {})
+                .then(() => {
+                    sink.close();
+                    assert(received.auth === `AUTH PLAIN ${Buffer.from("\u0000bot\u0000secret").toString("base64")}`);
+                    assert(received.from === "bot@example.com");
+                    assert.deepEqual(received.to, ["jane@example.com", "joe@example.com", "ops@example.com"]);
+                    assert(received.data.includes("To: jane@example.com\r\n"));
+                    assert(received.data.includes("Cc: Joe <joe@example.com>\r\n"));
+                    assert(!received.data.includes("ops@example.com"));
+                    assert(received.data.includes("Subject: =?UTF-8?Q?D=C3=A9ploiement?=\r\n"));
+                    assert(received.data.includes("Content-Type: multipart/alternative"));
+                    assert(received.data.includes("\r\n\r\n..Hello\r\n"));
+                    assert(received.data.includes("<div>..Hello</div>"));
+                    done();
+                })
+                .catch(done);
+        });
+    });
+
+    it("should not authenticate without TLS", done => {
+        let received: ReceivedMail;
+        const commands: string[] = [];
+        const sink = smtpSink(mail => received = mail, commands);
+        sink.listen(0, () => {
+            new EmailSender({
+                host: "localhost",
+                port: (sink.address() as any).port,
+                auth: { user: "bot", password: "secret" },
+                from: "bot@example.com",
+            })
+                .send("Hello", addressEmail("jane@example.com"), {})
+                .then(() => done(new Error("should have failed")), err => {
+                    sink.close();
+                    assert(err.message.startsWith("Failed to send email: "));
+                    assert(!received);
+                    assert(commands.length > 0);
+                    assert(!commands.some(c => c.startsWith("AUTH")));
+                    done();
+                })
+                .catch(done);
+        });
+    });
+
+    it("should refuse to authenticate with STARTTLS disabled", done => {
+        new EmailSender({
+            host: "localhost",
+            startTls: false,
+            auth: { user: "bot", password: "secret" },
+            from: "bot@example.com",
+        })
+            .send("Hello", addressEmail("jane@example.com"), {})
+            .then(() => done(new Error("should have failed")), err => {
+                assert(err.message === "Failed to send email: refusing to authenticate without TLS");
+                done();
+            })
+            .catch(done);
+    });
+
+    it("should reject addresses and subjects injecting headers", () => {
+        const sender = new EmailSender({ host: "localhost", from: "bot@example.com" });
+        const failure = (destination: EmailDestination) => sender.send("Hello", destination, {})
+            .then(() => assert.fail("should have failed"), err => err.message);
+        return Promise.all([
+            failure(addressEmail("jane@example.com\r\nBcc: eve@example.com")),
+            failure(addressEmail("jane@example.com, eve@example.com")),
+            failure(addressEmail("jane@example.com").withSubject("Hi\r\nBcc: eve@example.com")),
+        ])
+            .then(messages => assert.deepEqual(messages, [
+                "Failed to send email: invalid address \"jane@example.com\\r\\nBcc: eve@example.com\"",
+                "Failed to send email: invalid address \"jane@example.com, eve@example.com\"",
+                "Failed to send email: subject must not contain line breaks",
+            ]));
+    });
+
+    it("should reject if SMTP server refuses recipient", done => {
+        const sink = smtpSink(() => assert.fail("should not receive message"));
+        sink.listen(0, () => {
+            new EmailSender({ host: "localhost", port: (sink.address() as any).port, from: "bot@example.com" })
+                .send("Hello", addressEmail("nobody@example.com"), {})
+                .then(() => done(new Error("should have failed")), err => {
+                    sink.close();
+                    assert(err.message.startsWith("Failed to send email: "));
+                    assert(err.message.endsWith("550 No such user"));
+                    done();
+                })
+                .catch(done);
+        });
+    });
+});
+
+interface ReceivedMail {
+    auth?: string;
+    from?: string;
+    to: string[];
+    data?: string;
+}
+
+/**
+ * Minimal SMTP server accepting mails to example.com recipients other than nobody
+ */
+function smtpSink(received: (mail: ReceivedMail) => void, commands: string[] = []): net.Server {
+    return net.createServer(socket => {
+        const mail: ReceivedMail = { to: [] };
+        let buffer = "";
+        let data: string[];
+        socket.setEncoding("utf8");
+        socket.write("220 localhost ESMTP\r\n");
+        socket.on("data", chunk => {
+            buffer += chunk;
+            let index = buffer.indexOf("\r\n");
+            while (index >= 0) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                if (!data) {
+                    commands.push(line);
+                }
+                if (data) {
+                    if (line === ".") {
+                        mail.data = data.join("\r\n");
+                        data = undefined;
+                        socket.write("250 OK\r\n");
+                        received(mail);
+                    } else {
+                        data.push(line.startsWith(".") ? line.slice(1) : line);
+                    }
+                } else if (line.startsWith("EHLO")) {
+                    socket.write("250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n");
+                } else if (line.startsWith("AUTH")) {
+                    mail.auth = line;
+                    socket.write("235 Authenticated\r\n");
+                } else if (line.startsWith("MAIL FROM:")) {
+                    mail.from = line.slice(11, -1);
+                    socket.write("250 OK\r\n");
+                } else if (line.startsWith("RCPT TO:")) {
+                    const to = line.slice(9, -1);
+                    if (to.startsWith("nobody@")) {
+                        socket.write("550 No such user\r\n");
+                    } else {
+                        mail.to.push(to);
+                        socket.write("250 OK\r\n");
+                    }
+                } else if (line === "DATA") {
+                    data = [];
+                    socket.write("354 Go ahead\r\n");
+                } else if (line === "QUIT") {
+                    socket.end("221 Bye\r\n");
+                } else {
+                    socket.write("500 Unknown command\r\n");
+                }
+                index = buffer.indexOf("\r\n");
+            }
+        });
+    });
+}
@@ -0,0 +1,58 @@
+import * as http from "http";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    MattermostSender,
+    renderMattermostMessage,
+} from "../../../src/internal/message/MattermostSender";
+import {
+    addressMattermost,
+    buttonForCommand,
+} from "../../../src/spi/message/MessageClient";
+
+describe("MattermostSender", () => {
+
+    it("should render message with attachments", () => {
+        const payload = renderMattermostMessage({
+            text: "Hey <@U123|cd>",
+            attachments: [{
+                fallback: "Release",
+                color: "good",
+                mrkdwn_in: ["text"],
+                pretext: "*New* release",
+                text: "Version 1.0.0",
+                fields: [{ title: "Repo", value: "<https://github.com/atomist/sdm|sdm>", short: true }],
+                actions: [buttonForCommand({ text: "Deploy" }, "Deploy", { version: "1.0.0" })],
+            }],
+        }, "releases", "https://bot.example.com");
+        assert.deepEqual(payload, {
+            channel: "releases",
+            text: "Hey @cd",
+            attachments: [{
+                fallback: "Release",
+                color: "good",
+                pretext: "**New** release",
+                text: "Version 1.0.0\n\n[Deploy](https://bot.example.com/command/deploy?version=1.0.0)",
+                fields: [{ title: "Repo", value: "[sdm](https://github.com/atomist/sdm)", short: true }],
+            }],
+        });
+    });
+
+    it("should post message to incoming webhook", done => {
+        const server = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                res.end("ok");
+                server.close();
+                assert(req.url === "/hooks/abc");
+                assert.deepEqual(JSON.parse(body), { channel: "town-square", text: "Hello" });
+                done();
+            });
+        }).listen(0, () => {
+            const port = (server.address() as any).port;
+            new MattermostSender().send("Hello", addressMattermost(`http://localhost:${port}/hooks/abc`, "town-square"), {})
+                .catch(done);
+        });
+    });
+});
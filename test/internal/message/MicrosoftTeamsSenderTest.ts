@@ -0,0 +1,112 @@
+import { SlackMessage } from "@atomist/slack-messages/SlackMessages";
+import * as http from "http";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    MicrosoftTeamsSender,
+    renderMicrosoftTeamsCard,
+} from "../../../src/internal/message/MicrosoftTeamsSender";
+import { RoutingMessageClient } from "../../../src/internal/message/RoutingMessageClient";
+import { DestinationRegistry } from "../../../src/spi/message/DestinationRegistry";
+import {
+    addressMicrosoftTeams,
+    addressSlackChannels,
+    buttonForCommand,
+    Destination,
+    MessageClient,
+    MessageOptions,
+} from "../../../src/spi/message/MessageClient";
+
+describe("MicrosoftTeamsSender", () => {
+
+    const message: SlackMessage = {
+        text: "*Build* failed",
+        attachments: [{
+            fallback: "Build #12 failed",
+            color: "danger",
+            title: "Build #12",
+            title_link: "https://ci.example.com/12",
+            text: "See <https://ci.example.com/12/log|log>",
+            fields: [{ title: "Branch", value: "`master`" }],
+            actions: [buttonForCommand({ text: "Restart" }, "RestartBuild", { build: 12 })],
+        }],
+    };
+
+    it("should render message as card", () => {
+        assert.deepEqual(renderMicrosoftTeamsCard(message, "https://bot.example.com"), {
+            "@type": "MessageCard",
+            "@context": "https://schema.org/extensions",
+            "summary": "*Build* failed",
+            "themeColor": "A30200",
+            "text": "**Build** failed",
+            "sections": [{
+                activityTitle: "[Build #12](https://ci.example.com/12)",
+                text: "See [log](https://ci.example.com/12/log)",
+                facts: [{ name: "Branch", value: "`master`" }],
+                potentialAction: [{
+                    "@type": "OpenUri",
+                    "name": "Restart",
+                    "targets": [{ os: "default", uri: "https://bot.example.com/command/restart-build?build=12" }],
+                }],
+                markdown: true,
+            }],
+        });
+    });
+
+    describe("sending", () => {
+
+        let server: http.Server;
+        let received: Array<{ url: string, body: any }>;
+        let url: string;
+
+        before(done => {
+            server = http.createServer((req, res) => {
+                let body = "";
+                req.on("data", chunk => body += chunk);
+                req.on("end", () => {
+                    received.push({ url: req.url, body: JSON.parse(body) });
+                    res.statusCode = req.url.endsWith("broken") ? 500 : 200;
+                    res.end("1");
+                });
+            }).listen(0, () => {
+                url = `http://localhost:${(server.address() as any).port}`;
+                done();
+            });
+        });
+
+        beforeEach(() => {
+            received = [];
+        });
+
+        after(() => {
+            server.close();
+        });
+
+        it("should post card to incoming webhook", () => {
+            const delegated: Destination[][] = [];
+            const delegate: MessageClient = {
+                respond: () => Promise.resolve(),
+                send: (msg: any, destinations: Destination[], options?: MessageOptions) => {
+                    delegated.push(destinations);
+                    return Promise.resolve();
+                },
+            };
+            const client = new RoutingMessageClient(delegate,
+                new DestinationRegistry().register(new MicrosoftTeamsSender()));
+            return client.send("Hello", [addressMicrosoftTeams(`${url}/webhook/teams`), addressSlackChannels("T1", "general")])
+                .then(() => {
+                    assert(received.length === 1);
+                    assert(received[0].url === "/webhook/teams");
+                    assert(received[0].body.text === "Hello");
+                    assert(delegated.length === 1);
+                    assert(delegated[0].length === 1);
+                    assert(delegated[0][0].userAgent === "slack");
+                });
+        });
+
+        it("should reject when webhook fails", () => {
+            return new MicrosoftTeamsSender().send("Hello", addressMicrosoftTeams(`${url}/broken`), {})
+                .then(() => assert.fail("should have failed"), err => assert(/Microsoft Teams/.test(err.message)));
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    renderWebhookPayload,
+    WebhookSender,
+} from "../../../src/internal/message/WebhookSender";
+import { addressWebhook } from "../../../src/spi/message/MessageClient";
+
+describe("WebhookSender", () => {
+
+    it("should render payload with template", () => {
+        const destination = addressWebhook("https://status.example.com", {
+            template: p => ({ summary: p.text, severity: p.message.attachments[0].color === "danger" ? "high" : "low" }),
+        });
+        assert.deepEqual(renderWebhookPayload({ text: "*Build* failed", attachments: [{ fallback: "failed", color: "danger" }] },
+            destination), { summary: "**Build** failed", severity: "high" });
+        assert.deepEqual(renderWebhookPayload("Hello", addressWebhook("https://status.example.com"), { id: "build" }), {
+            text: "Hello",
+            message: { text: "Hello" },
+            options: { id: "build" },
+        });
+    });
+
+    describe("sending", () => {
+
+        const retry = { retries: 2, minTimeout: 10, maxTimeout: 10, randomize: false };
+
+        let server: http.Server;
+        let requests: Array<{ headers: http.IncomingHttpHeaders, body: string }>;
+
+        function listen(statuses: number[]): Promise<string> {
+            requests = [];
+            server = http.createServer((req, res) => {
+                let body = "";
+                req.on("data", chunk => body += chunk);
+                req.on("end", () => {
+                    requests.push({ headers: req.headers, body });
+                    res.statusCode = statuses[Math.min(requests.length, statuses.length) - 1];
+                    res.end();
+                });
+            });
+            return new Promise(resolve => server.listen(0, () => resolve(`http://localhost:${(server.address() as any).port}/hook`)));
+        }
+
+        afterEach(() => server.close());
+
+        it("should post signed payload with headers", () => {
+            return listen([200])
+                .then(url => new WebhookSender().send("Hello", addressWebhook(url, {
+                    headers: { Authorization: "Bearer token" },
+                    secret: "secret",
+                }), {}))
+                .then(() => {
+                    assert(requests.length === 1);
+                    const { headers, body } = requests[0];
+                    assert(headers["content-type"] === "application/json");
+                    assert(headers.authorization === "Bearer token");
+                    assert(headers["x-atomist-signature"] ===
+                        `sha256=${crypto.createHmac("sha256", "secret").update(body).digest("hex")}`);
+                    assert.deepEqual(JSON.parse(body), { text: "Hello", message: { text: "Hello" }, options: {} });
+                });
+        });
+
+        it("should retry failed delivery", () => {
+            return listen([503, 429, 200])
+                .then(url => new WebhookSender().send("Hello", addressWebhook(url, { retry }), {}))
+                .then(() => assert(requests.length === 3));
+        });
+
+        it("should reject after retries are exhausted", () => {
+            return listen([500])
+                .then(url => new WebhookSender().send("Hello", addressWebhook(url, { retry }), {}))
+                .then(() => assert.fail("should have failed"), err => {
+                    assert(requests.length === 3);
+                    assert(err.message === "Failed to send message to webhook: Request failed with status code 500");
+                });
+        });
+
+        it("should not retry client errors", () => {
+            return listen([400])
+                .then(url => new WebhookSender().send("Hello", addressWebhook(url, { retry }), {}))
+                .then(() => assert.fail("should have failed"), err => {
+                    assert(requests.length === 1);
+                    assert(err.message === "Failed to send message to webhook: Request failed with status code 400");
+                });
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    commandLinks,
+    slackToHtml,
+    slackToMarkdown,
+    toSlackMessage,
+} from "../../../src/internal/message/rendering";
+import {
+    buttonForCommand,
+    menuForCommand,
+} from "../../../src/spi/message/MessageClient";
+
+describe("rendering", () => {
+
+    it("should translate Slack markup to Markdown", () => {
+        assert(slackToMarkdown("See <https://atomist.com|Atomist> and <https://github.com>") ===
+            "See [Atomist](https://atomist.com) and https://github.com");
+        assert(slackToMarkdown("Hey <@U123|cd> in <#C123|general> <!here>") === "Hey @cd in #general @here");
+        assert(slackToMarkdown("*Build* ~failed~ for _repo_") === "**Build** ~~failed~~ for _repo_");
+        assert(slackToMarkdown("a &lt; b &amp;&amp; c") === "a < b && c");
+    });
+
+    it("should translate Slack markup to HTML", () => {
+        assert(slackToHtml("See <https://atomist.com?a=1&amp;b=2|Atomist> and <@U123|cd>") ===
+            "See <a href=\"https://atomist.com?a=1&amp;b=2\">Atomist</a> and @cd");
+        assert(slackToHtml("*Build* ~failed~ for _repo_\nnow") ===
+            "<strong>Build</strong> <del>failed</del> for <em>repo</em><br>\nnow");
+        assert(slackToHtml("a &lt; b &amp;&amp; `*c* <d>`") === "a &lt; b &amp;&amp; <code>*c* &lt;d&gt;</code>");
+        assert(slackToHtml("```if (a < b) {}```") === "<pre>if (a &lt; b) {}</pre>");
+    });
+
+    it("should convert messages to SlackMessage", () => {
+        assert.deepEqual(toSlackMessage("hello"), { text: "hello" });
+        assert(toSlackMessage({ content: "x = 1", title: "Code" }).text === "*Code*\n```x = 1```");
+    });
+
+    it("should create links for command buttons and menus", () => {
+        const button = buttonForCommand({ text: "Approve" }, "ApproveRelease", { version: "1.0.0" });
+        assert.deepEqual(commandLinks(button, "https://bot.example.com/"), [{
+            text: "Approve",
+            url: "https://bot.example.com/command/approve-release?version=1.0.0",
+        }]);
+        assert.deepEqual(commandLinks(button, undefined), []);
+
+        const menu = menuForCommand({ text: "Env", options: [{ text: "Prod", value: "prod" }] }, "Deploy", "env");
+        assert.deepEqual(commandLinks(menu, "https://bot.example.com"), [{
+            text: "Env: Prod",
+            url: "https://bot.example.com/command/deploy?env=prod",
+        }]);
+    });
+});
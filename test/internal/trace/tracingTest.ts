@@ -0,0 +1,137 @@
+import * as fs from "fs-extra";
+import "mocha";
+import * as os from "os";
+import * as assert from "power-assert";
+import { setSpanExporter } from "../../../src/globals";
+import { FileSpanExporter } from "../../../src/internal/trace/FileSpanExporter";
+import {
+    startInvocationSpan,
+    startSpan,
+    traced,
+} from "../../../src/internal/trace/tracing";
+import * as namespace from "../../../src/internal/util/cls";
+import { guid } from "../../../src/internal/util/string";
+import {
+    Span,
+    SpanExporter,
+} from "../../../src/spi/trace/SpanExporter";
+
+class RecordingSpanExporter implements SpanExporter {
+
+    public spans: Span[] = [];
+
+    public export(span: Span): Promise<void> {
+        this.spans.push(span);
+        return Promise.resolve();
+    }
+}
+
+describe("tracing", () => {
+
+    let exporter: RecordingSpanExporter;
+
+    beforeEach(() => {
+        exporter = new RecordingSpanExporter();
+        setSpanExporter(exporter);
+    });
+
+    afterEach(() => setSpanExporter(null));
+
+    function context(): namespace.AutomationContext {
+        return {
+            correlationId: guid(),
+            teamId: "Txxxxxx",
+            teamName: undefined,
+            operation: "HelloWorld",
+            name: "tracing",
+            version: "0.1.0",
+            invocationId: guid(),
+            ts: Date.now(),
+        };
+    }
+
+    it("should record invocation span with child spans", done => {
+        const ses = namespace.init();
+        ses.run(() => {
+            const cls = context();
+            namespace.set(cls);
+            const invocation = startInvocationSpan(cls, "command");
+            assert(/^[0-9a-f]{32}$/.test(cls.traceId));
+            assert(/^[0-9a-f]{16}$/.test(cls.spanId));
+
+            traced("graphql.query", () => Promise.resolve(42), { kind: "CLIENT", tags: { "graphql.operation": "Repos" } })
+                .then(result => {
+                    assert(result === 42);
+                    invocation.tag("atomist.code", 0).finish();
+
+                    assert(exporter.spans.length === 2);
+                    const [child, root] = exporter.spans;
+                    assert(root.name === "command HelloWorld");
+                    assert(root.kind === "SERVER");
+                    assert(root.id === cls.spanId);
+                    assert(root.parentId === undefined);
+                    assert(root.localEndpoint.serviceName === "tracing");
+                    assert(root.tags["atomist.correlation_id"] === cls.correlationId);
+                    assert(root.tags["atomist.code"] === "0");
+                    assert(root.duration > 0);
+                    assert(child.traceId === root.traceId);
+                    assert(child.parentId === root.id);
+                    assert(child.kind === "CLIENT");
+                    assert(child.tags["graphql.operation"] === "Repos");
+                })
+                .then(() => done(), done);
+        });
+    });
+
+    it("should mark failed child span with error", done => {
+        const cls = context();
+        startInvocationSpan(cls, "event");
+        traced("http GET", () => Promise.reject(new Error("Not Found")), { context: cls })
+            .then(() => done(new Error("Should have failed")), err => {
+                assert(err.message === "Not Found");
+                assert(exporter.spans.length === 1);
+                assert(exporter.spans[0].tags.error === "Not Found");
+                done();
+            })
+            .catch(done);
+    });
+
+    it("should continue trace of context received from cluster master", () => {
+        const cls = context();
+        cls.traceId = "463ac35c9f6413ad48485a3953bb6124";
+        cls.spanId = "a2fb4a1d1a96d312";
+        startInvocationSpan(cls, "command").finish();
+        assert(exporter.spans[0].traceId === "463ac35c9f6413ad48485a3953bb6124");
+        assert(exporter.spans[0].parentId === "a2fb4a1d1a96d312");
+        assert(cls.spanId === exporter.spans[0].id);
+        assert(cls.spanId !== "a2fb4a1d1a96d312");
+    });
+
+    it("should not record spans outside of invocation or when disabled", () => {
+        startSpan("git status").finish();
+        setSpanExporter(null);
+        const cls = context();
+        startInvocationSpan(cls, "command").finish();
+        assert(cls.traceId === undefined);
+        assert(exporter.spans.length === 0);
+    });
+
+    it("should append spans to file", done => {
+        const file = `${os.tmpdir()}/traces-${guid()}/traces.log`;
+        setSpanExporter(new FileSpanExporter(file));
+        const cls = context();
+        const invocation = startInvocationSpan(cls, "command");
+        traced("message.send", () => Promise.resolve(), { context: cls, kind: "PRODUCER" })
+            .then(() => invocation.finish())
+            // export is asynchronous; give the appends a chance to complete
+            .then(() => new Promise(resolve => setTimeout(resolve, 100)))
+            .then(() => {
+                const spans = fs.readFileSync(file).toString().trim().split("\n").map(l => JSON.parse(l));
+                assert(spans.length === 2);
+                assert(spans[0].name === "message.send");
+                assert(spans[0].parentId === spans[1].id);
+                fs.removeSync(file.replace(/\/traces\.log$/, ""));
+            })
+            .then(() => done(), done);
+    });
+});
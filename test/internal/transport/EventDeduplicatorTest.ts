@@ -0,0 +1,64 @@
+import "mocha";
+import * as assert from "power-assert";
+import { InMemoryDeduplicationStore } from "../../../src/internal/event/InMemoryDeduplicationStore";
+import { EventDeduplicator } from "../../../src/internal/transport/EventDeduplicator";
+import { EventIncoming } from "../../../src/internal/transport/RequestProcessor";
+import { EventHandlerMetadata } from "../../../src/metadata/automationMetadata";
+
+describe("EventDeduplicator", () => {
+
+    function event(correlationId: string, sha: string = "abc"): EventIncoming {
+        return {
+            data: { Push: [{ after: { sha } }] },
+            extensions: {
+                operationName: "PushHandler",
+                team_id: "T123",
+                correlation_id: correlationId,
+            },
+            secrets: [],
+        };
+    }
+
+    const handlers = [{ name: "PushHandler" } as EventHandlerMetadata];
+
+    it("should detect duplicates by correlation id", () => {
+        const deduplicator = new EventDeduplicator(new InMemoryDeduplicationStore());
+        const first = deduplicator.check(event("1"), handlers);
+        assert(!first.duplicate);
+        assert(first.key === "PushHandler:1");
+        assert(deduplicator.check(event("1"), handlers).duplicate);
+        assert(!deduplicator.check(event("2"), handlers).duplicate);
+    });
+
+    it("should detect replays of processed events", () => {
+        const deduplicator = new EventDeduplicator(new InMemoryDeduplicationStore());
+        deduplicator.check(event("1"), handlers);
+        const replayed = { ...event("2"), replay: { correlation_id: "1", dry_run: false } };
+        assert(deduplicator.check(replayed, handlers).duplicate);
+    });
+
+    it("should use handler supplied keys", () => {
+        const deduplicator = new EventDeduplicator(new InMemoryDeduplicationStore(), {
+            keys: { PushHandler: e => e.data.Push[0].after.sha },
+        });
+        assert(deduplicator.check(event("1", "abc"), handlers).key === "PushHandler:abc");
+        assert(deduplicator.check(event("2", "abc"), handlers).duplicate);
+        assert(!deduplicator.check(event("3", "def"), handlers).duplicate);
+    });
+
+    it("should process released events again", () => {
+        const deduplicator = new EventDeduplicator(new InMemoryDeduplicationStore());
+        const result = deduplicator.check(event("1"), handlers);
+        deduplicator.release(result.key);
+        assert(!deduplicator.check(event("1"), handlers).duplicate);
+    });
+
+    it("should not detect duplicates outside the window", done => {
+        const deduplicator = new EventDeduplicator(new InMemoryDeduplicationStore(), { window: 10 });
+        deduplicator.check(event("1"), handlers);
+        setTimeout(() => {
+            assert(!deduplicator.check(event("1"), handlers).duplicate);
+            done();
+        }, 20);
+    });
+});
@@ -0,0 +1,78 @@
+import "mocha";
+import * as assert from "power-assert";
+import { InvocationHistory } from "../../../src/internal/transport/InvocationHistory";
+import {
+    InvocationStream,
+    InvocationStreamEvent,
+    InvocationStreamEventType,
+} from "../../../src/internal/transport/InvocationStream";
+
+describe("InvocationHistory", () => {
+
+    function event(type: InvocationStreamEventType,
+                   operation: string,
+                   correlationId: string,
+                   details: Partial<InvocationStreamEvent> = {}): InvocationStreamEvent {
+        return {
+            type,
+            operation,
+            team_id: "T1",
+            correlation_id: correlationId,
+            ts: Date.now(),
+            ...details,
+        };
+    }
+
+    it("should record outcome and messages of invocations", () => {
+        const stream = new InvocationStream();
+        const history = new InvocationHistory(stream);
+
+        stream.publish(event("command_started", "HelloWorld", "C1"));
+        stream.publish(event("event_started", "HelloIssue", "C2"));
+        stream.publish(event("message_sent", "HelloWorld", "C1", { message: "Hello", destinations: [] }));
+        stream.publish(event("command_succeeded", "HelloWorld", "C1", { code: 0, duration: 12, invocation_id: "I1" }));
+        stream.publish(event("event_failed", "HelloIssue", "C2", { code: 1, error: "Boom" }));
+
+        const invocations = history.invocations();
+        assert.deepEqual(invocations.map(i => i.operation), ["HelloIssue", "HelloWorld"]);
+        assert(invocations[0].type === "event");
+        assert(invocations[0].code === 1);
+        assert(invocations[0].error === "Boom");
+        assert(invocations[1].type === "command");
+        assert(invocations[1].code === 0);
+        assert(invocations[1].duration === 12);
+        assert(invocations[1].invocation_id === "I1");
+        assert(!!invocations[1].finished);
+        assert.deepEqual(invocations[1].messages.map(m => m.message), ["Hello"]);
+
+        assert.deepEqual(history.invocations("C2").map(i => i.operation), ["HelloIssue"]);
+    });
+
+    it("should only keep most recent invocations", () => {
+        const stream = new InvocationStream();
+        const history = new InvocationHistory(stream, 2);
+        ["C1", "C2", "C3"].forEach(id => stream.publish(event("command_started", "HelloWorld", id)));
+        assert.deepEqual(history.invocations().map(i => i.correlation_id), ["C3", "C2"]);
+
+        history.close();
+        assert(stream.subscribers === 0);
+    });
+
+    it("should not record secrets of webhook destinations", () => {
+        const stream = new InvocationStream();
+        const history = new InvocationHistory(stream);
+
+        stream.publish(event("command_started", "HelloWorld", "C1"));
+        stream.publish(event("message_sent", "HelloWorld", "C1", {
+            message: "Hello",
+            destinations: [{
+                userAgent: "webhook",
+                url: "https://hooks.example.com/secret-path",
+                options: { secret: "signing-secret", headers: { Authorization: "Bearer bearer-token" } },
+            }],
+        }));
+
+        const destinations = history.invocations()[0].messages[0].destinations;
+        assert.deepEqual(destinations, [{ userAgent: "webhook", url: "https://hooks.example.com" }]);
+    });
+});
@@ -0,0 +1,158 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    CommandHandler,
+    Concurrency,
+} from "../../../src/decorators";
+import { HandleCommand } from "../../../src/HandleCommand";
+import { HandlerContext } from "../../../src/HandlerContext";
+import { HandlerResult } from "../../../src/HandlerResult";
+import { metadataFromInstance } from "../../../src/internal/metadata/metadataReading";
+import { InvocationLimiter } from "../../../src/internal/transport/InvocationLimiter";
+import { AutomationMetadata } from "../../../src/metadata/automationMetadata";
+
+@CommandHandler("limited command")
+@Concurrency(2)
+class LimitedCommand implements HandleCommand {
+
+    public handle(ctx: HandlerContext): Promise<HandlerResult> {
+        return Promise.resolve({ code: 0 });
+    }
+}
+
+describe("InvocationLimiter", () => {
+
+    function handler(name: string, concurrency?: number): AutomationMetadata {
+        return { name, description: name, concurrency };
+    }
+
+    function tick(): Promise<void> {
+        return new Promise<void>(resolve => setImmediate(resolve));
+    }
+
+    it("should read concurrency from decorator", () => {
+        const md = metadataFromInstance(new LimitedCommand());
+        assert(md.concurrency === 2);
+    });
+
+    it("should not queue invocations without limits", done => {
+        const limiter = new InvocationLimiter();
+        Promise.all([limiter.acquire([handler("a")]), limiter.acquire([handler("a")])])
+            .then(releases => {
+                assert(limiter.stats().running === 2);
+                assert(limiter.stats().queued === 0);
+                releases.forEach(r => r());
+                assert(limiter.stats().running === 0);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should queue invocations over handler limit", done => {
+        const limiter = new InvocationLimiter();
+        const started: string[] = [];
+        const releases: Array<() => void> = [];
+        ["1", "2", "3"].forEach(i => limiter.acquire([handler("a", 2)]).then(r => {
+            started.push(i);
+            releases.push(r);
+        }));
+
+        tick()
+            .then(() => {
+                assert.deepEqual(started, ["1", "2"]);
+                assert.deepEqual(limiter.stats().handlers.a, { running: 2, queued: 1 });
+                releases[0]();
+                return tick();
+            })
+            .then(() => {
+                assert.deepEqual(started, ["1", "2", "3"]);
+                assert(limiter.stats().queued === 0);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should let configured limit override handler metadata", done => {
+        const limiter = new InvocationLimiter({ handlers: { a: 1 } });
+        let started = 0;
+        limiter.acquire([handler("a", 5)]).then(() => started++);
+        limiter.acquire([handler("a", 5)]).then(() => started++);
+
+        tick()
+            .then(() => {
+                assert(started === 1);
+                assert(limiter.stats().queued === 1);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should not block other handlers when one handler is at its limit", done => {
+        const limiter = new InvocationLimiter();
+        const started: string[] = [];
+        limiter.acquire([handler("a", 1)]).then(() => started.push("a1"));
+        limiter.acquire([handler("a", 1)]).then(() => started.push("a2"));
+        limiter.acquire([handler("b", 1)]).then(() => started.push("b1"));
+
+        tick()
+            .then(() => {
+                assert.deepEqual(started, ["a1", "b1"]);
+                assert.deepEqual(limiter.stats().handlers.a, { running: 1, queued: 1 });
+            })
+            .then(() => done(), done);
+    });
+
+    it("should queue invocations over global limit in order", done => {
+        const limiter = new InvocationLimiter({ global: 1 });
+        const started: string[] = [];
+        const releases: Array<() => void> = [];
+        ["a", "b", "c"].forEach(n => limiter.acquire([handler(n)]).then(r => {
+            started.push(n);
+            releases.push(r);
+        }));
+
+        tick()
+            .then(() => {
+                assert.deepEqual(started, ["a"]);
+                assert(limiter.stats().queued === 2);
+                releases[0]();
+                // releasing twice must not free another slot
+                releases[0]();
+                return tick();
+            })
+            .then(() => {
+                assert.deepEqual(started, ["a", "b"]);
+                assert(limiter.stats().running === 1);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should reject invocations once the queue is full", done => {
+        const limiter = new InvocationLimiter({ global: 1, maxQueueSize: 1 });
+        const started: string[] = [];
+        const rejected: string[] = [];
+        ["a", "b", "c"].forEach(n => limiter.acquire([handler(n)])
+            .then(() => started.push(n), err => rejected.push(err.message)));
+
+        tick()
+            .then(() => {
+                assert.deepEqual(started, ["a"]);
+                assert.deepEqual(rejected, ["Rejected invocation of 'c': queue is full with '1' invocations"]);
+                assert(limiter.stats().queued === 1);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should reject invocations waiting longer than the queue timeout", done => {
+        const limiter = new InvocationLimiter({ global: 1, queueTimeout: 10 });
+        let release: () => void;
+        limiter.acquire([handler("a")]).then(r => release = r);
+        const queued = limiter.acquire([handler("b")]);
+
+        queued
+            .then(() => assert.fail("should have been rejected"), err => {
+                assert(err.message === "Rejected invocation of 'b': waited longer than '10ms' in queue");
+                assert(limiter.stats().queued === 0);
+                release();
+                assert(limiter.stats().running === 0);
+            })
+            .then(() => done(), done);
+    });
+});
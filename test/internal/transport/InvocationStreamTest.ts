@@ -0,0 +1,179 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    invocationStream,
+    setInvocationStream,
+} from "../../../src/globals";
+import { HandleCommand } from "../../../src/HandleCommand";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../src/HandlerContext";
+import { HandlerResult } from "../../../src/HandlerResult";
+import { CapturingMessageClient } from "../../../src/internal/message/CapturingMessageClient";
+import { AbstractRequestProcessor } from "../../../src/internal/transport/AbstractRequestProcessor";
+import {
+    InvocationStream,
+    InvocationStreamEvent,
+    serverSentEvent,
+} from "../../../src/internal/transport/InvocationStream";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../src/internal/transport/RequestProcessor";
+import { StreamingAutomationEventListener } from "../../../src/internal/transport/StreamingAutomationEventListener";
+import { guid } from "../../../src/internal/util/string";
+import { BuildableAutomationServer } from "../../../src/server/BuildableAutomationServer";
+import { GraphClient } from "../../../src/spi/graph/GraphClient";
+import {
+    addressWebhook,
+    MessageClient,
+} from "../../../src/spi/message/MessageClient";
+import { Factory } from "../../../src/util/constructionUtils";
+
+class StreamingRequestProcessor extends AbstractRequestProcessor {
+
+    protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        return Promise.resolve();
+    }
+
+    protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+        return undefined;
+    }
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+        return new CapturingMessageClient();
+    }
+}
+
+describe("InvocationStream", () => {
+
+    function event(operation: string, teamId: string = "T1", correlationId: string = "C1"): InvocationStreamEvent {
+        return {
+            type: "command_started",
+            operation,
+            team_id: teamId,
+            correlation_id: correlationId,
+            ts: Date.now(),
+        };
+    }
+
+    it("should push events to matching subscribers", () => {
+        const stream = new InvocationStream();
+        const all: InvocationStreamEvent[] = [];
+        const filtered: InvocationStreamEvent[] = [];
+        stream.subscribe({}, e => all.push(e));
+        const unsubscribe = stream.subscribe({ operation: "HelloWorld", teamId: "T1" }, e => filtered.push(e));
+        assert(stream.subscribers === 2);
+
+        stream.publish(event("HelloWorld"));
+        stream.publish(event("HelloWorld", "T2"));
+        stream.publish(event("Other"));
+        assert(all.length === 3);
+        assert(filtered.length === 1);
+
+        unsubscribe();
+        stream.publish(event("HelloWorld"));
+        assert(stream.subscribers === 1);
+        assert(all.length === 4);
+        assert(filtered.length === 1);
+    });
+
+    it("should not fail publishing if a subscriber throws", () => {
+        const stream = new InvocationStream();
+        const received: InvocationStreamEvent[] = [];
+        stream.subscribe({}, () => { throw new Error("Boom"); });
+        stream.subscribe({ correlationId: "C1" }, e => received.push(e));
+        stream.publish(event("HelloWorld"));
+        assert(received.length === 1);
+    });
+
+    it("should format Server-Sent Event", () => {
+        const e = event("HelloWorld");
+        assert(serverSentEvent(e) === `event: command_started\ndata: ${JSON.stringify(e)}\n\n`);
+    });
+
+    describe("StreamingAutomationEventListener", () => {
+
+        const stream = invocationStream();
+
+        afterEach(() => setInvocationStream(stream));
+
+        it("should stream start, messages and completion of command", done => {
+            setInvocationStream(new InvocationStream());
+            const events: InvocationStreamEvent[] = [];
+            const correlationId = guid();
+            invocationStream().subscribe({ correlationId }, e => events.push(e));
+
+            const automations = new BuildableAutomationServer({ name: "stream", version: "0.1.0" });
+            const handler: Factory<HandleCommand> = () => ({
+                __kind: "command-handler",
+                __intent: "hello",
+                __name: "HelloWorld",
+                handle: (ctx: HandlerContext) => ctx.messageClient.respond("Hello")
+                    .then(() => ({ code: 0 }) as HandlerResult),
+            });
+            automations.registerCommandHandler(handler);
+
+            new StreamingRequestProcessor(automations, [new StreamingAutomationEventListener()])
+                .processCommand({
+                    parameters: [],
+                    mapped_parameters: [],
+                    secrets: [],
+                    command: "HelloWorld",
+                    correlation_id: correlationId,
+                    team: { id: "Txxxxxx" },
+                    source: {
+                        user_agent: "slack",
+                        slack: {
+                            team: { id: "Txxxxxx" },
+                            channel: { id: "C12345" },
+                            user: { id: "U12345" },
+                        },
+                    } as any,
+                }, result => {
+                    result.then(() => {
+                        assert.deepEqual(events.map(e => e.type), ["command_started", "message_sent", "command_succeeded"]);
+                        assert(events.every(e => e.operation === "HelloWorld" && e.team_id === "Txxxxxx"));
+                        assert(events[1].message === "Hello");
+                        assert(events[2].code === 0);
+                        assert(events[2].duration >= 0);
+                        assert(!!events[2].invocation_id);
+                    })
+                    .then(() => done(), done);
+                });
+        });
+
+        it("should not stream secrets of webhook destinations", () => {
+            setInvocationStream(new InvocationStream());
+            const events: string[] = [];
+            invocationStream().subscribe({}, e => events.push(serverSentEvent(e)));
+
+            new StreamingAutomationEventListener().messageSent("Hello",
+                addressWebhook("https://hooks.example.com/services/T000/B000/XXXX?token=abc", {
+                    secret: "signing-secret",
+                    headers: { Authorization: "Bearer bearer-token" },
+                }), {}, { teamId: "T1", correlationId: "C1" } as any);
+
+            assert(events.length === 1);
+            assert(events[0].indexOf(`"url":"https://hooks.example.com"`) > 0);
+            ["signing-secret", "bearer-token", "XXXX", "token=abc"].forEach(s => assert(events[0].indexOf(s) < 0));
+        });
+
+        it("should stream delivery errors of messages", () => {
+            setInvocationStream(new InvocationStream());
+            const events: InvocationStreamEvent[] = [];
+            invocationStream().subscribe({}, e => events.push(e));
+
+            const listener = new StreamingAutomationEventListener();
+            listener.messageSent("Hello", addressWebhook("https://example.com/hook"), {},
+                { teamId: "T1", correlationId: "C1" } as any);
+            listener.messageSent("Hello", addressWebhook("https://example.com/hook"), {},
+                { teamId: "T1", correlationId: "C1" } as any, new Error("Request failed with status code 404"));
+
+            assert.deepEqual(events.map(e => e.type), ["message_sent", "message_sent"]);
+            assert(events[0].error === undefined);
+            assert(events[1].error === "Request failed with status code 404");
+        });
+    });
+});
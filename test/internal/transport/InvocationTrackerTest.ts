@@ -0,0 +1,172 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    invocationTracker,
+    setInvocationTracker,
+} from "../../../src/globals";
+import { HandleCommand } from "../../../src/HandleCommand";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../src/HandlerContext";
+import { HandlerResult } from "../../../src/HandlerResult";
+import { AbstractRequestProcessor } from "../../../src/internal/transport/AbstractRequestProcessor";
+import { InvocationTracker } from "../../../src/internal/transport/InvocationTracker";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../src/internal/transport/RequestProcessor";
+import { AutomationContext } from "../../../src/internal/util/cls";
+import { Deferred } from "../../../src/internal/util/Deferred";
+import { guid } from "../../../src/internal/util/string";
+import { BuildableAutomationServer } from "../../../src/server/BuildableAutomationServer";
+import { GraphClient } from "../../../src/spi/graph/GraphClient";
+import { MessageClient } from "../../../src/spi/message/MessageClient";
+import { Factory } from "../../../src/util/constructionUtils";
+
+class StatusRecordingRequestProcessor extends AbstractRequestProcessor {
+
+    public statuses: any[] = [];
+
+    protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        this.statuses.push(payload);
+        return Promise.resolve();
+    }
+
+    protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+        return undefined;
+    }
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+        return undefined;
+    }
+}
+
+describe("InvocationTracker", () => {
+
+    function context(): AutomationContext {
+        return {
+            correlationId: guid(),
+            teamId: "Txxxxxx",
+            teamName: undefined,
+            operation: "HelloWorld",
+            name: "drain",
+            version: "0.1.0",
+            invocationId: guid(),
+            ts: Date.now(),
+        };
+    }
+
+    it("should drain once in-flight invocations complete", done => {
+        const tracker = new InvocationTracker();
+        const first = tracker.start(context(), "command");
+        const second = tracker.start(context(), "event");
+        assert(tracker.inFlight().length === 2);
+        assert(!tracker.draining);
+
+        const report = tracker.drain(1000);
+        assert(tracker.draining);
+        first();
+        setTimeout(second, 20);
+        report
+            .then(r => {
+                assert(r.drained);
+                assert(r.abandoned.length === 0);
+                assert(r.duration >= 15);
+                assert(r.duration < 1000);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should report abandoned invocations after deadline", done => {
+        const tracker = new InvocationTracker();
+        tracker.start(context(), "command")();
+        const cls = context();
+        tracker.start(cls, "event");
+        tracker.drain(20)
+            .then(r => {
+                assert(!r.drained);
+                assert(r.abandoned.length === 1);
+                assert(r.abandoned[0].invocationId === cls.invocationId);
+                assert(r.abandoned[0].type === "event");
+                assert(r.abandoned[0].operation === "HelloWorld");
+                return tracker.drain(1000).then(again => assert(again === r));
+            })
+            .then(() => done(), done);
+    });
+
+    it("should drain right away without in-flight invocations", done => {
+        new InvocationTracker().drain(60000)
+            .then(r => assert(r.drained))
+            .then(() => done(), done);
+    });
+
+    describe("request processor", () => {
+
+        const tracker = invocationTracker();
+
+        afterEach(() => setInvocationTracker(tracker));
+
+        function processor(result: Promise<HandlerResult>): StatusRecordingRequestProcessor {
+            const automations = new BuildableAutomationServer({ name: "drain", version: "0.1.0" });
+            const handler: Factory<HandleCommand> = () => ({
+                __kind: "command-handler",
+                __intent: "hello",
+                __name: "HelloWorld",
+                handle: (ctx: HandlerContext) => result,
+            });
+            automations.registerCommandHandler(handler);
+            return new StatusRecordingRequestProcessor(automations);
+        }
+
+        function command(): CommandIncoming {
+            return {
+                parameters: [],
+                mapped_parameters: [],
+                secrets: [],
+                command: "HelloWorld",
+                correlation_id: guid(),
+                team: { id: "Txxxxxx" },
+                source: {
+                    user_agent: "slack",
+                    slack: {
+                        team: { id: "Txxxxxx" },
+                        channel: { id: "C12345" },
+                        user: { id: "U12345" },
+                    },
+                } as any,
+            };
+        }
+
+        it("should track invocation until completed", done => {
+            setInvocationTracker(new InvocationTracker());
+            const result = new Deferred<HandlerResult>();
+            processor(result.promise).processCommand(command(), r => {
+                r.then(hr => {
+                    assert(hr.code === 0);
+                    assert(invocationTracker().inFlight().length === 0);
+                })
+                .then(() => done(), done);
+            });
+            assert(invocationTracker().inFlight().length === 1);
+            assert(invocationTracker().inFlight()[0].operation === "HelloWorld");
+            result.resolve({ code: 0 });
+        });
+
+        it("should reject invocation while draining", done => {
+            setInvocationTracker(new InvocationTracker());
+            invocationTracker().drain(0);
+            const p = processor(Promise.resolve({ code: 0 }));
+            p.processCommand(command(), r => {
+                r.then(hr => {
+                    assert(hr.code === 1);
+                    assert(/Rejected invocation of command 'HelloWorld' during shutdown/.test((hr as any).message));
+                    assert(p.statuses.length === 1);
+                    assert(p.statuses[0].status.code === 1);
+                    assert(invocationTracker().inFlight().length === 0);
+                })
+                .then(() => done(), done);
+            });
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import * as cluster from "cluster";
+import { EventEmitter } from "events";
+import "mocha";
+import * as assert from "power-assert";
+import { workerLoad } from "../../../../src/globals";
+import { HandleCommand } from "../../../../src/HandleCommand";
+import { HandlerContext } from "../../../../src/HandlerContext";
+import { HandlerResult } from "../../../../src/HandlerResult";
+import {
+    ClusterMasterRequestProcessor,
+    WorkerSupervisionOptions,
+} from "../../../../src/internal/transport/cluster/ClusterMasterRequestProcessor";
+import {
+    LeastLoadedScheduler,
+    WorkerScheduler,
+} from "../../../../src/internal/transport/cluster/scheduling";
+import { CommandIncoming } from "../../../../src/internal/transport/RequestProcessor";
+import { guid } from "../../../../src/internal/util/string";
+import { BuildableAutomationServer } from "../../../../src/server/BuildableAutomationServer";
+import { Factory } from "../../../../src/util/constructionUtils";
+
+class FakeWorker extends EventEmitter {
+
+    public sent: any[] = [];
+    public connected: boolean = true;
+
+    constructor(public id: number) {
+        super();
+    }
+
+    public send(message: any) {
+        this.sent.push(message);
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public disconnect() {
+        this.connected = false;
+    }
+
+    // tslint:disable-next-line:no-empty
+    public kill() { }
+
+    public commands(): any[] {
+        return this.sent.filter(m => m.type === "command");
+    }
+}
+
+describe("ClusterMasterRequestProcessor", () => {
+
+    const fork = cluster.fork;
+    let forked: FakeWorker[];
+
+    beforeEach(() => {
+        forked = [];
+        (cluster as any).fork = () => {
+            const worker = new FakeWorker(forked.length + 1);
+            forked.push(worker);
+            return worker;
+        };
+    });
+
+    afterEach(() => {
+        (cluster as any).fork = fork;
+        cluster.removeAllListeners("exit");
+        cluster.removeAllListeners("disconnect");
+    });
+
+    function processor(workers: number,
+                       supervision: WorkerSupervisionOptions,
+                       start: boolean = true,
+                       scheduler?: WorkerScheduler): ClusterMasterRequestProcessor {
+        const automations = new BuildableAutomationServer({ name: "cluster", version: "0.1.0" });
+        const handler: Factory<HandleCommand> = () => ({
+            __kind: "command-handler",
+            __intent: "hello",
+            __name: "HelloWorld",
+            handle: (ctx: HandlerContext) => Promise.resolve({ code: 0 }),
+        });
+        automations.registerCommandHandler(handler);
+        const p = new ClusterMasterRequestProcessor(automations, {} as any, [], workers, supervision, scheduler);
+        // tslint:disable-next-line:no-empty
+        p.onConnect({ send: () => { } } as any);
+        p.run();
+        if (start) {
+            forked.forEach(online);
+        }
+        return p;
+    }
+
+    function online(worker: FakeWorker) {
+        worker.emit("message", { type: "online", context: null });
+    }
+
+    function command(): CommandIncoming {
+        return {
+            parameters: [],
+            mapped_parameters: [],
+            secrets: [],
+            command: "HelloWorld",
+            correlation_id: guid(),
+            team: { id: "Txxxxxx" },
+            source: {
+                user_agent: "slack",
+                slack: {
+                    team: { id: "Txxxxxx" },
+                    channel: { id: "C12345" },
+                    user: { id: "U12345" },
+                },
+            } as any,
+        };
+    }
+
+    function complete(worker: FakeWorker, message: any) {
+        worker.emit("message", {
+            type: "command_success",
+            event: { name: "HelloWorld" },
+            context: message.context,
+            data: { code: 0 },
+        });
+    }
+
+    it("should fail in-flight invocation of crashed worker", done => {
+        const p = processor(2, { restart: { initialDelay: 10, maxDelay: 100 } });
+        p.processCommand(command(), result => {
+            result.then(r => {
+                assert(r.code === 1);
+                assert(/exited during invocation/.test((r as any).message));
+            })
+            .then(() => done(), done);
+        });
+
+        const worker = forked.find(w => w.commands().length === 1);
+        cluster.emit("exit", worker, 0, null);
+    });
+
+    it("should re-dispatch in-flight invocation of crashed worker to another worker", done => {
+        const p = processor(2, { maxRedispatches: 1 });
+        p.processCommand(command(), result => {
+            result.then(r => assert(r.code === 0)).then(() => done(), done);
+        });
+
+        const crashed = forked.find(w => w.commands().length === 1);
+        cluster.emit("exit", crashed, 0, null);
+        const other = forked.find(w => w !== crashed);
+        assert(other.commands().length === 1);
+        complete(other, other.commands()[0]);
+    });
+
+    it("should queue invocations until a worker is online", () => {
+        const p = processor(1, {}, false);
+        p.processCommand(command());
+        assert(forked[0].commands().length === 0);
+        online(forked[0]);
+        assert(forked[0].commands().length === 1);
+    });
+
+    it("should restart crashed worker with exponential backoff", done => {
+        processor(1, { restart: { initialDelay: 20, maxDelay: 1000 } });
+        const start = Date.now();
+        cluster.emit("exit", forked[0], 1, null);
+        setTimeout(() => {
+            assert(forked.length === 2);
+            cluster.emit("exit", forked[1], 1, null);
+            setTimeout(() => {
+                assert(forked.length === 2);
+                setTimeout(() => {
+                    assert(forked.length === 3);
+                    assert(Date.now() - start >= 60);
+                    done();
+                }, 30);
+            }, 20);
+        }, 40);
+    });
+
+    it("should back off restarts per crashed worker", done => {
+        processor(2, { restart: { initialDelay: 20, maxDelay: 1000 } });
+        cluster.emit("exit", forked[0], 1, null);
+        setTimeout(() => {
+            assert(forked.length === 3);
+            // the other worker crashing for the first time restarts after the initial delay
+            cluster.emit("exit", forked[1], 1, null);
+            setTimeout(() => {
+                assert(forked.length === 4);
+                done();
+            }, 30);
+        }, 30);
+    });
+
+    it("should recycle worker after max invocations once drained", done => {
+        const p = processor(1, { recycle: { maxInvocations: 1 } });
+        const results: Array<Promise<HandlerResult>> = [];
+        p.processCommand(command(), result => results.push(result));
+        assert(forked.length === 2);
+        assert(forked[0].isConnected());
+
+        // the second invocation waits for the replacement to come online
+        p.processCommand(command(), result => results.push(result));
+        assert(forked[0].commands().length === 1);
+        online(forked[1]);
+        assert(forked[1].commands().length === 1);
+
+        complete(forked[0], forked[0].commands()[0]);
+        results[0].then(r => {
+            assert(r.code === 0);
+            assert(!forked[0].isConnected());
+        })
+        .then(() => done(), done);
+    });
+
+    it("should recycle worker exceeding memory threshold", () => {
+        processor(1, { recycle: { maxMemory: 100 } });
+        forked[0].emit("message", { type: "stats", context: null, data: { memory: { rss: 50 * 1024 * 1024 } } });
+        assert(forked.length === 1);
+        forked[0].emit("message", { type: "stats", context: null, data: { memory: { rss: 150 * 1024 * 1024 } } });
+        assert(forked.length === 2);
+        assert(!forked[0].isConnected());
+    });
+
+    it("should dispatch to least loaded worker and report worker load", done => {
+        const p = processor(3, {}, true, LeastLoadedScheduler);
+        p.processCommand(command());
+        p.processCommand(command());
+        p.processCommand(command());
+        assert.deepEqual(forked.map(w => w.commands().length), [1, 1, 1]);
+
+        complete(forked[1], forked[1].commands()[0]);
+        // completion is processed asynchronously by the listeners
+        setTimeout(() => {
+            p.processCommand(command());
+            assert(forked[1].commands().length === 2);
+
+            const load = workerLoad();
+            assert(load.length === 3);
+            assert.deepEqual(load.map(w => w.inFlight), [1, 1, 1]);
+            assert.deepEqual(load.map(w => w.invocations), [1, 2, 1]);
+            done();
+        }, 10);
+    });
+});
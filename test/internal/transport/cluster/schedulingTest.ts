@@ -0,0 +1,103 @@
+import "mocha";
+import * as assert from "power-assert";
+import { MappedParameters } from "../../../../src/decorators";
+import { Automations } from "../../../../src/internal/metadata/metadata";
+import { MasterMessage } from "../../../../src/internal/transport/cluster/messages";
+import {
+    LeastLoadedScheduler,
+    repoKey,
+    stickyScheduler,
+    teamKey,
+    WorkerLoad,
+} from "../../../../src/internal/transport/cluster/scheduling";
+
+describe("scheduling", () => {
+
+    const automations: Automations = {
+        name: "scheduling",
+        version: "0.1.0",
+        policy: "ephemeral",
+        team_ids: ["Txxxxxx"],
+        keywords: [],
+        commands: [{
+            name: "BuildRepo",
+            description: "Build a repository",
+            intent: [],
+            tags: [],
+            parameters: [],
+            secrets: [],
+            mapped_parameters: [
+                { name: "owner", uri: MappedParameters.GitHubOwner, required: true },
+                { name: "repository", uri: MappedParameters.GitHubRepository, required: true },
+            ],
+        }],
+        events: [],
+        ingesters: [],
+    };
+
+    function workers(...inFlight: number[]): WorkerLoad[] {
+        return inFlight.map((f, i) => ({
+            id: i + 1,
+            pid: 1000 + i,
+            online: true,
+            draining: false,
+            inFlight: f,
+            invocations: f,
+        }));
+    }
+
+    function command(teamId: string, owner?: string, repository?: string): MasterMessage {
+        return {
+            type: "command",
+            registration: undefined,
+            context: { teamId } as any,
+            data: {
+                command: "BuildRepo",
+                mapped_parameters: owner ? [{ name: "owner", value: owner }, { name: "repository", value: repository }] : [],
+            },
+        };
+    }
+
+    it("should pick least loaded worker", () => {
+        assert(LeastLoadedScheduler.assignWorker(command("T1"), workers(3, 1, 2), automations).id === 2);
+    });
+
+    it("should stick invocations of a team to the same worker", () => {
+        const scheduler = stickyScheduler(teamKey);
+        const all = workers(0, 0, 0, 0);
+        const assigned = scheduler.assignWorker(command("T1"), all, automations);
+        for (let i = 0; i < 10; i++) {
+            assert(scheduler.assignWorker(command("T1"), all, automations).id === assigned.id);
+        }
+
+        // removing another worker doesn't move the team
+        const remaining = all.filter(w => w.id !== assigned.id).slice(1);
+        assert(scheduler.assignWorker(command("T1"), [...remaining, assigned], automations).id === assigned.id);
+
+        const teams = ["T1", "T2", "T3", "T4", "T5", "T6", "T7", "T8"];
+        const ids = new Set(teams.map(t => scheduler.assignWorker(command(t), all, automations).id));
+        assert(ids.size > 1);
+    });
+
+    it("should key commands on mapped repository parameters", () => {
+        assert(repoKey(command("T1", "atomist", "automation-client-ts"), automations) === "atomist/automation-client-ts");
+        assert(repoKey(command("T1"), automations) === "T1");
+    });
+
+    it("should key events on first repo in event data", () => {
+        const event: MasterMessage = {
+            type: "event",
+            registration: undefined,
+            context: { teamId: "T1" } as any,
+            data: {
+                data: {
+                    Push: [{
+                        after: { sha: "123" },
+                        repo: { owner: "atomist", name: "automation-client-ts" },
+                    }],
+                },
+            },
+        };
+        assert(repoKey(event, automations) === "atomist/automation-client-ts");
+    });
+});
@@ -0,0 +1,202 @@
+import "mocha";
+import * as assert from "power-assert";
+import { EventHandler } from "../../../src/decorators";
+import {
+    deadLetterStore,
+    invocationLimiter,
+    setDeadLetterStore,
+    setInvocationLimiter,
+} from "../../../src/globals";
+import { HandleEvent } from "../../../src/HandleEvent";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../src/HandlerContext";
+import { InMemoryDeadLetterStore } from "../../../src/internal/event/InMemoryDeadLetterStore";
+import { CapturingMessageClient } from "../../../src/internal/message/CapturingMessageClient";
+import { AbstractRequestProcessor } from "../../../src/internal/transport/AbstractRequestProcessor";
+import { retryDeadLetter } from "../../../src/internal/transport/deadLetter";
+import { InvocationLimiter } from "../../../src/internal/transport/InvocationLimiter";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../src/internal/transport/RequestProcessor";
+import { guid } from "../../../src/internal/util/string";
+import { BuildableAutomationServer } from "../../../src/server/BuildableAutomationServer";
+import { GraphClient } from "../../../src/spi/graph/GraphClient";
+import { MessageClient } from "../../../src/spi/message/MessageClient";
+
+class TestRequestProcessor extends AbstractRequestProcessor {
+
+    protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        return Promise.resolve();
+    }
+
+    protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+        return undefined;
+    }
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+        return new CapturingMessageClient();
+    }
+}
+
+describe("deadLetter", () => {
+
+    const invocations: string[] = [];
+    let failing = true;
+
+    @EventHandler("always succeeds", "subscription IssueCreated { Issue { title }}")
+    class Succeeds implements HandleEvent<any> {
+
+        public handle() {
+            invocations.push("Succeeds");
+            return Promise.resolve({ code: 0 });
+        }
+    }
+
+    @EventHandler("returns failed result", "subscription IssueCreated { Issue { title }}")
+    class ReturnsFailure implements HandleEvent<any> {
+
+        public handle() {
+            invocations.push("ReturnsFailure");
+            return Promise.resolve({ code: 1, message: "Something went wrong" });
+        }
+    }
+
+    @EventHandler("fails until fixed", "subscription IssueCreated { Issue { title }}")
+    class FailsUntilFixed implements HandleEvent<any> {
+
+        public handle() {
+            invocations.push("FailsUntilFixed");
+            return failing ? Promise.reject(new Error("Not fixed yet")) : Promise.resolve({ code: 0 });
+        }
+    }
+
+    const store = deadLetterStore();
+    const limiter = invocationLimiter();
+
+    afterEach(() => {
+        setDeadLetterStore(store);
+        setInvocationLimiter(limiter);
+        invocations.splice(0);
+        failing = true;
+    });
+
+    /**
+     * Both handlers subscribe to the same operation to be invoked for the same event
+     */
+    function automationsWithSharedSubscription(): BuildableAutomationServer {
+        const automations = new BuildableAutomationServer({ name: "dead-letter", version: "0.1.0" });
+        automations.registerEventHandler(Succeeds);
+        automations.registerEventHandler(FailsUntilFixed);
+        automations.automations.events.forEach(eh => eh.subscriptionName = "IssueCreated_1");
+        return automations;
+    }
+
+    function processEvent(processor: AbstractRequestProcessor, event: EventIncoming): Promise<any> {
+        return new Promise(resolve => processor.processEvent(event, results => resolve(results)));
+    }
+
+    it("should dead-letter failed handlers and only retry those", () => {
+        setDeadLetterStore(new InMemoryDeadLetterStore());
+        const processor = new TestRequestProcessor(automationsWithSharedSubscription());
+
+        return processEvent(processor, {
+            data: { Issue: [{ title: "test" }] },
+            extensions: {
+                operationName: "IssueCreated",
+                team_id: "T1",
+                correlation_id: guid(),
+            },
+            secrets: [],
+        })
+            .then(() => {
+                assert.deepEqual(invocations.sort(), ["FailsUntilFixed", "Succeeds"]);
+                const entries = deadLetterStore().list();
+                assert(entries.length === 1);
+                assert(entries[0].error.message === "Not fixed yet");
+                assert.deepEqual(entries[0].handlers, ["FailsUntilFixed"]);
+
+                invocations.splice(0);
+                failing = false;
+                return retryDeadLetter(deadLetterStore().remove(entries[0].id), processor);
+            })
+            .then(results => {
+                assert(results.every(r => r.code === 0));
+                assert.deepEqual(invocations, ["FailsUntilFixed"]);
+                assert(deadLetterStore().list().length === 0);
+            });
+    });
+
+    it("should dead-letter handlers returning failed results", () => {
+        setDeadLetterStore(new InMemoryDeadLetterStore());
+        const automations = automationsWithSharedSubscription();
+        automations.registerEventHandler(ReturnsFailure);
+        automations.automations.events.forEach(eh => eh.subscriptionName = "IssueCreated_1");
+        failing = false;
+
+        return processEvent(new TestRequestProcessor(automations), {
+            data: { Issue: [{ title: "test" }] },
+            extensions: {
+                operationName: "IssueCreated",
+                team_id: "T1",
+                correlation_id: guid(),
+            },
+            secrets: [],
+        })
+            .then(results => {
+                assert(results.some(r => r.code === 1));
+                const entries = deadLetterStore().list();
+                assert(entries.length === 1);
+                assert(entries[0].error.message === "Something went wrong");
+                assert.deepEqual(entries[0].handlers, ["ReturnsFailure"]);
+            });
+    });
+
+    it("should dead-letter retried event again with the handlers still failing", () => {
+        setDeadLetterStore(new InMemoryDeadLetterStore());
+        const processor = new TestRequestProcessor(automationsWithSharedSubscription());
+        deadLetterStore().add({
+            data: { Issue: [{ title: "test" }] },
+            extensions: {
+                operationName: "IssueCreated",
+                team_id: "T1",
+                correlation_id: guid(),
+            },
+            secrets: [],
+        }, new Error("Not fixed yet"), ["FailsUntilFixed"]);
+
+        return retryDeadLetter(deadLetterStore().remove(deadLetterStore().list()[0].id), processor)
+            .then(() => {
+                assert.deepEqual(invocations, ["FailsUntilFixed"]);
+                const entries = deadLetterStore().list();
+                assert(entries.length === 1);
+                assert.deepEqual(entries[0].handlers, ["FailsUntilFixed"]);
+            });
+    });
+
+    it("should dead-letter event rejected by the invocation limiter", () => {
+        setDeadLetterStore(new InMemoryDeadLetterStore());
+        const full = new InvocationLimiter({ global: 0, maxQueueSize: 0 });
+        setInvocationLimiter(full);
+
+        return processEvent(new TestRequestProcessor(automationsWithSharedSubscription()), {
+            data: { Issue: [{ title: "test" }] },
+            extensions: {
+                operationName: "IssueCreated",
+                team_id: "T1",
+                correlation_id: guid(),
+            },
+            secrets: [],
+        })
+            .then(result => {
+                assert(result.code === 1);
+                assert(invocations.length === 0);
+                const entries = deadLetterStore().list();
+                assert(entries.length === 1);
+                assert(/queue is full/.test(entries[0].error.message));
+                assert.deepEqual(full.stats(), { running: 0, queued: 0, handlers: {} });
+            });
+    });
+});
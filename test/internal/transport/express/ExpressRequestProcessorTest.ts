@@ -0,0 +1,147 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../../src/HandlerContext";
+import { ExpressRequestProcessor } from "../../../../src/internal/transport/express/ExpressRequestProcessor";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../../src/internal/transport/RequestProcessor";
+import { AutomationEventListenerSupport } from "../../../../src/server/AutomationEventListener";
+import { BuildableAutomationServer } from "../../../../src/server/BuildableAutomationServer";
+import {
+    addressSlackChannels,
+    addressWebhook,
+    Destination,
+    MessageClient,
+    MessageOptions,
+} from "../../../../src/spi/message/MessageClient";
+
+class RecordingListener extends AutomationEventListenerSupport {
+
+    public sent: Array<{ message: any, posted: number, err: any }> = [];
+
+    public messageSent(message: any,
+                       destinations: Destination | Destination[],
+                       options: MessageOptions,
+                       ctx: HandlerContext,
+                       err?: any) {
+        this.sent.push({ message, posted: mock.history.post.length, err });
+    }
+}
+
+class TestExpressRequestProcessor extends ExpressRequestProcessor {
+
+    public messageClient(command: CommandIncoming): MessageClient {
+        const ctx: HandlerContext & AutomationContextAware = {
+            teamId: command.team.id,
+            correlationId: command.correlation_id,
+            messageClient: undefined,
+            context: {
+                correlationId: command.correlation_id,
+                teamId: command.team.id,
+                teamName: command.team.name,
+                operation: command.command,
+                name: "express",
+                version: "0.1.0",
+                invocationId: "I1",
+                ts: Date.now(),
+            },
+        };
+        return this.createAndWrapMessageClient(command as CommandIncoming | EventIncoming, ctx);
+    }
+}
+
+let mock: any;
+
+describe("ExpressRequestProcessor", () => {
+
+    const command: CommandIncoming = {
+        correlation_id: "C1",
+        command: "HelloWorld",
+        team: { id: "T1", name: "team" },
+        source: undefined,
+        parameters: [],
+        mapped_parameters: [],
+        secrets: [],
+    };
+
+    beforeEach(() => {
+        mock = new MockAdapter(axios);
+        mock.onPut("https://app.atomist.com/v1/event").reply(200);
+        mock.onPost("https://example.com/hook").reply(200);
+        mock.onPost("https://example.com/gone").reply(404);
+    });
+
+    afterEach(() => mock.restore());
+
+    function processor(listener?: RecordingListener): TestExpressRequestProcessor {
+        return new TestExpressRequestProcessor("token", command,
+            new BuildableAutomationServer({ name: "express", version: "0.1.0" }), listener ? [listener] : [], {} as any);
+    }
+
+    it("should return message reference from respond", () => {
+        return processor().messageClient(command).respond("Hello", { id: "hello" })
+            .then(reference => {
+                assert.deepEqual(reference, { id: "hello" });
+            });
+    });
+
+    it("should return message reference with thread from send", () => {
+        return processor().messageClient(command)
+            .send("Hello", addressSlackChannels("T1", "general").replyInThread("1234.5678"))
+            .then(reference => {
+                assert(!!reference.id);
+                assert(reference.thread === "1234.5678");
+            });
+    });
+
+    it("should return message reference from send to routed destinations", () => {
+        return processor().messageClient(command)
+            .send("Hello", addressWebhook("https://example.com/hook"), { id: "hook" })
+            .then(reference => {
+                assert.deepEqual(reference, { id: "hook" });
+                assert(mock.history.post.length === 1);
+            });
+    });
+
+    it("should not send messages of events fired from webhooks through Atomist", () => {
+        const eventProcessor = new TestExpressRequestProcessor(undefined, null,
+            new BuildableAutomationServer({ name: "express", version: "0.1.0" }), [], {} as any);
+        const messageClient = eventProcessor.messageClient(command);
+        return messageClient.respond("Hello")
+            .then(() => messageClient.send("Hello", addressSlackChannels("T1", "general")))
+            .then(() => messageClient.send("Hello", addressWebhook("https://example.com/hook")))
+            .then(() => {
+                assert(mock.history.put.length === 0);
+                assert(mock.history.post.length === 1);
+            });
+    });
+
+    it("should report delivered messages to listeners once delivered", () => {
+        const listener = new RecordingListener();
+        return processor(listener).messageClient(command)
+            .send("Hello", addressWebhook("https://example.com/hook"), { id: "hook" })
+            .then(() => {
+                assert(listener.sent.length === 1);
+                assert(listener.sent[0].message === "Hello");
+                assert(listener.sent[0].posted === 1);
+                assert(listener.sent[0].err === undefined);
+            });
+    });
+
+    it("should report failed deliveries to listeners", () => {
+        const listener = new RecordingListener();
+        return processor(listener).messageClient(command)
+            .send("Hello", addressWebhook("https://example.com/gone"))
+            .then(() => assert.fail("delivery should have failed"), err => {
+                assert(listener.sent.length === 1);
+                assert(listener.sent[0].message === "Hello");
+                assert(listener.sent[0].err === err);
+            });
+    });
+});
@@ -0,0 +1,52 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    AdminScope,
+    apiKeyIdentity,
+    isAuthorized,
+} from "../../../../src/internal/transport/express/auth";
+
+describe("auth", () => {
+
+    const keys = {
+        ops: { key: "ops-key", scopes: [AdminScope] },
+        ci: { key: "ci-key", scopes: ["deploy"] },
+        bot: { key: "bot-key" },
+    };
+
+    describe("apiKeyIdentity", () => {
+
+        it("should resolve identity of matching key", () => {
+            assert.deepEqual(apiKeyIdentity("ci-key", keys), { name: "ci", via: "apikey", scopes: ["deploy"] });
+            assert.deepEqual(apiKeyIdentity("bot-key", keys), { name: "bot", via: "apikey", scopes: [] });
+        });
+
+        it("should not resolve identity of unknown key", () => {
+            assert(apiKeyIdentity("other-key", keys) === undefined);
+            assert(apiKeyIdentity("ci-key", undefined) === undefined);
+        });
+    });
+
+    describe("isAuthorized", () => {
+
+        it("should allow any identity on non-admin routes", () => {
+            assert(isAuthorized(apiKeyIdentity("ci-key", keys), false));
+            assert(isAuthorized(apiKeyIdentity("bot-key", keys), undefined));
+        });
+
+        it("should reject identities without admin scope on admin routes", () => {
+            assert(!isAuthorized(apiKeyIdentity("ci-key", keys), true));
+            assert(!isAuthorized(apiKeyIdentity("bot-key", keys), true));
+            assert(!isAuthorized({ name: "alice", via: "jwt", scopes: ["read", "write"] }, true));
+        });
+
+        it("should allow identities with admin scope on admin routes", () => {
+            assert(isAuthorized(apiKeyIdentity("ops-key", keys), true));
+            assert(isAuthorized({ name: "alice", via: "jwt", scopes: ["read", AdminScope] }, true));
+        });
+
+        it("should reject missing identity", () => {
+            assert(!isAuthorized(undefined, false));
+        });
+    });
+});
@@ -0,0 +1,43 @@
+import "mocha";
+import * as assert from "power-assert";
+import * as vm from "vm";
+import { dashboard } from "../../../../src/internal/transport/express/dashboard";
+
+describe("dashboard", () => {
+
+    it("should render page polling admin endpoints", () => {
+        const html = dashboard("<client>@0.1.0", "/api");
+        assert(html.indexOf("<title>&lt;client&gt;@0.1.0</title>") > 0);
+        assert(html.indexOf(`var base = "/api";`) > 0);
+        ["/series/commands", "/series/events", "/log/invocations", "/registration"]
+            .forEach(path => assert(html.indexOf(`get("${path}")`) > 0));
+    });
+
+    it("should render series timestamps given in seconds", () => {
+        const ts = Math.floor(Date.now() / 1000);
+        const responses: { [path: string]: any } = {
+            "/api/series/commands": [[3], [ts]],
+            "/api/series/events": [[], []],
+            "/api/log/invocations": [],
+            "/api/registration": { commands: [], events: [] },
+        };
+        const elements: { [id: string]: { innerHTML: string } } = {};
+        const html = dashboard("client@0.1.0", "/api");
+        const script = html.slice(html.indexOf("<script>") + "<script>".length, html.indexOf("</script>"));
+
+        vm.runInNewContext(script, {
+            document: {
+                getElementById: (id: string) => elements[id] = elements[id] || { innerHTML: "" },
+                createElement: () => ({ innerHTML: "" }),
+            },
+            fetch: (url: string) => Promise.resolve({ json: () => responses[url] }),
+            setInterval: () => undefined,
+        });
+
+        return new Promise(resolve => setTimeout(resolve, 10))
+            .then(() => {
+                const expected = `<title>3 at ${new Date(ts * 1000).toLocaleTimeString()}</title>`;
+                assert(elements.commands.innerHTML.indexOf(expected) > 0);
+            });
+    });
+});
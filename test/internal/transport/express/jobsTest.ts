@@ -0,0 +1,213 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    invocationLimiter,
+    setInvocationLimiter,
+} from "../../../../src/globals";
+import { HandleCommand } from "../../../../src/HandleCommand";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../../src/HandlerContext";
+import { HandlerResult } from "../../../../src/HandlerResult";
+import { CapturingMessageClient } from "../../../../src/internal/message/CapturingMessageClient";
+import { AbstractRequestProcessor } from "../../../../src/internal/transport/AbstractRequestProcessor";
+import {
+    isJobOwner,
+    JobStore,
+} from "../../../../src/internal/transport/express/jobs";
+import { InvocationLimiter } from "../../../../src/internal/transport/InvocationLimiter";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../../src/internal/transport/RequestProcessor";
+import { Deferred } from "../../../../src/internal/util/Deferred";
+import { guid } from "../../../../src/internal/util/string";
+import { AutomationEventListener } from "../../../../src/server/AutomationEventListener";
+import { BuildableAutomationServer } from "../../../../src/server/BuildableAutomationServer";
+import { GraphClient } from "../../../../src/spi/graph/GraphClient";
+import { MessageClient } from "../../../../src/spi/message/MessageClient";
+import { Factory } from "../../../../src/util/constructionUtils";
+
+class JobRequestProcessor extends AbstractRequestProcessor {
+
+    protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        return Promise.resolve();
+    }
+
+    protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+        return undefined;
+    }
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+        return new CapturingMessageClient();
+    }
+}
+
+describe("JobStore", () => {
+
+    function command(): CommandIncoming {
+        return {
+            parameters: [],
+            mapped_parameters: [],
+            secrets: [],
+            command: "HelloWorld",
+            correlation_id: guid(),
+            team: { id: "Txxxxxx" },
+            source: {
+                user_agent: "slack",
+                slack: {
+                    team: { id: "Txxxxxx" },
+                    channel: { id: "C12345" },
+                    user: { id: "U12345" },
+                },
+            } as any,
+        };
+    }
+
+    function run(jobs: JobStore, handle: (ctx: HandlerContext) => Promise<HandlerResult>): string {
+        const automations = new BuildableAutomationServer({ name: "jobs", version: "0.1.0" });
+        const handler: Factory<HandleCommand> = () => ({
+            __kind: "command-handler",
+            __intent: "hello",
+            __name: "HelloWorld",
+            handle,
+        });
+        automations.registerCommandHandler(handler);
+
+        const payload = command();
+        const job = jobs.create(payload);
+        const listeners: AutomationEventListener[] = [jobs.listener(job.id)];
+        new JobRequestProcessor(automations, listeners)
+            .processCommand(payload, result => jobs.complete(job.id, result));
+        return job.id;
+    }
+
+    function finished(jobs: JobStore, id: string): Promise<void> {
+        return new Promise<void>(resolve => {
+            const check = () => jobs.find(id).result ? resolve() : setTimeout(check, 5);
+            check();
+        });
+    }
+
+    it("should report progress, result and messages of job", done => {
+        const jobs = new JobStore();
+        const result = new Deferred<HandlerResult>();
+        const id = run(jobs, ctx => ctx.messageClient.respond("Working on it").then(() => result.promise));
+
+        assert(jobs.find(id).status === "running");
+        assert(!!jobs.find(id).started);
+        assert(jobs.find(id).command === "HelloWorld");
+        setTimeout(() => {
+            assert(jobs.find(id).messages.length === 1);
+            assert(jobs.find(id).messages[0].message === "Working on it");
+            result.resolve({ code: 0, message: "Done" });
+        }, 10);
+
+        finished(jobs, id)
+            .then(() => {
+                const job = jobs.find(id);
+                assert(job.status === "succeeded");
+                assert(job.result.message === "Done");
+                assert(job.finished >= job.started);
+                assert.deepEqual(jobs.list().map(j => j.id), [id]);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should report failed job", done => {
+        const jobs = new JobStore();
+        const id = run(jobs, () => Promise.reject(new Error("Boom")));
+        finished(jobs, id)
+            .then(() => {
+                assert(jobs.find(id).status === "failed");
+                assert(jobs.find(id).result.code === 1);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should cancel running job", done => {
+        const jobs = new JobStore();
+        const result = new Deferred<HandlerResult>();
+        let context: HandlerContext;
+        const id = run(jobs, ctx => {
+            context = ctx;
+            return result.promise;
+        });
+
+        jobs.cancel(id, "No longer needed")
+            .then(job => {
+                assert(job.status === "cancelled");
+                assert(!!job.finished);
+                assert(context.lifecycle.cancelled());
+                result.resolve({ code: 0 });
+                return finished(jobs, id);
+            })
+            .then(() => {
+                assert(jobs.find(id).status === "cancelled");
+                return jobs.cancel(id, "Again");
+            })
+            .then(job => assert(job.status === "cancelled"))
+            .then(() => jobs.cancel("unknown", "Unknown"))
+            .then(job => assert(job === undefined))
+            .then(() => done(), done);
+    });
+
+    it("should never run job cancelled while waiting for an invocation slot", done => {
+        const limiter = invocationLimiter();
+        setInvocationLimiter(new InvocationLimiter({ global: 1 }));
+        const jobs = new JobStore();
+        const first = new Deferred<HandlerResult>();
+        const invoked: string[] = [];
+        run(jobs, () => {
+            invoked.push("first");
+            return first.promise;
+        });
+        const queued = run(jobs, () => {
+            invoked.push("queued");
+            return Promise.resolve({ code: 0 });
+        });
+
+        new Promise(resolve => setTimeout(resolve, 10))
+            .then(() => {
+                assert(jobs.find(queued).status === "pending");
+                return jobs.cancel(queued, "No longer needed");
+            })
+            .then(() => {
+                first.resolve({ code: 0 });
+                return finished(jobs, queued);
+            })
+            .then(() => {
+                assert.deepEqual(invoked, ["first"]);
+                assert(jobs.find(queued).status === "cancelled");
+            })
+            .then(() => setInvocationLimiter(limiter))
+            .then(() => done(), err => {
+                setInvocationLimiter(limiter);
+                done(err);
+            });
+    });
+
+    it("should evict finished jobs after retention", done => {
+        const jobs = new JobStore(10);
+        const id = run(jobs, () => Promise.resolve({ code: 0 }));
+        finished(jobs, id)
+            .then(() => new Promise(resolve => setTimeout(resolve, 30)))
+            .then(() => assert(jobs.find(id) === undefined))
+            .then(() => done(), done);
+    });
+
+    it("should only let the user that started a job access it", () => {
+        const jobs = new JobStore();
+        const job = jobs.create(command(), { name: "alice", via: "apikey", scopes: ["write"] });
+        assert.deepEqual(job.owner, { name: "alice", via: "apikey" });
+        assert(isJobOwner(job, { name: "alice", via: "apikey", scopes: [] }));
+        assert(!isJobOwner(job, { name: "bob", via: "apikey", scopes: [] }));
+        assert(!isJobOwner(job, { name: "alice", via: "basic", scopes: [] }));
+        assert(!isJobOwner(job, undefined));
+
+        const anonymous = jobs.create(command());
+        assert(isJobOwner(anonymous, undefined));
+        assert(isJobOwner(anonymous, { name: "bob", via: "apikey", scopes: [] }));
+    });
+});
@@ -0,0 +1,147 @@
+import * as crypto from "crypto";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    jwtIdentity,
+    verifyJwt,
+} from "../../../../src/internal/transport/express/jwt";
+
+describe("jwt", () => {
+
+    const now = 1517485624000;
+    const seconds = now / 1000;
+
+    function encode(value: any): string {
+        return Buffer.from(JSON.stringify(value)).toString("base64")
+            .replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_");
+    }
+
+    function sign(header: any, payload: any, sig: (input: string) => Buffer): string {
+        const input = `${encode(header)}.${encode(payload)}`;
+        return `${input}.${sig(input).toString("base64").replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_")}`;
+    }
+
+    const hmac = (secret: string) => (input: string) => crypto.createHmac("sha256", secret).update(input).digest();
+
+    const claims = { sub: "cd", scope: "command:invoke admin", exp: seconds + 60, iss: "atomist", aud: ["automation"] };
+
+    it("should verify HS256 token", () => {
+        const token = sign({ alg: "HS256", typ: "JWT" }, claims, hmac("secret"));
+        const verified = verifyJwt(token, { keys: { default: "secret" }, issuer: "atomist", audience: "automation" }, now);
+        assert(verified.sub === "cd");
+    });
+
+    it("should select key by kid", () => {
+        const token = sign({ alg: "HS256", kid: "two" }, claims, hmac("second"));
+        assert(verifyJwt(token, { keys: { one: "first", two: "second" } }, now).sub === "cd");
+        assert.throws(() => verifyJwt(token, { keys: { one: "first" } }, now), /No key/);
+    });
+
+    it("should verify RS256 token", () => {
+        const { publicKey, privateKey } = (crypto as any).generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: "spki", format: "pem" },
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        });
+        const token = sign({ alg: "RS256" }, claims,
+            input => crypto.createSign("RSA-SHA256").update(input).sign(privateKey));
+        assert(verifyJwt(token, { keys: { rsa: publicKey } }, now).sub === "cd");
+
+        // Public key must not be usable as HMAC secret
+        const forged = sign({ alg: "HS256" }, claims, hmac(publicKey));
+        assert.throws(() => verifyJwt(forged, { keys: { rsa: publicKey } }, now), /Invalid JWT signature/);
+    });
+
+    it("should verify RS256 token with PKCS#1 public key", () => {
+        const { publicKey, privateKey } = (crypto as any).generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: "pkcs1", format: "pem" },
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        });
+        const token = sign({ alg: "RS256" }, claims,
+            input => crypto.createSign("RSA-SHA256").update(input).sign(privateKey));
+        assert(verifyJwt(token, { keys: { rsa: publicKey } }, now).sub === "cd");
+    });
+
+    function ecKeyPair(namedCurve: string): { publicKey: string, privateKey: string } {
+        return (crypto as any).generateKeyPairSync("ec", {
+            namedCurve,
+            publicKeyEncoding: { type: "spki", format: "pem" },
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        });
+    }
+
+    // Reference JWS signatures in r || s encoding
+    const ecdsa = (hash: string, privateKey: string) => (input: string) =>
+        crypto.createSign(hash).update(input).sign({ key: privateKey, dsaEncoding: "ieee-p1363" } as any);
+
+    [["ES256", "prime256v1", "sha256"], ["ES384", "secp384r1", "sha384"], ["ES512", "secp521r1", "sha512"]]
+        .forEach(([alg, curve, hash]) => {
+            it(`should verify ${alg} token`, () => {
+                const { publicKey, privateKey } = ecKeyPair(curve);
+                // Sign repeatedly to cover r and s with and without high bit and leading zeros
+                for (let i = 0; i < 20; i++) {
+                    const token = sign({ alg }, { ...claims, jti: i }, ecdsa(hash, privateKey));
+                    assert(verifyJwt(token, { keys: { ec: publicKey } }, now).jti === i);
+                }
+
+                // DER encoded signatures aren't valid JWS signatures
+                const der = sign({ alg }, claims, input => crypto.createSign(hash).update(input).sign(privateKey));
+                assert.throws(() => verifyJwt(der, { keys: { ec: publicKey } }, now), /Invalid JWT signature/);
+            });
+        });
+
+    it("should only verify tokens with keys of the type the algorithm calls for", () => {
+        const p256 = ecKeyPair("prime256v1");
+        const p384 = ecKeyPair("secp384r1");
+        const rsa = (crypto as any).generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: "spki", format: "pem" },
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+        });
+
+        const es256 = sign({ alg: "ES256" }, claims, ecdsa("sha256", p256.privateKey));
+        assert.throws(() => verifyJwt(es256, { keys: { ec: p384.publicKey } }, now), /Invalid JWT signature/);
+        assert.throws(() => verifyJwt(es256, { keys: { rsa: rsa.publicKey } }, now), /Invalid JWT signature/);
+
+        // Same key and hash, but algorithm not matching the curve
+        const es384 = sign({ alg: "ES384" }, claims, ecdsa("sha384", p256.privateKey));
+        assert.throws(() => verifyJwt(es384, { keys: { ec: p256.publicKey } }, now), /Invalid JWT signature/);
+
+        const rs256 = sign({ alg: "RS256" }, claims, input => crypto.createSign("RSA-SHA256").update(input).sign(rsa.privateKey));
+        assert.throws(() => verifyJwt(rs256, { keys: { ec: p256.publicKey } }, now), /Invalid JWT signature/);
+
+        // Neither shared secrets nor unsupported PEM keys can verify public key signatures
+        assert.throws(() => verifyJwt(es256, { keys: { ec: "secret" } }, now), /Invalid JWT signature/);
+        assert.throws(() => verifyJwt(rs256, { keys: { rsa: rsa.privateKey } }, now), /Invalid JWT signature/);
+    });
+
+    it("should reject invalid tokens", () => {
+        const options = { keys: { default: "secret" }, issuer: "atomist", audience: "automation" };
+        assert.throws(() => verifyJwt("garbage", options, now), /Malformed/);
+        assert.throws(() => verifyJwt(sign({ alg: "HS256" }, claims, hmac("other")), options, now), /signature/);
+        assert.throws(() => verifyJwt(sign({ alg: "none" }, claims, () => Buffer.alloc(0)), options, now), /signature/);
+        assert.throws(() => verifyJwt(sign({ alg: "HS256" }, { ...claims, exp: seconds - 1 }, hmac("secret")), options, now),
+            /expired/);
+        assert.throws(() => verifyJwt(sign({ alg: "HS256" }, { ...claims, nbf: seconds + 10 }, hmac("secret")), options, now),
+            /not yet valid/);
+        assert.throws(() => verifyJwt(sign({ alg: "HS256" }, { ...claims, iss: "other" }, hmac("secret")), options, now),
+            /issuer/);
+        assert.throws(() => verifyJwt(sign({ alg: "HS256" }, { ...claims, aud: "other" }, hmac("secret")), options, now),
+            /audience/);
+        assert(verifyJwt(sign({ alg: "HS256" }, { ...claims, exp: seconds - 1 }, hmac("secret")),
+            { ...options, leeway: 5 }, now).sub === "cd");
+    });
+
+    it("should map claims to identity", () => {
+        const identity = jwtIdentity(claims, { keys: {} });
+        assert(identity.name === "cd");
+        assert(identity.via === "jwt");
+        assert.deepEqual(identity.scopes, ["command:invoke", "admin"]);
+
+        const mapped = jwtIdentity({ email: "cd@atomist.com", scp: ["read"] },
+            { keys: {}, claims: { name: "email", scopes: "scp" } });
+        assert(mapped.name === "cd@atomist.com");
+        assert.deepEqual(mapped.scopes, ["read"]);
+    });
+});
@@ -0,0 +1,134 @@
+import * as fs from "fs-extra";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    CommandHandler,
+    MappedParameter,
+    MappedParameters,
+    Parameter,
+    Secret,
+    Secrets,
+    Tags,
+} from "../../../../src/decorators";
+import { HandleCommand } from "../../../../src/HandleCommand";
+import { HandlerContext } from "../../../../src/HandlerContext";
+import { HandlerResult } from "../../../../src/HandlerResult";
+import {
+    openApiDocument,
+    openApiUi,
+    openApiUiAssets,
+} from "../../../../src/internal/transport/express/openapi";
+import {
+    oneOf,
+    someOf,
+} from "../../../../src/metadata/parameterUtils";
+import { BuildableAutomationServer } from "../../../../src/server/BuildableAutomationServer";
+
+@CommandHandler("Create an issue", "create issue")
+@Tags("github")
+class CreateIssue implements HandleCommand {
+
+    @Parameter({ pattern: /^.+$/, required: true, minLength: 3, maxLength: 100, description: "Issue title" })
+    public title: string;
+
+    @Parameter({ required: false, type: oneOf("bug", "enhancement") })
+    public kind: string;
+
+    @Parameter({ required: false, type: someOf("high", "low") })
+    public labels: string[];
+
+    @MappedParameter(MappedParameters.GitHubOwner)
+    public owner: string;
+
+    @Secret(Secrets.userToken("repo"))
+    public token: string;
+
+    public handle(ctx: HandlerContext): Promise<HandlerResult> {
+        return Promise.resolve({ code: 0 });
+    }
+}
+
+describe("openapi", () => {
+
+    const automations = new BuildableAutomationServer({ name: "openapi", version: "0.1.0" });
+    automations.registerCommandHandler(() => new CreateIssue());
+    const doc = openApiDocument(automations.automations);
+
+    it("should describe command handler routes", () => {
+        assert(doc.openapi === "3.0.0");
+        assert(doc.info.title === "openapi");
+        assert(doc.info.version === "0.1.0");
+        assert.deepEqual(doc.tags.map(t => t.name), ["github"]);
+
+        const path = doc.paths["/command/create-issue"];
+        assert(path.get.operationId === "invokeCreateIssueByQuery");
+        assert(path.post.operationId === "invokeCreateIssue");
+        assert(path.post.summary === "Create an issue");
+        assert.deepEqual(path.post["x-atomist-intent"], ["create issue"]);
+        assert(path.post.responses[200].content["application/json"].schema.$ref === "#/components/schemas/HandlerResult");
+    });
+
+    it("should carry pattern, required, length and choices of parameters", () => {
+        const parameters = doc.paths["/command/create-issue"].get.parameters;
+        const param = (name: string) => parameters.find(p => p.name === name);
+
+        assert(param("title").required === true);
+        assert(param("title").description === "Issue title");
+        assert(param("title").schema.type === "string");
+        assert(param("title").schema.pattern === "^.+$");
+        assert(param("title").schema.minLength === 3);
+        assert(param("title").schema.maxLength === 100);
+
+        assert(param("kind").required === false);
+        assert.deepEqual(param("kind").schema.enum, ["bug", "enhancement"]);
+        assert(param("labels").schema.type === "array");
+        assert.deepEqual(param("labels").schema.items.enum, ["high", "low"]);
+    });
+
+    it("should document mapped parameters and secrets as inputs", () => {
+        const parameters = doc.paths["/command/create-issue"].get.parameters;
+        const owner = parameters.find(p => p.name === "mp_owner");
+        assert(owner.required === true);
+        assert(owner.description === `Mapped parameter ${MappedParameters.GitHubOwner}`);
+        const token = parameters.find(p => p.name === `s_${Secrets.userToken("repo")}`);
+        assert(token.schema.format === "password");
+
+        const body = doc.paths["/command/create-issue"].post.requestBody.content["application/json"].schema;
+        assert.deepEqual(body.properties.command.enum, ["CreateIssue"]);
+        assert.deepEqual(body.properties.parameters.items.properties.name.enum, ["title", "kind", "labels"]);
+        assert.deepEqual(body.properties.mapped_parameters.items.properties.name.enum, ["owner"]);
+        assert.deepEqual(body.properties.secrets.items.properties.uri.enum, [Secrets.userToken("repo")]);
+        assert(body["x-atomist-parameters"].title.pattern === "^.+$");
+    });
+
+    it("should declare no security schemes without authentication", () => {
+        assert.deepEqual(doc.components.securitySchemes, {});
+        assert.deepEqual(doc.security, []);
+    });
+
+    it("should declare security schemes of enabled authentication methods", () => {
+        const secured = openApiDocument(automations.automations, "", {
+            basic: { enabled: true },
+            bearer: { enabled: false },
+            apiKey: { enabled: true, keys: {} },
+        });
+        assert.deepEqual(Object.keys(secured.components.securitySchemes), ["basic", "apiKey"]);
+        assert(secured.components.securitySchemes.basic.scheme === "basic");
+        assert(secured.components.securitySchemes.apiKey.scheme === "bearer");
+        assert.deepEqual(secured.security, [{ basic: [] }, { apiKey: [] }]);
+    });
+
+    it("should render UI pointing at document and bundled assets", () => {
+        const html = openApiUi("<openapi>", "/openapi.json", "/api-docs/assets");
+        assert(html.indexOf("&lt;openapi&gt;") > 0);
+        assert(html.indexOf(`url: "/openapi.json"`) > 0);
+        assert(html.indexOf(`src="/api-docs/assets/swagger-ui-bundle.js"`) > 0);
+        assert(html.indexOf(`href="/api-docs/assets/swagger-ui.css"`) > 0);
+        assert(html.indexOf("unpkg.com") < 0);
+    });
+
+    it("should find bundled Swagger UI assets", () => {
+        ["swagger-ui-bundle.js", "swagger-ui.css"]
+            .forEach(f => assert(fs.existsSync(`${openApiUiAssets()}/${f}`)));
+    });
+});
@@ -0,0 +1,93 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    RateLimiter,
+    TokenBucket,
+} from "../../../../src/internal/transport/express/rateLimit";
+
+describe("rateLimit", () => {
+
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(() => now = 1000);
+
+    describe("TokenBucket", () => {
+
+        it("should allow bursts up to capacity and refill over time", () => {
+            const bucket = new TokenBucket(2, 1 / 1000, clock);
+            assert(bucket.wait() === 0);
+            bucket.take();
+            bucket.take();
+            assert(bucket.available === 0);
+            assert(bucket.wait() === 1000);
+
+            now += 500;
+            assert(bucket.wait() === 500);
+            now += 500;
+            assert(bucket.available === 1);
+
+            now += 10000;
+            assert(bucket.available === 2);
+            assert(bucket.full);
+        });
+    });
+
+    describe("RateLimiter", () => {
+
+        it("should allow everything without limits", () => {
+            const limiter = new RateLimiter({}, clock);
+            for (let i = 0; i < 100; i++) {
+                assert(limiter.take("cd", "HelloWorld").allowed);
+            }
+        });
+
+        it("should limit users individually", () => {
+            const limiter = new RateLimiter({ user: { limit: 2, interval: 1000 } }, clock);
+            assert(limiter.take("cd", "HelloWorld").allowed);
+            const second = limiter.take("cd", "HelloWorld");
+            assert(second.allowed);
+            assert(second.scope === "user");
+            assert(second.limit === 2);
+            assert(second.remaining === 0);
+
+            const third = limiter.take("cd", "HelloWorld");
+            assert(!third.allowed);
+            assert(third.scope === "user");
+            assert(third.retryAfter === 500);
+
+            assert(limiter.take("kipz", "HelloWorld").allowed);
+            now += 500;
+            assert(limiter.take("cd", "HelloWorld").allowed);
+        });
+
+        it("should limit command handlers and globally", () => {
+            const limiter = new RateLimiter({
+                global: { limit: 3, interval: 3000 },
+                handlers: { Expensive: { limit: 1, interval: 10000 } },
+            }, clock);
+
+            assert(limiter.take("cd", "Expensive").allowed);
+            const rejected = limiter.take("kipz", "Expensive");
+            assert(!rejected.allowed);
+            assert(rejected.scope === "handler");
+            assert(rejected.retryAfter === 10000);
+
+            assert(limiter.take("kipz", "HelloWorld").allowed);
+            assert(limiter.take("kipz", "HelloWorld").allowed);
+            const global = limiter.take("kipz", "HelloWorld");
+            assert(!global.allowed);
+            assert(global.scope === "global");
+        });
+
+        it("should not consume tokens of other limits when rejecting", () => {
+            const limiter = new RateLimiter({
+                user: { limit: 1, interval: 1000 },
+                handlers: { Expensive: { limit: 1, interval: 1000 } },
+            }, clock);
+            assert(limiter.take("cd", "Expensive").allowed);
+            assert(!limiter.take("kipz", "Expensive").allowed);
+            assert(limiter.take("kipz", "HelloWorld").allowed);
+        });
+    });
+});
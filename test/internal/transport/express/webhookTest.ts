@@ -0,0 +1,73 @@
+import * as crypto from "crypto";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    verifyWebhookSignature,
+    webhookEvents,
+} from "../../../../src/internal/transport/express/webhook";
+import { BuildableAutomationServer } from "../../../../src/server/BuildableAutomationServer";
+import { GitLabPushPayload } from "../../../event/gitLabIngester";
+import { GitLabPush } from "../../../event/GitLabPush";
+import { HelloWorldIngester } from "../../../event/HelloWorld";
+
+describe("webhook", () => {
+
+    const body = Buffer.from(JSON.stringify({ ref: "refs/heads/master" }));
+    const hmac = (algorithm: string, secret: string) =>
+        `${algorithm}=${crypto.createHmac(algorithm, secret).update(body).digest("hex")}`;
+
+    describe("verifyWebhookSignature", () => {
+
+        it("should accept valid GitHub signatures", () => {
+            assert(verifyWebhookSignature("secret", { "x-hub-signature-256": hmac("sha256", "secret") }, body));
+            assert(verifyWebhookSignature("secret", { "x-hub-signature": hmac("sha1", "secret") }, body));
+        });
+
+        it("should accept valid generic signature", () => {
+            assert(verifyWebhookSignature("secret", { "x-atomist-signature": hmac("sha256", "secret") }, body));
+        });
+
+        it("should accept GitLab token", () => {
+            assert(verifyWebhookSignature("secret", { "x-gitlab-token": "secret" }, body));
+            assert(!verifyWebhookSignature("secret", { "x-gitlab-token": "other" }, body));
+        });
+
+        it("should reject invalid or missing signatures", () => {
+            assert(!verifyWebhookSignature("secret", { "x-hub-signature-256": hmac("sha256", "other") }, body));
+            assert(!verifyWebhookSignature("secret", { "x-hub-signature-256": hmac("md5", "secret") }, body));
+            assert(!verifyWebhookSignature("secret", { "x-hub-signature-256": "garbage" }, body));
+            assert(!verifyWebhookSignature("secret", {}, body));
+            assert(!verifyWebhookSignature(undefined, { "x-hub-signature-256": hmac("sha256", "secret") }, body));
+        });
+    });
+
+    describe("webhookEvents", () => {
+
+        const automations = new BuildableAutomationServer({ name: "webhook", version: "0.1.0" });
+        automations.registerEventHandler(() => new HelloWorldIngester());
+        automations.registerEventHandler(() => new GitLabPush());
+        automations.registerIngester(GitLabPushPayload);
+
+        it("should map payload to event of subscription", () => {
+            const payload = { HelloWorld: [{ id: "1" }] };
+            const events = webhookEvents("HelloWorldIngester", payload, automations.automations, "T123");
+            assert(events.length === 1);
+            assert(events[0].extensions.operationName === "HelloWorldIngester");
+            assert(events[0].extensions.team_id === "T123");
+            assert(!!events[0].extensions.correlation_id);
+            assert(events[0].data === payload);
+        });
+
+        it("should map payload to events of ingester root type", () => {
+            const payload = { user_username: "cd" };
+            const events = webhookEvents("GitLabPush", payload, automations.automations, "T123");
+            assert(events.length === 1);
+            assert(events[0].extensions.operationName.startsWith("GitLabPush_"));
+            assert.deepEqual(events[0].data, { GitLabPush: [payload] });
+        });
+
+        it("should not map unknown names", () => {
+            assert(webhookEvents("HelloWorld", {}, automations.automations, "T123").length === 0);
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import "mocha";
+
+import * as assert from "power-assert";
+import { HandleCommand } from "../../../src/HandleCommand";
+import { HandleEvent } from "../../../src/HandleEvent";
+import { AutomationContextAware, HandlerContext } from "../../../src/HandlerContext";
+import { AbstractRequestProcessor } from "../../../src/internal/transport/AbstractRequestProcessor";
+import { replayCommand, replayEvent } from "../../../src/internal/transport/replay";
+import { CommandIncoming, EventIncoming } from "../../../src/internal/transport/RequestProcessor";
+import { BuildableAutomationServer } from "../../../src/server/BuildableAutomationServer";
+import { GraphClient } from "../../../src/spi/graph/GraphClient";
+import { addressSlackChannels, MessageClient, SlackDestination } from "../../../src/spi/message/MessageClient";
+import { Factory } from "../../../src/util/constructionUtils";
+
+class TestRequestProcessor extends AbstractRequestProcessor {
+
+    public sent: any[] = [];
+
+    protected sendStatusMessage(payload: any, ctx: HandlerContext & AutomationContextAware): Promise<any> {
+        this.sent.push(payload);
+        return Promise.resolve();
+    }
+
+    protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+        return undefined;
+    }
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+        const sent = this.sent;
+        return {
+            respond(msg: any) {
+                sent.push(msg);
+                return Promise.resolve();
+            },
+            send(msg: any) {
+                sent.push(msg);
+                return Promise.resolve();
+            },
+        } as any as MessageClient;
+    }
+}
+
+describe("replay", () => {
+
+    const seen: HandlerContext[] = [];
+
+    function processor(): TestRequestProcessor {
+        const automations = new BuildableAutomationServer({ name: "replay", version: "0.1.0" });
+        const command: Factory<HandleCommand> = () => ({
+            __kind: "command-handler",
+            __intent: "wave",
+            __name: "DoTheWave",
+            handle: (ctx: HandlerContext) => {
+                seen.push(ctx);
+                return ctx.messageClient.respond("wooo").then(() => ({ code: 0 }));
+            },
+        });
+        const event: Factory<HandleEvent<any>> = () => ({
+            __kind: "event-handler",
+            __name: "DoTheWave",
+            __subscription: "subscription DoTheWave { Woo { stuff } }",
+            handle: (e: any, ctx: HandlerContext) => {
+                seen.push(ctx);
+                return ctx.messageClient.send("wooo", addressSlackChannels("TEAM", "channel")).then(() => ({ code: 0 }));
+            },
+        });
+        automations.registerCommandHandler(command);
+        automations.registerEventHandler(event);
+        return new TestRequestProcessor(automations);
+    }
+
+    const recordedCommand: CommandIncoming = {
+        parameters: [],
+        mapped_parameters: [],
+        secrets: [{ uri: "github://user_token?scopes=repo", value: "************" }],
+        command: "DoTheWave",
+        correlation_id: "abc",
+        team: { id: "TEAM" },
+        source: {
+            user_agent: "slack",
+            slack: {
+                team: { id: "TEAM" },
+            },
+        },
+    };
+
+    const recordedEvent: EventIncoming = {
+        data: { Woo: [{ stuff: "yes" }] },
+        extensions: {
+            operationName: "DoTheWave",
+            team_id: "TEAM",
+            correlation_id: "xyz",
+        },
+        secrets: [],
+    };
+
+    beforeEach(() => seen.splice(0));
+
+    it("should replay command with new correlation id", done => {
+        const p = processor();
+        replayCommand(recordedCommand, p)
+            .then(result => {
+                assert(result.correlation_id !== "abc");
+                assert(result.replay.correlation_id === "abc");
+                assert(!result.replay.dry_run);
+                assert((result.result as any).code === 0);
+                assert(!result.messages);
+                assert(seen.length === 1);
+                assert(seen[0].correlationId === result.correlation_id);
+                assert(p.sent.some(m => m === "wooo"));
+                assert(recordedCommand.correlation_id === "abc");
+            })
+            .then(() => done(), done);
+    });
+
+    it("should not modify recorded command when replaying with secrets", done => {
+        const p = processor();
+        replayCommand(recordedCommand, p, { secrets: [{ uri: "github://user_token?scopes=repo", value: "token" }] })
+            .then(() => {
+                assert(seen.length === 1);
+                assert(recordedCommand.secrets[0].value === "************");
+            })
+            .then(() => done(), done);
+    });
+
+    it("should capture messages and status on command dry-run", done => {
+        const p = processor();
+        replayCommand(recordedCommand, p, { dryRun: true })
+            .then(result => {
+                assert(result.replay.dry_run);
+                assert(result.messages.length === 1);
+                assert(result.messages[0].message === "wooo");
+                assert(p.sent.length === 0);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should replay event with new correlation id", done => {
+        const p = processor();
+        replayEvent(recordedEvent, p)
+            .then(result => {
+                assert(result.correlation_id !== "xyz");
+                assert(result.replay.correlation_id === "xyz");
+                assert((result.result as any[]).length === 1);
+                assert(seen[0].correlationId === result.correlation_id);
+                assert(p.sent.some(m => m === "wooo"));
+                assert(recordedEvent.extensions.correlation_id === "xyz");
+            })
+            .then(() => done(), done);
+    });
+
+    it("should capture messages on event dry-run", done => {
+        const p = processor();
+        replayEvent(recordedEvent, p, { dryRun: true })
+            .then(result => {
+                assert(result.messages.length === 1);
+                assert.deepEqual((result.messages[0].destinations[0] as SlackDestination).channels, ["channel"]);
+                assert(p.sent.length === 0);
+            })
+            .then(() => done(), done);
+    });
+});
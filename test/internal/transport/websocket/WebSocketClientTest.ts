@@ -0,0 +1,153 @@
+import * as express from "express";
+import * as http from "http";
+import "mocha";
+import * as assert from "power-assert";
+import * as WebSocket from "ws";
+import {
+    backoff,
+    WebSocketClient,
+    WebSocketState,
+} from "../../../../src/internal/transport/websocket/WebSocketClient";
+import { WebSocketSender } from "../../../../src/internal/transport/websocket/WebSocketMessageClient";
+import { WebSocketRequestProcessor } from "../../../../src/internal/transport/websocket/WebSocketRequestProcessor";
+import { AutomationEventListenerSupport } from "../../../../src/server/AutomationEventListener";
+
+class StateRecordingListener extends AutomationEventListenerSupport {
+
+    public states: WebSocketState[] = [];
+
+    public connectionStateChanged(state: WebSocketState, previous: WebSocketState) {
+        this.states.push(state);
+    }
+}
+
+describe("WebSocketClient", () => {
+
+    let registrations: http.Server;
+    let server: WebSocket.Server;
+    let received: string[];
+    let client: WebSocketClient;
+    let listener: StateRecordingListener;
+
+    const processor: WebSocketRequestProcessor = {
+        // tslint:disable-next-line:no-empty
+        onRegistration: () => { },
+        // tslint:disable-next-line:no-empty
+        onConnect: (ws: WebSocketSender) => { },
+        // tslint:disable-next-line:no-empty
+        onDisconnect: () => { },
+        // tslint:disable-next-line:no-empty
+        processCommand: () => { },
+        // tslint:disable-next-line:no-empty
+        processEvent: () => { },
+    };
+
+    function port(s: any): number {
+        return s.address().port;
+    }
+
+    beforeEach(done => {
+        client = undefined;
+        received = [];
+        listener = new StateRecordingListener();
+        server = new WebSocket.Server({ port: 0 }, () => {
+            const exp = express();
+            exp.post("/registration", (req, res) => res.json({
+                url: `ws://localhost:${port(server)}`,
+                jwt: "123456",
+            }));
+            registrations = exp.listen(0, done);
+        });
+        server.on("connection", ws => ws.on("message", data => received.push(data as string)));
+    });
+
+    afterEach(done => {
+        if (client) {
+            client.close();
+        }
+        registrations.close();
+        server.close(() => done());
+    });
+
+    function start(bufferSize?: number, initialDelay: number = 10): Promise<void> {
+        client = new WebSocketClient(() => ({ name: "ws", version: "0.1.0" }), {
+            registrationUrl: `http://localhost:${port(registrations)}/registration`,
+            graphUrl: undefined,
+            token: "token",
+            reconnect: { initialDelay, maxDelay: initialDelay * 2 },
+            bufferSize,
+        }, processor, [listener]);
+        return client.start();
+    }
+
+    function eventually(condition: () => boolean, timeout: number = 2000): Promise<void> {
+        const since = Date.now();
+        return new Promise<void>((resolve, reject) => {
+            const check = () => {
+                if (condition()) {
+                    resolve();
+                } else if (Date.now() - since > timeout) {
+                    reject(new Error("Condition not met in time"));
+                } else {
+                    setTimeout(check, 10);
+                }
+            };
+            check();
+        });
+    }
+
+    it("should back off exponentially with jitter", () => {
+        const options = { initialDelay: 100, maxDelay: 1000, jitter: 0.5 };
+        for (let i = 0; i < 20; i++) {
+            const delay = backoff(2, options);
+            assert(delay >= 200 && delay <= 400);
+            assert(backoff(10, options) <= 1000);
+        }
+        assert(backoff(3, { ...options, jitter: 0 }) === 800);
+    });
+
+    it("should flush buffered messages once connected", done => {
+        const started = start();
+        client.send("one");
+        client.send("two");
+        assert(client.buffered === 2);
+        started
+            .then(() => eventually(() => received.length === 2))
+            .then(() => {
+                assert.deepEqual(received, ["one", "two"]);
+                assert(client.buffered === 0);
+                assert.deepEqual(listener.states, ["registering", "connecting", "connected"]);
+            })
+            .then(() => done(), done);
+    });
+
+    it("should drop oldest messages when buffer is full", done => {
+        const started = start(2);
+        client.send("one");
+        client.send("two");
+        client.send("three");
+        started
+            .then(() => eventually(() => received.length === 2))
+            .then(() => assert.deepEqual(received, ["two", "three"]))
+            .then(() => done(), done);
+    });
+
+    it("should reconnect and send messages buffered while disconnected", done => {
+        start(undefined, 200)
+            .then(() => {
+                server.clients.forEach(ws => ws.terminate());
+                return eventually(() => client.state === "reconnecting");
+            })
+            .then(() => {
+                client.send("while reconnecting");
+                return eventually(() => received.length === 1);
+            })
+            .then(() => {
+                assert.deepEqual(received, ["while reconnecting"]);
+                assert(client.state === "connected");
+                assert.deepEqual(listener.states, ["registering", "connecting", "connected",
+                    "reconnecting", "registering", "connecting", "connected"]);
+            })
+            .then(() => done(), done);
+    });
+});
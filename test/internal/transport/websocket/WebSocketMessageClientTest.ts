@@ -9,6 +9,8 @@ import {
 } from "../../../../src/internal/transport/websocket/WebSocketMessageClient";
 import { guid } from "../../../../src/internal/util/string";
 import {
+    addressSlackChannels,
+    addressSlackUsers,
     buttonForCommand,
     SlackDestination, SlackFileMessage,
 } from "../../../../src/spi/message/MessageClient";
@@ -256,4 +258,82 @@ describe("WebSocketMessageClient", () => {
 
     });
 
+    it("correctly format threaded replies", () => {
+        const sent: any[] = [];
+        const client = new WebSocketEventMessageClient(
+            {
+                data: {},
+                extensions: { team_id: "Txxxxxxx", correlation_id: guid(), operationName: "Foor" },
+                secrets: [],
+            }, { send: payload => sent.push(JSON.parse(payload)) } as any as WebSocket);
+
+        return client.send("Build started", addressSlackChannels("Txxxxxxx", "general"), { id: "started" })
+            .then(started => {
+                assert(started.id === "started");
+                assert(!started.thread);
+                assert(sent[0].id === "started");
+                assert(!sent[0].destinations[0].slack.thread);
+                return client.send("Build failed", [
+                    addressSlackChannels("Txxxxxxx", "general"),
+                    addressSlackUsers("Txxxxxxx", "cd").replyInThread("dm-1"),
+                ], { id: "failed", thread: started, broadcast: true })
+                    .then(failed => {
+                        assert(failed.id === "failed");
+                        assert(failed.thread === started.id);
+                        assert.deepEqual(sent[1].destinations[0].slack.thread, { message_id: started.id, broadcast: true });
+                        assert.deepEqual(sent[1].destinations[1].slack.thread, { message_id: "dm-1", broadcast: false });
+                    });
+            });
+    });
+
+    it("not send generated message id", () => {
+        const sent: any[] = [];
+        const client = new WebSocketEventMessageClient(
+            {
+                data: {},
+                extensions: { team_id: "Txxxxxxx", correlation_id: guid(), operationName: "Foor" },
+                secrets: [],
+            }, { send: payload => sent.push(JSON.parse(payload)) } as any as WebSocket);
+
+        return client.send("Hello", addressSlackChannels("Txxxxxxx", "general"))
+            .then(reference => {
+                assert(!!reference.id);
+                assert(sent[0].id === undefined);
+            });
+    });
+
+    it("correctly format threaded response", () => {
+        const client = new WebSocketCommandMessageClient(
+            {
+                api_version: "1",
+                correlation_id: guid(),
+                team: {
+                    id: "Txxxxxxx",
+                },
+                source: {
+                    user_agent: "slack",
+                    slack: {
+                        team: {
+                            id: "Txxxxxxx",
+                        },
+                        channel: {
+                            id: "C12",
+                        },
+                    },
+                },
+                command: "Foor",
+                parameters: [],
+                mapped_parameters: [],
+                secrets: [],
+            }, { send: () => { //
+                // Intentionally left empty
+            } } as any as WebSocket );
+
+        return client.respond("Done", { thread: { id: "reply", thread: "started" } })
+            .then(fm => {
+                assert(fm.thread === "started");
+                assert(fm.destinations[0].slack.channel.id === "C12");
+                assert.deepEqual(fm.destinations[0].slack.thread, { message_id: "started", broadcast: false });
+            });
+    });
 });
@@ -0,0 +1,107 @@
+import "mocha";
+import * as assert from "power-assert";
+import * as namespace from "../../../src/internal/util/cls";
+import {
+    formatter,
+    logger,
+    LoggingConfig,
+    LogLevels,
+    logLevels,
+    setLogLevels,
+} from "../../../src/internal/util/logger";
+
+describe("logger", () => {
+
+    let format: string;
+    let levels: LogLevels;
+    let logged: string[];
+    const listener = (transport, level, msg) => logged.push(msg);
+
+    beforeEach(() => {
+        format = LoggingConfig.format;
+        levels = logLevels();
+        logged = [];
+        (logger as any).on("logging", listener);
+    });
+
+    afterEach(() => {
+        LoggingConfig.format = format;
+        setLogLevels(levels);
+        (logger as any).removeListener("logging", listener);
+    });
+
+    it("should format entry as JSON with context fields and serialized error", done => {
+        const ses = namespace.init();
+        ses.run(() => {
+            namespace.set({
+                correlationId: "1234",
+                teamId: "Txxxxxx",
+                teamName: "Test",
+                operation: "HelloWorld",
+                name: "logger",
+                version: "0.1.0",
+                invocationId: "5678",
+                ts: Date.now() - 100,
+            });
+
+            LoggingConfig.format = "json";
+            const line = formatter({ level: "error", message: "Invocation failed", meta: new Error("boom") });
+            LoggingConfig.format = format;
+            assert(line.indexOf("\n") < 0);
+            const entry = JSON.parse(line);
+            assert(entry.level === "error");
+            assert(entry.message === "Invocation failed");
+            assert(entry.correlationId === "1234");
+            assert(entry.teamId === "Txxxxxx");
+            assert(entry.operation === "HelloWorld");
+            assert(entry.invocationId === "5678");
+            assert(entry.duration >= 100);
+            assert(entry.meta.message === "boom");
+            assert(entry.meta.stack);
+            done();
+        });
+    });
+
+    it("should apply module log level", () => {
+        setLogLevels({ level: "info", modules: { "test/internal/util": "warn" } });
+        logger.info("module info");
+        logger.warn("module warn");
+
+        setLogLevels({ level: "info", modules: { "src/internal": "debug" } });
+        logger.debug("default debug");
+        logger.info("default info");
+
+        assert.deepEqual(logged, ["module warn", "default info"]);
+    });
+
+    it("should enable debug for a module while default level is info", () => {
+        setLogLevels({ level: "info", modules: { "test/internal/util/loggerTest": "debug" } });
+        logger.debug("module debug");
+        assert.deepEqual(logged, ["module debug"]);
+        assert.deepEqual(logLevels(), { level: "info", modules: { "test/internal/util/loggerTest": "debug" } });
+    });
+
+    it("should only look up calling module for levels that differ between modules", () => {
+        setLogLevels({ level: "info", modules: { "src/internal": "debug" } });
+        const prepareStackTrace = (Error as any).prepareStackTrace;
+        let traces = 0;
+        (Error as any).prepareStackTrace = (err, stack) => {
+            traces++;
+            return prepareStackTrace ? prepareStackTrace(err, stack) : `${err}\n    at ${stack.join("\n    at ")}`;
+        };
+        try {
+            logger.info("default info");
+            assert(traces === 0);
+            logger.debug("default debug");
+            assert(traces === 1);
+        } finally {
+            (Error as any).prepareStackTrace = prepareStackTrace;
+        }
+        assert.deepEqual(logged, ["default info"]);
+    });
+
+    it("should reject invalid log levels", () => {
+        assert.throws(() => setLogLevels({ modules: { "src/internal": "loud" } }), /Invalid log level 'loud'/);
+        assert.deepEqual(logLevels(), levels);
+    });
+});
@@ -0,0 +1,49 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    incrementCounter,
+    observeHistogram,
+    prometheusMetrics,
+    resetPrometheusMetrics,
+} from "../../../src/internal/util/prometheus";
+
+describe("prometheus", () => {
+
+    beforeEach(() => resetPrometheusMetrics());
+
+    it("should render counter with labels", () => {
+        incrementCounter("atomist_test_total", "Test counter", { handler: "HelloWorld", outcome: "success" });
+        incrementCounter("atomist_test_total", "Test counter", { handler: "HelloWorld", outcome: "success" });
+        incrementCounter("atomist_test_total", "Test counter", { handler: "HelloWorld", outcome: "failure" });
+        const lines = prometheusMetrics().split("\n");
+        assert(lines.indexOf("# TYPE atomist_test_total counter") >= 0);
+        assert(lines.indexOf(`atomist_test_total{handler="HelloWorld",outcome="success"} 2`) >= 0);
+        assert(lines.indexOf(`atomist_test_total{handler="HelloWorld",outcome="failure"} 1`) >= 0);
+    });
+
+    it("should render histogram with cumulative buckets", () => {
+        observeHistogram("atomist_test_seconds", "Test histogram", { handler: "HelloWorld" }, 0.2);
+        observeHistogram("atomist_test_seconds", "Test histogram", { handler: "HelloWorld" }, 3);
+        const lines = prometheusMetrics().split("\n");
+        assert(lines.indexOf("# TYPE atomist_test_seconds histogram") >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_bucket{handler="HelloWorld",le="0.1"} 0`) >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_bucket{handler="HelloWorld",le="0.25"} 1`) >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_bucket{handler="HelloWorld",le="5"} 2`) >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_bucket{handler="HelloWorld",le="+Inf"} 2`) >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_sum{handler="HelloWorld"} 3.2`) >= 0);
+        assert(lines.indexOf(`atomist_test_seconds_count{handler="HelloWorld"} 2`) >= 0);
+    });
+
+    it("should escape label values", () => {
+        incrementCounter("atomist_test_total", "Test counter", { team: "my \"team\"\n" });
+        assert(prometheusMetrics().indexOf(`atomist_test_total{team="my \\"team\\"\\n"} 1`) >= 0);
+    });
+
+    it("should render process, memory and event series gauges", () => {
+        const metrics = prometheusMetrics();
+        assert(metrics.indexOf("# TYPE process_resident_memory_bytes gauge") >= 0);
+        assert(metrics.indexOf("# TYPE nodejs_heap_size_used_bytes gauge") >= 0);
+        assert(/^atomist_incoming_requests\{type="event",window="3h"\} \d+$/m.test(metrics));
+        assert(/^atomist_incoming_requests\{type="command",window="5m"\} \d+$/m.test(metrics));
+    });
+});
@@ -1,8 +1,11 @@
 import "mocha";
 import * as assert from "power-assert";
 import {
+    addressSlackChannels,
     commandName,
     mergeParameters,
+    messageReference,
+    threadId,
 } from "../../../src/spi/message/MessageClient";
 import { HelloWorld } from "../../command/HelloWorld";
 import { PlainHelloWorld } from "../../command/PlainHelloWorld";
@@ -58,4 +61,23 @@ describe("MessageClient", () => {
         });
     });
 
+    describe("messageReference", () => {
+
+        it("reference message by its id", () => {
+            assert.deepEqual(messageReference({ id: "build-1" }), { id: "build-1" });
+            assert(!!messageReference({}).id);
+        });
+
+        it("reference thread of reply", () => {
+            assert.deepEqual(messageReference({ id: "reply", thread: "build-1" }), { id: "reply", thread: "build-1" });
+            assert.deepEqual(messageReference({ id: "reply" },
+                [addressSlackChannels("T123", "general").replyInThread("build-2")]), { id: "reply", thread: "build-2" });
+        });
+
+        it("reply to threaded message in the same thread", () => {
+            assert(threadId("build-1") === "build-1");
+            assert(threadId({ id: "build-1" }) === "build-1");
+            assert(threadId({ id: "reply", thread: "build-1" }) === "build-1");
+        });
+    });
 });